@@ -0,0 +1,157 @@
+import { TorBoxRule, TorBoxRuleConditionGroup } from '@/types/torbox';
+import { AutomationTarget, compareValues, executeAction, getNextRuleRun, matchesRule, runAutomationTick, toTargets } from '@/core/automation';
+import { createEmptyState, createFakeRuntime } from './fixtures/automation';
+import { failedUsenet, pausedWeb, stalledTorrent, torrentWithFiles, usenetAudiobook, webWithDownloadId, webWithWebId } from './fixtures/torbox';
+
+const makeRule = (overrides: Partial<TorBoxRule> = {}): TorBoxRule => ({
+  id: 'rule_test', name: 'Test rule', enabled: true, checkIntervalMinutes: 10, conditions: [], action: 'notify_user', scope: 'all', trigger: 'interval', lastRunAt: null, lastResult: null, runCount: 0, createdAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe('compareValues', () => {
+  it('compares numerically when both sides are numbers', () => {
+    expect(compareValues(100, '100', 'equals')).toBe(true);
+    expect(compareValues(9, '10', 'less_than')).toBe(true);
+    expect(compareValues('9', '10', 'less_than')).toBe(true);
+    expect(compareValues(10, '10.0', 'equals')).toBe(true);
+  });
+
+  it('falls back to case-insensitive text equality when the expected value is not a number', () => {
+    expect(compareValues('Paused', 'paused', 'equals')).toBe(true);
+    expect(compareValues('paused', 'downloading', 'not_equals')).toBe(true);
+    expect(compareValues(5, 'five', 'equals')).toBe(false);
+  });
+
+  it('does not treat numeric-looking text as a number for text operators', () => {
+    expect(compareValues(1080, '108', 'contains')).toBe(true);
+    expect(compareValues('007', '7', 'equals')).toBe(true);
+    expect(compareValues('007', '7', 'starts_with')).toBe(false);
+  });
+
+  it('supports the text operators', () => {
+    expect(compareValues('Ubuntu.ISO', 'ubuntu', 'starts_with')).toBe(true);
+    expect(compareValues('Ubuntu.ISO', '.iso', 'ends_with')).toBe(true);
+    expect(compareValues('Ubuntu.ISO', 'debian', 'not_contains')).toBe(true);
+    expect(compareValues('web', '[torrent, WEB]', 'in_list')).toBe(true);
+    expect(compareValues('usenet', 'torrent, web', 'in_list')).toBe(false);
+  });
+
+  it('accepts bare and /literal/ regexes and rejects invalid ones', () => {
+    expect(compareValues('Show.S01E02.mkv', 's\\d+e\\d+', 'matches_regex')).toBe(true);
+    expect(compareValues('Show.S01E02.mkv', '/s\\d+e\\d+/', 'matches_regex')).toBe(false);
+    // Repeated on purpose: a kept `g` flag would make the cached regex alternate between true and false.
+    expect(compareValues('Show.S01E02.mkv', '/S\\d+E\\d+/g', 'matches_regex')).toBe(true);
+    expect(compareValues('Show.S01E02.mkv', '/S\\d+E\\d+/g', 'matches_regex')).toBe(true);
+    expect(compareValues('anything', '(', 'matches_regex')).toBe(false);
+  });
+
+  it('never matches numeric operators against text', () => {
+    expect(compareValues('stalled', '5', 'greater_than')).toBe(false);
+  });
+});
+
+describe('toTargets', () => {
+  it('normalises every source and prefers webdownload_id for web items', async () => {
+    const { runtime } = createFakeRuntime({ torrents: [torrentWithFiles], usenet: [usenetAudiobook], web: [webWithWebId, webWithDownloadId] });
+    const targets = await toTargets(runtime.api);
+    expect(targets.map(t => `${t.source}:${t.sourceId}`)).toEqual(['torrent:101', 'usenet:202', 'web:9303', 'web:9304']);
+    expect(targets[0]).toMatchObject({ progress: 100, tracker: torrentWithFiles.tracker, fileIds: [1, 2] });
+    expect(targets[1]).toMatchObject({ progress: 40, peers: 0, tracker: null });
+  });
+});
+
+describe('matchesRule', () => {
+  let targets: AutomationTarget[];
+  const find = (key: string) => targets.find(t => `${t.source}:${t.sourceId}` === key)!;
+  const matching = (rule: TorBoxRule) => targets.filter(t => matchesRule(rule, t)).map(t => `${t.source}:${t.sourceId}`);
+
+  beforeAll(async () => {
+    const { runtime } = createFakeRuntime({ torrents: [torrentWithFiles, stalledTorrent], usenet: [usenetAudiobook, failedUsenet], web: [pausedWeb] });
+    targets = await toTargets(runtime.api);
+  });
+
+  it('matches everything in scope when there are no conditions', () => {
+    expect(matching(makeRule())).toHaveLength(5);
+    expect(matching(makeRule({ scope: 'usenet' }))).toEqual(['usenet:202', 'usenet:209']);
+  });
+
+  it('ignores blank condition values', () => {
+    expect(matching(makeRule({ conditions: [{ field: 'status', operator: 'equals', value: '  ' }] }))).toHaveLength(5);
+  });
+
+  it('ANDs the flat condition list', () => {
+    const rule = makeRule({ conditions: [{ field: 'age', operator: 'greater_than', value: '1' }, { field: 'progress', operator: 'less_than', value: '50' }] });
+    expect(matching(rule)).toEqual(['torrent:108', 'usenet:209']);
+  });
+
+  it('evaluates nested groups with OR and NOT', () => {
+    const conditionTree: TorBoxRuleConditionGroup = {
+      kind: 'group',
+      logic: 'and',
+      children: [
+        { kind: 'group', logic: 'or', children: [{ kind: 'condition', field: 'status', operator: 'equals', value: 'error' }, { kind: 'condition', field: 'peers', operator: 'equals', value: '0' }] },
+        { kind: 'condition', field: 'name_contains', operator: 'contains', value: 'linux', negate: true },
+      ],
+    };
+    expect(matching(makeRule({ conditionTree }))).toEqual(['usenet:202', 'usenet:209', 'web:310']);
+  });
+
+  it('reads stall time from updated_at before any samples exist', () => {
+    expect(find('torrent:108').stalledMinutes).toBeGreaterThanOrEqual(45);
+    expect(matchesRule(makeRule({ conditions: [{ field: 'download_stalled_time', operator: 'greater_than', value: '30' }] }), find('torrent:108'))).toBe(true);
+  });
+});
+
+describe('executeAction', () => {
+  it('runs chained steps per item and honours the failure policy', async () => {
+    const { runtime, calls } = createFakeRuntime({ torrents: [torrentWithFiles, stalledTorrent], usenet: [], web: [] });
+    const targets = await toTargets(runtime.api);
+    const rule = makeRule({
+      action: 'request_download_link',
+      actionSteps: [
+        { action: 'pause_download', onFailure: 'stop' },
+        { action: 'add_tag', actionValue: 'checked', onFailure: 'continue' },
+      ],
+    });
+    const failing = { ...runtime, api: { ...runtime.api, controlTorrent: async (id: number) => { if (id === 101) throw new Error('boom'); calls.push(`pause:torrent:${id}`); } } as unknown as typeof runtime.api };
+    const outcome = await executeAction(rule, targets, failing);
+    expect(calls).toEqual(['pause:torrent:108', 'tag:torrent:108:checked']);
+    expect(outcome.stepResults).toEqual([
+      { action: 'pause_download', succeeded: 1, failed: 1, skipped: 0, halted: 0 },
+      { action: 'add_tag', succeeded: 1, failed: 0, skipped: 0, halted: 1 },
+    ]);
+    expect(outcome.affectedCount).toBe(1);
+  });
+
+  it('queues deletions when the rule has an undo window', async () => {
+    const { runtime, calls } = createFakeRuntime({ torrents: [stalledTorrent], usenet: [], web: [] });
+    const outcome = await executeAction(makeRule({ action: 'delete_download', isDangerous: true, undoWindowMinutes: 5 }), await toTargets(runtime.api), runtime);
+    expect(calls).toEqual([]);
+    expect(outcome.queuedDeletions.map(t => t.sourceId)).toEqual([108]);
+    expect(outcome.executions[0].outcome).toBe('queued');
+  });
+});
+
+describe('runAutomationTick', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs a cron rule once when a matching minute falls between sparse ticks', async () => {
+    const at = (time: string) => new Date(`2026-03-10T${time}:00Z`).getTime();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+    const { runtime } = createFakeRuntime({ torrents: [stalledTorrent], usenet: [], web: [] });
+    let rules = [makeRule({ schedule: { kind: 'cron', cron: '0 3 * * *', timezone: 'UTC' }, createdAt: '2026-03-09T12:00:00Z' })];
+
+    // Background ticks 15 minutes apart never land inside 03:00 itself.
+    const ranAt: string[] = [];
+    for (const time of ['02:50', '03:05', '03:20', '03:35']) {
+      jest.setSystemTime(at(time));
+      const result = await runAutomationTick(() => createEmptyState(rules), { trigger: 'background', runtime });
+      if (result?.results.rule_test) ranAt.push(time);
+      if (result?.rules) rules = result.rules;
+    }
+    expect(ranAt).toEqual(['03:05']);
+    expect(getNextRuleRun(rules[0], at('03:35'))).toBe(new Date('2026-03-11T03:00:00Z').getTime());
+  });
+});
@@ -0,0 +1,81 @@
+import { TorBoxRulePresetId } from '@/types/torbox';
+import { AutomationState, TORBOX_RULE_PRESETS, createRuleFromPreset, runAutomationTick, validateActionSteps, validateConditionValue, getRuleActionSteps } from '@/core/automation';
+import { createMockTorrent } from '@/mock/torboxServer';
+import { createEmptyState, createFakeRuntime, FakeLibrary } from './fixtures/automation';
+import { failedUsenet, oldCompletedTorrent, pausedWeb, stalledTorrent, torrentWithFiles, usenetAudiobook, webWithDownloadId } from './fixtures/torbox';
+
+const slowTorrent = createMockTorrent({ id: 112, name: 'Slow.Download', download_speed: 2048, progress: 0.2 });
+
+const createLibrary = (): FakeLibrary => ({
+  torrents: [torrentWithFiles, stalledTorrent, oldCompletedTorrent, slowTorrent].map(item => ({ ...item })),
+  usenet: [usenetAudiobook, failedUsenet].map(item => ({ ...item })),
+  web: [webWithDownloadId, pausedWeb].map(item => ({ ...item })),
+});
+
+interface PresetExpectation {
+  // Executions as "<outcome>:<source>:<id>", in order.
+  executions: string[];
+  // API side effects, in order.
+  calls?: string[];
+  // Event presets need a change between two ticks; this mutates the library after the first.
+  change?: (library: FakeLibrary) => void;
+}
+
+// One entry per preset, so adding a preset without a regression case fails the suite.
+const EXPECTATIONS: Record<TorBoxRulePresetId, PresetExpectation> = {
+  pause_stalled_downloads: { executions: ['success:torrent:108'], calls: ['pause:torrent:108'] },
+  resume_when_progress_seen: { executions: ['success:web:310'], calls: ['resume:web:310'] },
+  reannounce_stalled_torrents: { executions: ['success:torrent:108'], calls: ['reannounce:torrent:108'] },
+  completed_notify: { executions: ['success:usenet:202'], change: library => { library.usenet[0] = { ...library.usenet[0], progress: 1, download_finished: true } } },
+  notify_errors: { executions: ['success:web:9304'], change: library => { library.web[0] = { ...library.web[0], download_state: 'error' } } },
+  completed_get_link: { executions: ['success:torrent:101', 'success:torrent:111'], calls: ['link:torrent:101', 'link:torrent:111'] },
+  stream_ready_media: { executions: ['success:torrent:101', 'success:torrent:111'], calls: ['stream:torrent:101', 'stream:torrent:111'] },
+  delete_very_old_completed: { executions: ['queued:torrent:111'], calls: [] },
+  auto_delete_old_failed: { executions: ['queued:usenet:209'], calls: [] },
+  pause_high_eta_downloads: { executions: ['success:web:310'], calls: ['pause:web:310'] },
+  resume_stalled_items: { executions: ['success:torrent:108'], calls: ['resume:torrent:108'] },
+  notify_slow_downloads: { executions: ['success:torrent:112'], calls: [] },
+  generate_links_for_cached: { executions: ['success:torrent:111'], calls: ['link:torrent:111'] },
+  stream_ready_cached: { executions: ['success:torrent:111'], calls: ['stream:torrent:111'] },
+  notify_torrent_tracker_issues: { executions: ['success:torrent:108'], calls: [] },
+};
+
+describe('TORBOX_RULE_PRESETS', () => {
+  it('has a regression case for every preset', () => {
+    expect(Object.keys(EXPECTATIONS).sort()).toEqual(TORBOX_RULE_PRESETS.map(preset => preset.id).sort());
+  });
+
+  it.each(TORBOX_RULE_PRESETS.map(preset => [preset.id, preset] as const))('%s is a valid rule', (_id, preset) => {
+    const rule = createRuleFromPreset(preset);
+    expect(rule.enabled).toBe(false);
+    expect(validateActionSteps(getRuleActionSteps(rule), rule.scope ?? 'all')).toBeNull();
+    for (const condition of rule.conditions) expect(validateConditionValue(condition)).toBeNull();
+    expect(rule.isDangerous ?? false).toBe(getRuleActionSteps(rule).some(step => step.action === 'delete_download'));
+  });
+
+  it.each(TORBOX_RULE_PRESETS.map(preset => [preset.id, preset] as const))('%s acts on the expected items', async (id, preset) => {
+    const expected = EXPECTATIONS[id];
+    const library = createLibrary();
+    const { runtime, calls } = createFakeRuntime(library);
+    const rule = createRuleFromPreset(preset);
+    let state: AutomationState = createEmptyState([rule]);
+    const tick = async () => {
+      const result = await runAutomationTick(() => state, { trigger: 'manual', forceRuleId: rule.id, runtime });
+      if (!result) throw new Error('Tick did not run');
+      state = { ...state, rules: result.rules ?? state.rules, ledger: result.ledger ?? state.ledger, snapshot: result.snapshot, metrics: result.metrics, pendingDeletions: result.pendingDeletions ?? state.pendingDeletions };
+      return result;
+    };
+
+    if (expected.change) {
+      await tick();
+      expect(state.ledger.entries).toHaveLength(0);
+      expected.change(library);
+    }
+    const result = await tick();
+
+    expect(result.results[rule.id]).not.toMatch(/^Failed/);
+    expect([...state.ledger.entries].reverse().map(entry => `${entry.outcome}:${entry.source}:${entry.sourceId}`)).toEqual(expected.executions);
+    if (expected.calls) expect(calls).toEqual(expected.calls);
+    if (expected.executions.some(entry => entry.startsWith('queued'))) expect(state.pendingDeletions).toHaveLength(expected.executions.length);
+  });
+});
@@ -0,0 +1,59 @@
+import { TorBoxAPI } from '@/core/torbox-api';
+import { BATCH_MIN_INTERVAL_MS, normalizeBatchUrl, parseBatchInput, runRateLimitedQueue } from '@/utils/batchAdd';
+
+const realFetch = global.fetch;
+afterEach(() => {
+  global.fetch = realFetch;
+  jest.restoreAllMocks();
+});
+
+describe('parseBatchInput', () => {
+  it('flags torrents, web links and NZB links that are already in the library', () => {
+    const hash = '08ada5a7a6183aae1e09d831df6748d566095a10';
+    const existing = new Set([hash, normalizeBatchUrl('https://files.example/Movie.zip/'), normalizeBatchUrl('https://indexer.example/get/1.nzb')]);
+    const entries = parseBatchInput([
+      `magnet:?xt=urn:btih:${hash.toUpperCase()}&dn=x`,
+      'https://FILES.example/Movie.zip',
+      'https://indexer.example/get/1.nzb',
+      'https://indexer.example/get/2.nzb',
+    ].join('\n'), existing);
+    expect(entries.map(entry => [entry.type, entry.status])).toEqual([['magnet', 'duplicate'], ['web', 'duplicate'], ['nzb', 'duplicate'], ['nzb', 'ready']]);
+  });
+
+  it('keeps links that differ only in path or query case apart', () => {
+    expect(normalizeBatchUrl(' HTTPS://Indexer.Example/api?t=get&id=AbC&apikey=Xy/ ')).toBe('https://indexer.example/api?t=get&id=AbC&apikey=Xy');
+    const entries = parseBatchInput('https://indexer.example/api?t=get&id=AbC\nhttps://indexer.example/api?t=get&id=abc\nhttps://cdn.example/Signed/Ab1', new Set([normalizeBatchUrl('https://CDN.example/Signed/ab1')]));
+    expect(entries.map(entry => entry.status)).toEqual(['ready', 'ready', 'ready']);
+  });
+});
+
+describe('runRateLimitedQueue', () => {
+  it('waits out the API backoff after an add is rate limited', async () => {
+    const events: string[] = [];
+    const statuses = [429, 200];
+    global.fetch = jest.fn(async () => {
+      const status = statuses.shift()!;
+      events.push(`fetch ${status}`);
+      return new Response(JSON.stringify({ success: status === 200, detail: status === 200 ? '' : 'Too many requests', data: null }), { status });
+    }) as unknown as typeof fetch;
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+      events.push(`wait ${Math.round(ms ?? 0)}`);
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+
+    const api = new TorBoxAPI({ baseUrl: 'https://api.example' });
+    const failures: string[] = [];
+    await runRateLimitedQueue(['https://a.example/1.zip', 'https://a.example/2.zip'], async (url) => {
+      await api.addWebDownload(url).catch((err: Error) => { failures.push(err.message); });
+    }, { minIntervalMs: BATCH_MIN_INTERVAL_MS, getBackoffMs: () => api.getBackoffMs() });
+
+    expect(failures).toEqual(['TorBox API error 429: {"success":false,"detail":"Too many requests","data":null}']);
+    expect(events[0]).toBe('fetch 429');
+    expect(events[1]).toBe('wait 2000');
+    expect(events[events.length - 1]).toBe('fetch 200');
+    const apiWait = Number(events[2].replace('wait ', ''));
+    expect(apiWait).toBeGreaterThanOrEqual(1600);
+    expect(apiWait).toBeLessThanOrEqual(2400);
+  });
+});
@@ -0,0 +1,227 @@
+import { classifyFile, getFileExtension, isDurationProbeCandidate, sanitizeClassificationConfig, validateNameRulePattern } from '@/utils/classification';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '@/constants/categories';
+import { buildLibraryItems } from '@/utils/libraryItems';
+import { makeFile, torrentWithFiles } from './fixtures/torbox';
+
+describe('getFileExtension', () => {
+  it('lowercases the last extension', () => {
+    expect(getFileExtension('Movie.2020.MKV')).toBe('mkv');
+    expect(getFileExtension('archive.tar.gz')).toBe('gz');
+  });
+
+  it('returns an empty string when there is no extension', () => {
+    expect(getFileExtension('README')).toBe('');
+  });
+});
+
+describe('classifyFile', () => {
+  it.each([
+    ['Sintel.2010.1080p.mkv', 700, 'movie'],
+    ['Show/S01E01.mkv', 700, 'tv'],
+    ['Show.1x02.Pilot.mp4', 400, 'tv'],
+    ['Show_S01E02_720p.mkv', 700, 'tv'],
+    ['Show_1x02.mkv', 400, 'tv'],
+    ['Book.m4b', 5, 'audiobook'],
+    ['Novel.epub', 1, 'ebook'],
+    ['Comic.cbz', 40, 'comics'],
+    ['Comic.cbr', 40, 'comics'],
+    ['Setup.exe', 80, 'software'],
+    ['App.dmg', 120, 'software'],
+    ['app-release.apk', 30, 'software'],
+    ['ubuntu-24.04.iso', 5000, 'software'],
+    ['notes.docx', 1, 'other'],
+    ['unknown.bin', 1, 'other'],
+    ['small.zip', 100, 'other'],
+    ['Game.rar', 12 * 1024, 'games'],
+    ['Game.7z', 12 * 1024, 'other'],
+  ])('classifies %s (%d MB) as %s', (name, sizeMB, expected) => {
+    expect(classifyFile(makeFile(name, sizeMB))).toBe(expected);
+  });
+
+  describe('audio', () => {
+    it('treats a single short track as music', () => {
+      expect(classifyFile(makeFile('Artist - Song.mp3', 8))).toBe('music');
+    });
+
+    it('uses the file size threshold from the config', () => {
+      const file = makeFile('Long.mp3', 200);
+      expect(classifyFile(file)).toBe('audiobook');
+      expect(classifyFile(file, undefined, { ...DEFAULT_CLASSIFICATION_CONFIG, audiobookMinFileSizeMB: 500 })).toBe('music');
+    });
+
+    it('matches keywords in the file name or the parent name', () => {
+      expect(classifyFile(makeFile('Narrated by Someone.mp3', 5))).toBe('audiobook');
+      expect(classifyFile(makeFile('01.mp3', 5), undefined, DEFAULT_CLASSIFICATION_CONFIG, 'Some Title (Unabridged)')).toBe('audiobook');
+    });
+
+    it('matches keywords anywhere in the path', () => {
+      expect(classifyFile(makeFile('Audiobooks/Title/01.mp3', 5))).toBe('audiobook');
+    });
+
+    it('follows an m4b sibling', () => {
+      const track = makeFile('Title/intro.mp3', 2);
+      expect(classifyFile(track, [track, makeFile('Title/full.m4b', 300)])).toBe('audiobook');
+    });
+
+    it('adds up sibling tracks for the multi-track threshold', () => {
+      const tracks = [1, 2, 3].map(n => makeFile(`Album/${n}.mp3`, 100));
+      expect(classifyFile(tracks[0], tracks)).toBe('audiobook');
+    });
+
+    it('recognises many mid-sized tracks as chapters', () => {
+      const tracks = [1, 2, 3, 4, 5].map(n => makeFile(`Album/${n}.mp3`, 12));
+      expect(classifyFile(tracks[0], tracks)).toBe('audiobook');
+    });
+
+    it('recognises chapter-style track names', () => {
+      const tracks = [makeFile('Title/Part 1.mp3', 5), makeFile('Title/Part 2.mp3', 5), makeFile('Title/bonus.mp3', 5)];
+      expect(classifyFile(tracks[2], tracks)).toBe('audiobook');
+    });
+
+    it('keeps an ordinary album as music', () => {
+      const tracks = [makeFile('Album/Song A.flac', 30), makeFile('Album/Song B.flac', 30), makeFile('Album/cover.jpg', 1)];
+      expect(classifyFile(tracks[0], tracks)).toBe('music');
+    });
+  });
+
+  describe('video', () => {
+    it('does not mistake a resolution for an episode number', () => {
+      expect(classifyFile(makeFile('Clip.1920x1080.mp4', 50))).toBe('movie');
+    });
+
+    it('treats several videos in a season folder as episodes', () => {
+      const files = [makeFile('Show.S02.1080p/Pilot.mkv', 700), makeFile('Show.S02.1080p/Second.mkv', 700)];
+      expect(classifyFile(files[0], files, undefined, 'Show.S02.1080p')).toBe('tv');
+      expect(classifyFile(files[0], files, undefined, 'Show Season 2')).toBe('tv');
+      const loose = [makeFile('Pilot.mkv', 700), makeFile('Second.mkv', 700)];
+      expect(classifyFile(loose[0], loose, undefined, 'Show_S02_1080p')).toBe('tv');
+    });
+
+    it('treats numbered episodes as a series', () => {
+      const files = [makeFile('Docs/Episode 1.mp4', 300), makeFile('Docs/Episode 2.mp4', 300), makeFile('Docs/Ep 3.mp4', 300)];
+      expect(classifyFile(files[1], files, undefined, 'Docs')).toBe('tv');
+      const underscored = [makeFile('Docs/Docs_Ep_01.mp4', 300), makeFile('Docs/Docs_Ep_02.mp4', 300)];
+      expect(classifyFile(underscored[0], underscored, undefined, 'Docs')).toBe('tv');
+    });
+
+    it('keeps a movie with a sample as a movie', () => {
+      const files = [makeFile('Sintel.2010/Sintel.2010.mkv', 1800), makeFile('Sintel.2010/Sample/sample.mkv', 20)];
+      expect(classifyFile(files[0], files, undefined, 'Sintel.2010')).toBe('movie');
+    });
+  });
+
+  describe('duration', () => {
+    it('treats a long single track as an audiobook and a short one as music', () => {
+      const file = makeFile('Untitled.mp3', 60);
+      expect(classifyFile(file, undefined, DEFAULT_CLASSIFICATION_CONFIG, undefined, 70 * 60)).toBe('audiobook');
+      expect(classifyFile(file, undefined, DEFAULT_CLASSIFICATION_CONFIG, undefined, 4 * 60)).toBe('music');
+    });
+
+    it('ignores durations when the threshold is 0', () => {
+      expect(classifyFile(makeFile('Untitled.mp3', 60), undefined, { ...DEFAULT_CLASSIFICATION_CONFIG, audiobookMinDurationMinutes: 0 }, undefined, 70 * 60)).toBe('music');
+    });
+  });
+
+  describe('podcast', () => {
+    it('prefers the podcast keyword over the audiobook signals', () => {
+      expect(classifyFile(makeFile('Show Podcast - Ep 12.mp3', 200))).toBe('podcast');
+      expect(classifyFile(makeFile('Ep 12 - Interview.mp3', 60), undefined, DEFAULT_CLASSIFICATION_CONFIG, 'The Daily Podcast', 90 * 60)).toBe('podcast');
+    });
+  });
+
+  describe('pdf', () => {
+    it('uses ebook keywords in the name', () => {
+      expect(classifyFile(makeFile('Some Novel 2nd Edition.pdf', 1))).toBe('ebook');
+    });
+
+    it('treats large PDFs as ebooks and small ones as other', () => {
+      expect(classifyFile(makeFile('scan.pdf', 12))).toBe('ebook');
+      expect(classifyFile(makeFile('invoice.pdf', 0.2))).toBe('other');
+    });
+  });
+
+  describe('custom rules', () => {
+    const config = {
+      ...DEFAULT_CLASSIFICATION_CONFIG,
+      extensionRules: [{ extension: 'iso', category: 'games' as const }, { extension: 'mkv', category: 'other' as const }],
+      nameRules: [{ pattern: '/\\/Comics\\//', category: 'ebook' as const }, { pattern: 'lecture', category: 'other' as const }],
+    };
+
+    it('maps extensions to the configured category', () => {
+      expect(classifyFile(makeFile('Setup.iso', 4000), undefined, config)).toBe('games');
+      expect(classifyFile(makeFile('Movie.mkv', 700), undefined, config)).toBe('other');
+    });
+
+    it('matches name rules against the path, including a top-level folder', () => {
+      expect(classifyFile(makeFile('Comics/Issue 1.zip', 40), undefined, config)).toBe('ebook');
+      expect(classifyFile(makeFile('Stuff/Comics/Issue 2.pdf', 1), undefined, config)).toBe('ebook');
+      expect(classifyFile(makeFile('comics/Issue 3.zip', 40), undefined, config)).toBe('other');
+    });
+
+    it('does not treat a folder rule as a match for a name that only contains the word', () => {
+      expect(classifyFile(makeFile('Marvel Comics Omnibus.mkv', 700), undefined, { ...config, extensionRules: [] })).toBe('movie');
+      // A bare `/Comics/` is the regex `Comics`, so it matches the word anywhere.
+      expect(classifyFile(makeFile('Marvel Comics Omnibus.mkv', 700), undefined, { ...config, extensionRules: [], nameRules: [{ pattern: '/Comics/', category: 'ebook' as const }] })).toBe('ebook');
+    });
+
+    it('matches name rules against the parent name and checks them before extension rules', () => {
+      expect(classifyFile(makeFile('Week 1.mkv', 700), undefined, config, 'Physics LECTURE Series')).toBe('other');
+      expect(classifyFile(makeFile('Week 1.mp3', 200), undefined, config, 'Physics Lecture Series')).toBe('other');
+    });
+
+    it('falls back to the built-in rules when nothing matches', () => {
+      expect(classifyFile(makeFile('Book.m4b', 5), undefined, config)).toBe('audiobook');
+    });
+  });
+});
+
+describe('validateNameRulePattern', () => {
+  it('accepts bare and /literal/ patterns and rejects blank or invalid ones', () => {
+    expect(validateNameRulePattern('s\\d+e\\d+')).toBeNull();
+    expect(validateNameRulePattern('/Comics/i')).toBeNull();
+    expect(validateNameRulePattern('  ')).toBe('Pattern is required.');
+    expect(validateNameRulePattern('(')).toMatch(/^Invalid regex/);
+  });
+});
+
+describe('sanitizeClassificationConfig', () => {
+  it('fills fields missing from older stored configs', () => {
+    const { extensionRules, nameRules, ...legacy } = DEFAULT_CLASSIFICATION_CONFIG;
+    expect(sanitizeClassificationConfig({ ...legacy, audiobookMinFileSizeMB: 300 })).toEqual({ ...DEFAULT_CLASSIFICATION_CONFIG, audiobookMinFileSizeMB: 300, extensionRules, nameRules });
+    expect(sanitizeClassificationConfig(null)).toEqual(DEFAULT_CLASSIFICATION_CONFIG);
+  });
+
+  it('reads rules saved with a renamed category', () => {
+    expect(sanitizeClassificationConfig({ extensionRules: [{ extension: 'ts', category: 'video' }] }).extensionRules).toEqual([{ extension: 'ts', category: 'movie' }]);
+  });
+
+  it('normalises keywords and extensions and drops unusable entries', () => {
+    const config = sanitizeClassificationConfig({
+      audiobookMinDurationMinutes: -5,
+      audiobookKeywords: [' Narrated ', '', 7],
+      extensionRules: [{ extension: '.CBR', category: 'ebook' }, { extension: 'bin', category: 'firmware' }, { extension: ' ', category: 'other' }],
+      nameRules: [{ pattern: '(', category: 'ebook' }, { pattern: ' /Comics/ ', category: 'ebook' }, 'oops'],
+    });
+    expect(config.audiobookMinDurationMinutes).toBe(DEFAULT_CLASSIFICATION_CONFIG.audiobookMinDurationMinutes);
+    expect(config.audiobookKeywords).toEqual(['narrated']);
+    expect(config.extensionRules).toEqual([{ extension: 'cbr', category: 'ebook' }]);
+    expect(config.nameRules).toEqual([{ pattern: '/Comics/', category: 'ebook' }]);
+  });
+});
+
+describe('isDurationProbeCandidate', () => {
+  const [item] = buildLibraryItems([{ ...torrentWithFiles, files: [makeFile('Untitled.mp3', 60)] }], [], []);
+
+  it('selects finished, probe-able audio that is still classified as music', () => {
+    expect(isDurationProbeCandidate(item, DEFAULT_CLASSIFICATION_CONFIG)).toBe(true);
+    expect(isDurationProbeCandidate({ ...item, isComplete: false }, DEFAULT_CLASSIFICATION_CONFIG)).toBe(false);
+    expect(isDurationProbeCandidate({ ...item, category: 'audiobook' }, DEFAULT_CLASSIFICATION_CONFIG)).toBe(false);
+    expect(isDurationProbeCandidate({ ...item, extension: 'ogg' }, DEFAULT_CLASSIFICATION_CONFIG)).toBe(false);
+    expect(isDurationProbeCandidate(item, { ...DEFAULT_CLASSIFICATION_CONFIG, audiobookMinDurationMinutes: 0 })).toBe(false);
+  });
+
+  it('is reclassified once its duration is known', () => {
+    const [probed] = buildLibraryItems([{ ...torrentWithFiles, files: [makeFile('Untitled.mp3', 60)] }], [], [], DEFAULT_CLASSIFICATION_CONFIG, { [item.id]: 75 * 60 });
+    expect(probed.category).toBe('audiobook');
+  });
+});
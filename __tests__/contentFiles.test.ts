@@ -0,0 +1,113 @@
+import { MAX_UPLOAD_FILE_BYTES, decodeUploadText, readUploadFileBytes, validateNzbFile, validateTorrentFile } from '@/utils/contentFiles';
+
+type Bencodable = number | string | Uint8Array | Bencodable[] | { [key: string]: Bencodable };
+
+const encoder = new TextEncoder();
+
+// Minimal encoder for building fixtures; dictionary keys are sorted as the spec requires.
+function bencode(value: Bencodable): string {
+  if (typeof value === 'number') return `i${value}e`;
+  if (typeof value === 'string') return `${encoder.encode(value).length}:${value}`;
+  if (value instanceof Uint8Array) return `${value.length}:${String.fromCharCode(...value)}`;
+  if (Array.isArray(value)) return `l${value.map(bencode).join('')}e`;
+  return `d${Object.keys(value).sort().map(key => bencode(key) + bencode(value[key])).join('')}e`;
+}
+
+const toBytes = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+const torrent = (info: { [key: string]: Bencodable }) => toBytes(bencode({ announce: 'udp://tracker.example:1337', info }));
+const pieces = (count: number) => new Uint8Array(20 * count);
+
+describe('validateTorrentFile', () => {
+  it('summarizes a single-file torrent', () => {
+    const bytes = torrent({ name: 'Sintel.mkv', 'piece length': 262144, pieces: pieces(2), length: 500000 });
+    expect(validateTorrentFile(bytes)).toEqual({ name: 'Sintel.mkv', fileCount: 1, totalSize: 500000 });
+  });
+
+  it('summarizes a multi-file torrent', () => {
+    const bytes = torrent({
+      name: 'Album',
+      'piece length': 262144,
+      pieces: pieces(3),
+      files: [{ length: 300000, path: ['01.flac'] }, { length: 200000, path: ['02.flac'] }, { length: 12, path: ['cover', 'front.jpg'] }],
+    });
+    expect(validateTorrentFile(bytes)).toEqual({ name: 'Album', fileCount: 3, totalSize: 500012 });
+  });
+
+  it('accepts v2-only torrents that describe files in a file tree', () => {
+    const bytes = torrent({
+      name: 'Docs',
+      'meta version': 2,
+      'piece length': 16384,
+      'file tree': { 'a.pdf': { '': { length: 1000, 'pieces root': pieces(1) } }, sub: { 'b.pdf': { '': { length: 2000, 'pieces root': pieces(1) } } } },
+    });
+    expect(validateTorrentFile(bytes)).toEqual({ name: 'Docs', fileCount: 2, totalSize: 3000 });
+  });
+
+  it('still requires piece hashes from v1 torrents', () => {
+    expect(() => validateTorrentFile(torrent({ name: 'x', 'piece length': 16384, length: 10 }))).toThrow('piece hashes are missing or truncated');
+    expect(() => validateTorrentFile(torrent({ name: 'x', 'piece length': 16384, pieces: new Uint8Array(21), length: 10 }))).toThrow('piece hashes are missing or truncated');
+  });
+
+  it('rejects truncated strings, trailing data and non-torrents', () => {
+    const valid = bencode({ info: { name: 'x', 'piece length': 16384, pieces: pieces(1), length: 10 } });
+    expect(() => validateTorrentFile(toBytes('d8:announce99:udp://tracker.example'))).toThrow('string length exceeds file size');
+    expect(() => validateTorrentFile(toBytes(valid.slice(0, -2)))).toThrow('Malformed .torrent file');
+    expect(() => validateTorrentFile(toBytes(`${valid}xyz`))).toThrow('trailing data after root value');
+    expect(() => validateTorrentFile(toBytes('<html></html>'))).toThrow('does not look like a .torrent file');
+    expect(() => validateTorrentFile(new Uint8Array())).toThrow('is empty');
+    expect(() => validateTorrentFile(toBytes(bencode({ announce: 'x' })))).toThrow('missing "info" dictionary');
+  });
+});
+
+const nzb = (files: string) => `<?xml version="1.0" encoding="UTF-8"?>\n<nzb xmlns="http://www.newzbin.com/DTD/2003/nzb">\n${files}\n</nzb>\n`;
+const nzbFile = (segments: string) => `<file poster="a@b" date="1" subject="x"><groups><group>alt.binaries.test</group></groups><segments>${segments}</segments></file>`;
+
+describe('validateNzbFile', () => {
+  it('counts files, segments and bytes', () => {
+    const text = nzb(nzbFile('<segment bytes="100" number="1">a@b</segment><segment bytes="50" number="2">c@d</segment>') + nzbFile('<segment bytes="25" number="1">e@f</segment>'));
+    expect(validateNzbFile(text)).toEqual({ fileCount: 2, segmentCount: 3, totalSize: 175 });
+  });
+
+  it.each([
+    ['empty', '   ', 'is empty'],
+    ['not an nzb', '<html><body></body></html>', 'missing <nzb> root element'],
+    ['unclosed root', nzb(nzbFile('<segment bytes="1">a</segment>')).replace('</nzb>', ''), 'missing <nzb> root element'],
+    ['no files', nzb(''), 'no <file> entries'],
+    ['unbalanced files', nzb(`${nzbFile('<segment bytes="1">a</segment>')}<file subject="y">`), 'unbalanced <file> elements'],
+    ['no segments', nzb(nzbFile('')), 'no <segment> entries'],
+  ])('rejects %s', (_label, text, message) => {
+    expect(() => validateNzbFile(text)).toThrow(message);
+  });
+});
+
+describe('readUploadFileBytes', () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  const mockRead = (size: number) => {
+    global.fetch = jest.fn(async () => ({ arrayBuffer: async () => new ArrayBuffer(size) })) as unknown as typeof fetch;
+  };
+
+  it('reads files within the limit', async () => {
+    mockRead(8);
+    await expect(readUploadFileBytes({ uri: 'file:///a.torrent', name: 'a.torrent', mimeType: null, size: null })).resolves.toHaveLength(8);
+  });
+
+  it('enforces the size limit before and after reading', async () => {
+    const fetchSpy = jest.fn();
+    global.fetch = fetchSpy as unknown as typeof fetch;
+    await expect(readUploadFileBytes({ uri: 'file:///big.nzb', name: 'big.nzb', mimeType: null, size: MAX_UPLOAD_FILE_BYTES + 1 })).rejects.toThrow('too large');
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    mockRead(MAX_UPLOAD_FILE_BYTES + 1);
+    await expect(readUploadFileBytes({ uri: 'file:///big.nzb', name: 'big.nzb', mimeType: null, size: null })).rejects.toThrow('too large');
+  });
+});
+
+describe('decodeUploadText', () => {
+  it('decodes UTF-8', () => {
+    expect(decodeUploadText(encoder.encode('Café'))).toBe('Café');
+  });
+});
@@ -0,0 +1,41 @@
+import { buildAddContentHref, parseIncomingContentLink } from '@/utils/deepLinks';
+
+const HASH = '08ada5a7a6183aae1e09d831df6748d566095a10';
+const MAGNET = `magnet:?xt=urn:btih:${HASH}&dn=Some+Release`;
+
+describe('parseIncomingContentLink', () => {
+  it('accepts raw magnets and tordeck://add links', () => {
+    expect(parseIncomingContentLink(MAGNET)).toEqual({ type: 'magnet', value: MAGNET });
+    expect(parseIncomingContentLink(`tordeck://add?magnet=${encodeURIComponent(MAGNET)}`)).toEqual({ type: 'magnet', value: MAGNET });
+    expect(parseIncomingContentLink(`tordeck://add?hash=${HASH}`)).toEqual({ type: 'hash', value: HASH });
+    expect(parseIncomingContentLink('tordeck://add?url=https%3A%2F%2Fcdn.example%2Ffile.zip')).toEqual({ type: 'web', value: 'https://cdn.example/file.zip' });
+  });
+
+  it('detects the type of a generic link parameter', () => {
+    expect(parseIncomingContentLink(`/add-content?link=${encodeURIComponent('https://indexer.example/get/1.nzb')}`)).toEqual({ type: 'nzb', value: 'https://indexer.example/get/1.nzb' });
+    expect(parseIncomingContentLink(`/add-content?link=${HASH.toUpperCase()}`)).toEqual({ type: 'hash', value: HASH.toUpperCase() });
+  });
+
+  it('re-detects values that disagree with their parameter', () => {
+    expect(parseIncomingContentLink('tordeck://add?hash=https://x.example/y.nzb')).toEqual({ type: 'nzb', value: 'https://x.example/y.nzb' });
+    expect(parseIncomingContentLink('tordeck://add?url=https://x.example/file.nzb')).toEqual({ type: 'nzb', value: 'https://x.example/file.nzb' });
+    expect(parseIncomingContentLink(`/add-content?type=web&value=${encodeURIComponent(MAGNET)}`)).toEqual({ type: 'magnet', value: MAGNET });
+  });
+
+  it('keeps an NZB hint for indexer links without a .nzb extension', () => {
+    expect(parseIncomingContentLink('tordeck://add?nzb=https%3A%2F%2Findexer.example%2Fdownload%2F42')).toEqual({ type: 'nzb', value: 'https://indexer.example/download/42' });
+  });
+
+  it('rejects unrecognized values, unknown types, other schemes and paths', () => {
+    expect(parseIncomingContentLink('tordeck://add?hash=not-a-hash')).toBeNull();
+    expect(parseIncomingContentLink('/add-content?type=bogus&value=x')).toBeNull();
+    expect(parseIncomingContentLink(`https://example.com/add?hash=${HASH}`)).toBeNull();
+    expect(parseIncomingContentLink(`tordeck://settings?hash=${HASH}`)).toBeNull();
+    expect(parseIncomingContentLink('tordeck://add')).toBeNull();
+  });
+
+  it('round-trips links built for the add screen', () => {
+    const link = { type: 'web' as const, value: 'https://cdn.example/a%20file.zip?sig=AbC&x=1' };
+    expect(parseIncomingContentLink(buildAddContentHref(link))).toEqual(link);
+  });
+});
@@ -0,0 +1,47 @@
+import { getDownloadStatusInfo, normalizeDownloadStatus } from '@/utils/downloadStatus';
+
+describe('normalizeDownloadStatus', () => {
+  it.each([
+    ['completed', 'completed'],
+    ['cached', 'completed'],
+    ['uploading', 'completed'],
+    ['seeding', 'completed'],
+    ['stalledUP', 'completed'],
+    ['stalled', 'stalled'],
+    ['stalledDL', 'stalled'],
+    ['stalled (no seeds)', 'stalled'],
+    ['paused', 'paused'],
+    ['pausedDL', 'paused'],
+    ['pausedUP', 'paused'],
+    ['error', 'failed'],
+    ['Failed', 'failed'],
+    ['download error', 'failed'],
+    ['queued', 'queued'],
+    ['queuedDL', 'queued'],
+    ['downloading', 'downloading'],
+    ['metaDL', 'downloading'],
+    ['checkingResumeData', 'downloading'],
+    ['', 'downloading'],
+  ])('maps "%s" to %s', (state, expected) => {
+    expect(normalizeDownloadStatus(state)).toBe(expected);
+  });
+});
+
+describe('getDownloadStatusInfo', () => {
+  it('reports finished downloads as completed whatever the state says', () => {
+    expect(getDownloadStatusInfo('stalled', true).label).toBe('Completed');
+  });
+
+  it.each([
+    ['error', 'Failed'],
+    ['stalledDL', 'Stalled'],
+    ['pausedDL', 'Paused'],
+    ['uploading', 'Seeding'],
+    ['metaDL', 'Fetching Metadata'],
+    ['checkingResumeData', 'Checking'],
+    ['queued', 'Queued'],
+    ['downloading', 'Downloading'],
+  ])('labels an unfinished "%s" download as %s', (state, label) => {
+    expect(getDownloadStatusInfo(state, false).label).toBe(label);
+  });
+});
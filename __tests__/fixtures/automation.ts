@@ -0,0 +1,40 @@
+import { TorBoxItem, TorBoxUsenetItem, TorBoxWebItem } from '@/types/torbox';
+import type { TorBoxAPI } from '@/core/torbox-api';
+import type { AutomationRuntime, AutomationState } from '@/core/automation';
+
+export interface FakeLibrary {
+  torrents: TorBoxItem[];
+  usenet: TorBoxUsenetItem[];
+  web: TorBoxWebItem[];
+}
+
+// Only the calls the engine makes; every side effect is recorded as "<operation>:<source>:<id>".
+export function createFakeRuntime(library: FakeLibrary) {
+  const calls: string[] = [];
+  const api = {
+    getTorrents: async () => library.torrents,
+    getUsenet: async () => library.usenet,
+    getWebDownloads: async () => library.web,
+    controlTorrent: async (id: number, operation: string) => { calls.push(`${operation}:torrent:${id}`); },
+    controlUsenet: async (id: number, operation: string) => { calls.push(`${operation}:usenet:${id}`); },
+    controlWebDownload: async (id: number, operation: string) => { calls.push(`${operation}:web:${id}`); },
+    deleteItem: async (source: string, id: number) => { calls.push(`delete:${source}:${id}`); },
+    getDownloadLink: async (source: string, id: number) => { calls.push(`link:${source}:${id}`); return `https://dl.example/${source}/${id}`; },
+    getStreamLink: async (source: string, id: number) => { calls.push(`stream:${source}:${id}`); return `https://stream.example/${source}/${id}`; },
+  } as unknown as TorBoxAPI;
+  const notifications: { title: string; message: string }[] = [];
+  const runtime: AutomationRuntime = {
+    api,
+    notify: async (title, message) => { notifications.push({ title, message }); },
+    addTag: async (source, sourceId, tag) => { calls.push(`tag:${source}:${sourceId}:${tag}`); return true; },
+  };
+  return { runtime, calls, notifications };
+}
+
+export const createEmptyState = (rules: AutomationState['rules']): AutomationState => ({
+  rules,
+  snapshot: null,
+  ledger: { acted: {}, entries: [] },
+  metrics: {},
+  pendingDeletions: [],
+});
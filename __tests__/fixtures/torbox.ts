@@ -0,0 +1,60 @@
+import { TorBoxFile, TorBoxItem, TorBoxUsenetItem, TorBoxWebItem } from '@/types/torbox';
+import { createMockTorrent, createMockUsenet, createMockWebDownload } from '@/mock/torboxServer';
+
+const MB = 1024 * 1024;
+const DAY_MS = 86_400_000;
+
+export const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+export const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+export function makeFile(name: string, sizeMB: number, overrides: Partial<TorBoxFile> = {}): TorBoxFile {
+  const shortName = name.split('/').pop() ?? name;
+  return { id: 1, md5: `md5-${shortName}`, s3_path: name, name, size: Math.round(sizeMB * MB), mimetype: null, short_name: shortName, ...overrides };
+}
+
+// Shaped like real /mylist payloads: one of each source, plus the id and file quirks seen in the wild.
+export const torrentWithFiles: TorBoxItem = createMockTorrent({
+  id: 101,
+  name: 'Sintel.2010.1080p',
+  progress: 1,
+  download_state: 'uploading',
+  download_finished: true,
+  created_at: daysAgo(3),
+  files: [
+    makeFile('Sintel.2010.1080p/Sintel.2010.1080p.mkv', 1800, { id: 1 }),
+    makeFile('Sintel.2010.1080p/Sintel.nfo', 0.01, { id: 2 }),
+  ],
+});
+
+export const usenetAudiobook: TorBoxUsenetItem = createMockUsenet({
+  id: 202,
+  name: 'Author - Long Story (Unabridged)',
+  progress: 0.4,
+  created_at: daysAgo(1),
+  files: [
+    makeFile('Long Story/Part 01.mp3', 60, { id: 1 }),
+    makeFile('Long Story/Part 02.mp3', 60, { id: 2 }),
+  ],
+});
+
+// Older web downloads only carry `web_id`; the newest carry `webdownload_id`; some carry neither.
+export const webWithWebId: TorBoxWebItem = { ...createMockWebDownload({ id: 303, name: 'lecture.mp4', files: [makeFile('lecture.mp4', 300)] }), webdownload_id: undefined, web_id: 9303 };
+export const webWithDownloadId: TorBoxWebItem = createMockWebDownload({ id: 304, webdownload_id: 9304, name: 'book.epub', files: [makeFile('book.epub', 2)] });
+export const webWithPlainId: TorBoxWebItem = { ...createMockWebDownload({ id: 305, name: 'notes.txt', files: [makeFile('notes.txt', 0.1)] }), webdownload_id: undefined };
+
+// `file_id` instead of `id`, and a file with no usable id at all.
+export const torrentWithOddFiles: TorBoxItem = createMockTorrent({
+  id: 106,
+  name: 'Odd.Files',
+  files: [
+    { ...makeFile('Odd.Files/a.flac', 20), id: undefined as unknown as number, file_id: 7 },
+    { ...makeFile('Odd.Files/b.flac', 20), id: undefined as unknown as number },
+  ],
+});
+
+export const torrentWithoutFiles: TorBoxItem = { ...createMockTorrent({ id: 107, name: 'Metadata.Only' }), files: undefined as unknown as TorBoxFile[] };
+
+export const stalledTorrent: TorBoxItem = createMockTorrent({ id: 108, name: 'Stalled.Linux.ISO', download_state: 'stalled (no seeds)', progress: 0.3, download_speed: 0, peers: 0, updated_at: minutesAgo(45), created_at: daysAgo(2), tracker: 'udp://tracker.example:1337 error: timed out' });
+export const failedUsenet: TorBoxUsenetItem = createMockUsenet({ id: 209, name: 'Broken.Post', download_state: 'error', progress: 0.1, download_speed: 0, created_at: daysAgo(10) });
+export const pausedWeb: TorBoxWebItem = createMockWebDownload({ id: 310, name: 'paused.zip', download_state: 'paused', download_speed: 0, eta: 200_000 });
+export const oldCompletedTorrent: TorBoxItem = createMockTorrent({ id: 111, name: 'Old.Movie.1999', progress: 1, download_state: 'cached', download_finished: true, download_speed: 0, eta: 0, created_at: daysAgo(90) });
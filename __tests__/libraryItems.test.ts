@@ -0,0 +1,106 @@
+import { buildActiveDownloads, buildLibraryItems } from '@/utils/libraryItems';
+import { selectPrimaryDownloadFile } from '@/utils/downloadSelection';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '@/constants/categories';
+import {
+  failedUsenet,
+  torrentWithFiles,
+  torrentWithOddFiles,
+  torrentWithoutFiles,
+  usenetAudiobook,
+  webWithDownloadId,
+  webWithPlainId,
+  webWithWebId,
+} from './fixtures/torbox';
+
+describe('buildLibraryItems', () => {
+  const items = buildLibraryItems([torrentWithFiles, torrentWithOddFiles, torrentWithoutFiles], [usenetAudiobook], [webWithWebId, webWithDownloadId, webWithPlainId]);
+  const byId = (id: string) => items.find(item => item.id === id);
+
+  it('creates one item per file for each source', () => {
+    expect(items.filter(item => item.source === 'torrent')).toHaveLength(3);
+    expect(items.filter(item => item.source === 'usenet')).toHaveLength(2);
+    expect(items.filter(item => item.source === 'web')).toHaveLength(3);
+  });
+
+  it('copies file and parent details', () => {
+    expect(byId('torrent-101-1')).toMatchObject({
+      sourceId: 101,
+      fileId: 1,
+      parentName: 'Sintel.2010.1080p',
+      fileName: 'Sintel.2010.1080p.mkv',
+      extension: 'mkv',
+      category: 'movie',
+      isComplete: true,
+      createdAt: torrentWithFiles.created_at,
+    });
+  });
+
+  it('parses the release name of each file', () => {
+    expect(byId('torrent-101-1')?.release).toEqual({ title: 'Sintel', year: 2010, resolution: '1080p' });
+  });
+
+  it('classifies files with their siblings and parent name', () => {
+    expect(byId('usenet-202-1')?.category).toBe('audiobook');
+  });
+
+  it('prefers webdownload_id, then web_id, then id for web downloads', () => {
+    expect(byId('web-9304-1')?.sourceId).toBe(9304);
+    expect(byId('web-9303-1')?.sourceId).toBe(9303);
+    expect(byId('web-305-1')?.sourceId).toBe(305);
+  });
+
+  it('falls back to file_id and skips files without any id', () => {
+    expect(byId('torrent-106-7')?.fileName).toBe('a.flac');
+    expect(items.filter(item => item.sourceId === 106)).toHaveLength(1);
+  });
+
+  it('skips items whose file list has not loaded', () => {
+    expect(items.some(item => item.sourceId === 107)).toBe(false);
+  });
+
+  it('uses the full path when a file has no short name', () => {
+    const [item] = buildLibraryItems([{ ...torrentWithFiles, files: [{ ...torrentWithFiles.files[0], short_name: '' }] }], [], []);
+    expect(item.fileName).toBe('Sintel.2010.1080p/Sintel.2010.1080p.mkv');
+  });
+
+  it('classifies with the given config', () => {
+    const config = { ...DEFAULT_CLASSIFICATION_CONFIG, nameRules: [{ pattern: 'sintel', category: 'other' as const }] };
+    expect(buildLibraryItems([torrentWithFiles], [], [], config).map(item => item.category)).toEqual(['other', 'other']);
+  });
+});
+
+describe('buildActiveDownloads', () => {
+  const downloads = buildActiveDownloads([torrentWithFiles, torrentWithOddFiles], [usenetAudiobook, failedUsenet], [webWithWebId]);
+
+  it('hides finished downloads and keeps unfinished or failed ones', () => {
+    expect(downloads.map(d => `${d.source}-${d.id}`).sort()).toEqual(['torrent-106', 'usenet-202', 'usenet-209', 'web-9303']);
+  });
+
+  it('sorts newest first', () => {
+    const times = downloads.map(d => new Date(d.createdAt).getTime());
+    expect([...times].sort((a, b) => b - a)).toEqual(times);
+  });
+});
+
+describe('selectPrimaryDownloadFile', () => {
+  const items = buildLibraryItems([torrentWithFiles], [], []);
+
+  it('returns null for an empty list', () => {
+    expect(selectPrimaryDownloadFile([])).toBeNull();
+  });
+
+  it('prefers a file named like the parent', () => {
+    expect(selectPrimaryDownloadFile(items, 'Sintel.2010.1080p.mkv')?.fileId).toBe(1);
+    expect(selectPrimaryDownloadFile(items, '  SINTEL.NFO ')?.fileId).toBe(2);
+  });
+
+  it('accepts a suffix match', () => {
+    expect(selectPrimaryDownloadFile(items, '.nfo')?.fileId).toBe(2);
+  });
+
+  it('falls back to the largest file, then the name', () => {
+    expect(selectPrimaryDownloadFile(items, 'Something Else')?.fileId).toBe(1);
+    const tie = items.map(item => ({ ...item, fileSize: 10 }));
+    expect(selectPrimaryDownloadFile(tie)?.fileName).toBe('Sintel.2010.1080p.mkv');
+  });
+});
@@ -0,0 +1,144 @@
+import { fetchRange, getId3v2Size, parseFlacDuration, parseMoovDuration, parseMp3Duration, probeMediaDuration } from '@/utils/mediaProbe';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const concat = (...parts: (number[] | Uint8Array)[]) => Uint8Array.from(parts.flatMap(part => Array.from(part)));
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames of 1152 samples.
+const MP3_FRAME_HEADER = [0xff, 0xfb, 0x90, 0x00];
+const mp3Frame = (payload: number[] = []) => {
+  const frame = new Uint8Array(417);
+  frame.set(MP3_FRAME_HEADER);
+  frame.set(payload, 4);
+  return frame;
+};
+const xingFrame = (frameCount: number) => mp3Frame([...new Array(32).fill(0), ...ascii('Xing'), ...uint32(1), ...uint32(frameCount)]);
+const id3Tag = (size: number) => concat(ascii('ID3'), [4, 0, 0, (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f], new Uint8Array(size));
+
+const flacHeader = (sampleRate: number, totalSamples: number) => {
+  const info = new Uint8Array(34);
+  info[10] = (sampleRate >> 12) & 0xff;
+  info[11] = (sampleRate >> 4) & 0xff;
+  info[12] = ((sampleRate & 0x0f) << 4) | 0x02;
+  info[13] = 0xf0 | Math.floor(totalSamples / 2 ** 32);
+  info.set(uint32(totalSamples % 2 ** 32), 14);
+  return concat(ascii('fLaC'), [0x80, 0, 0, 34], info);
+};
+
+const box = (type: string, body: number[] | Uint8Array) => concat(uint32(8 + body.length), ascii(type), body);
+const mvhd = (timescale: number, duration: number) => box('mvhd', [0, 0, 0, 0, ...uint32(0), ...uint32(0), ...uint32(timescale), ...uint32(duration), ...new Array(80).fill(0)]);
+
+const realFetch = global.fetch;
+afterAll(() => { global.fetch = realFetch; });
+
+// Serves a sparse file of `size` bytes from a few known segments, honouring Range like a CDN would.
+function serveFile(size: number, segments: { offset: number; bytes: Uint8Array }[], honourRange = true) {
+  const requests: string[] = [];
+  global.fetch = jest.fn(async (_url: string, init?: { headers?: Record<string, string> }) => {
+    const range = init?.headers?.Range ?? '';
+    requests.push(range);
+    const match = range.match(/bytes=(\d+)-(\d+)/);
+    const start = honourRange && match ? Number(match[1]) : 0;
+    const end = honourRange && match ? Math.min(Number(match[2]), size - 1) : size - 1;
+    const body = new Uint8Array(end - start + 1);
+    for (const segment of segments) {
+      for (let i = 0; i < segment.bytes.length; i++) {
+        const position = segment.offset + i;
+        if (position >= start && position <= end) body[position - start] = segment.bytes[i];
+      }
+    }
+    const headers: Record<string, string> = { 'content-type': 'audio/mpeg', 'content-length': String(body.length) };
+    if (honourRange) headers['content-range'] = `bytes ${start}-${end}/${size}`;
+    return {
+      status: honourRange ? 206 : 200,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      arrayBuffer: async () => body.buffer,
+    };
+  }) as unknown as typeof fetch;
+  return requests;
+}
+
+describe('getId3v2Size', () => {
+  it('reads the syncsafe size and counts the header', () => {
+    expect(getId3v2Size(id3Tag(300))).toBe(310);
+    expect(getId3v2Size(mp3Frame())).toBe(0);
+  });
+});
+
+describe('parseMp3Duration', () => {
+  it('uses the Xing frame count when present', () => {
+    expect(parseMp3Duration(concat(xingFrame(3000), mp3Frame()), 0, 0)).toBeCloseTo((3000 * 1152) / 44100);
+  });
+
+  it('assumes a constant bitrate over the rest of the file otherwise', () => {
+    // 70 minutes at 128 kbps is 67.2 MB.
+    expect(parseMp3Duration(concat(mp3Frame(), mp3Frame()), 1000, 1000 + 67_200_000)).toBeCloseTo(70 * 60);
+  });
+
+  it('skips stray sync bytes that are not followed by a frame', () => {
+    const bytes = concat([0xff, 0xfb, 0x90, 0x00, 0x00], mp3Frame(), mp3Frame());
+    expect(parseMp3Duration(bytes, 0, 5 + 417 * 2)).toBeCloseTo((417 * 2 * 8) / 128000);
+  });
+
+  it('returns null without a frame or a known size', () => {
+    expect(parseMp3Duration(new Uint8Array(64), 0, 1000)).toBeNull();
+    expect(parseMp3Duration(concat(mp3Frame(), mp3Frame()), 0, 0)).toBeNull();
+  });
+});
+
+describe('parseFlacDuration', () => {
+  it('reads sample rate and total samples from STREAMINFO', () => {
+    expect(parseFlacDuration(flacHeader(44100, 44100 * 240))).toBeCloseTo(240);
+  });
+
+  it('rejects other data', () => {
+    expect(parseFlacDuration(mp3Frame())).toBeNull();
+  });
+});
+
+describe('parseMoovDuration', () => {
+  it('finds mvhd among the moov children', () => {
+    expect(parseMoovDuration(concat(box('iods', [0, 0, 0, 0]), mvhd(1000, 4_200_000)))).toBeCloseTo(4200);
+  });
+});
+
+describe('fetchRange', () => {
+  it('does not read the body when the server ignores the range', async () => {
+    serveFile(10_000_000, [], false);
+    const res = await fetchRange('https://cdn.example/a.mp3', 0, 4095);
+    expect(res.status).toBe(200);
+    expect(res.bytes).toHaveLength(0);
+    expect(res.totalContentLength).toBe(10_000_000);
+  });
+});
+
+describe('probeMediaDuration', () => {
+  it('reads an MP3 after a tag larger than the first window', async () => {
+    const tag = id3Tag(20_000);
+    const requests = serveFile(tag.length + 5_000_000, [{ offset: 0, bytes: tag }, { offset: tag.length, bytes: concat(xingFrame(200_000), mp3Frame()) }]);
+    expect(await probeMediaDuration('https://cdn.example/a.mp3')).toBeCloseTo((200_000 * 1152) / 44100);
+    expect(requests).toEqual(['bytes=0-4095', `bytes=${tag.length}-${tag.length + 4095}`]);
+  });
+
+  it('reads a FLAC header', async () => {
+    serveFile(30_000_000, [{ offset: 0, bytes: flacHeader(48000, 48000 * 3600) }]);
+    expect(await probeMediaDuration('https://cdn.example/a.flac')).toBeCloseTo(3600);
+  });
+
+  it('walks MP4 boxes to a moov at the end of the file', async () => {
+    const ftyp = box('ftyp', ascii('M4A 0000'));
+    const mdatSize = 40_000_000;
+    const moov = box('moov', mvhd(44100, 44100 * 5400));
+    const requests = serveFile(ftyp.length + mdatSize + moov.length, [
+      { offset: 0, bytes: concat(ftyp, uint32(mdatSize), ascii('mdat')) },
+      { offset: ftyp.length + mdatSize, bytes: moov },
+    ]);
+    expect(await probeMediaDuration('https://cdn.example/a.m4a')).toBeCloseTo(5400);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('returns null for responses it cannot read', async () => {
+    serveFile(100, [{ offset: 0, bytes: Uint8Array.from(ascii('<html>')) }]);
+    expect(await probeMediaDuration('https://cdn.example/expired')).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { formatReleaseTags, formatReleaseTitle, hasReleaseTags, parseLibraryRelease, parseReleaseName } from '@/utils/releaseName';
+
+describe('parseReleaseName', () => {
+  it('parses a dotted TV episode release', () => {
+    expect(parseReleaseName('Some.Show.S02E05.1080p.WEB-DL.DDP5.1.x265-GRP.mkv')).toEqual({
+      title: 'Some Show', season: 2, episode: 5, resolution: '1080p', source: 'WEB-DL', codec: 'HEVC', audio: 'DD+ 5.1', group: 'GRP',
+    });
+  });
+
+  it('parses a movie with a year and keeps years that belong to the title', () => {
+    expect(parseReleaseName('Blade.Runner.2049.2017.2160p.UHD.BluRay.REMUX.HDR.HEVC.TrueHD.7.1.Atmos-FGT')).toMatchObject({
+      title: 'Blade Runner 2049', year: 2017, resolution: '2160p', source: 'Remux', codec: 'HEVC', audio: 'TrueHD 7.1', group: 'FGT',
+    });
+    expect(parseReleaseName('1917.2019.720p.BluRay.x264')).toMatchObject({ title: '1917', year: 2019, codec: 'AVC' });
+  });
+
+  it('handles spaced names with the year in parentheses', () => {
+    expect(parseReleaseName('The Matrix (1999) [1080p] [BluRay] [YTS.MX]')).toMatchObject({ title: 'The Matrix', year: 1999, resolution: '1080p', source: 'BluRay' });
+  });
+
+  it('reads season packs and alternative episode numbering', () => {
+    expect(parseReleaseName('Some.Show.S03.COMPLETE.720p.HDTV.x264-GRP')).toMatchObject({ title: 'Some Show', season: 3, resolution: '720p' });
+    expect(parseReleaseName('Some Show 1x07 HDTV XviD')).toMatchObject({ title: 'Some Show', season: 1, episode: 7, source: 'HDTV', codec: 'XviD' });
+  });
+
+  it('reads fansub names with a leading group and absolute episode number', () => {
+    expect(parseReleaseName('[SubsPlease] Frieren - 05 (1080p) [A1B2C3D4].mkv')).toEqual({ title: 'Frieren', episode: 5, resolution: '1080p', group: 'SubsPlease' });
+  });
+
+  it('only reads audio and language tags after the title', () => {
+    expect(parseReleaseName('The.French.Dispatch.2021.MULTi.1080p.WEB.H264-GRP')).toMatchObject({ title: 'The French Dispatch', language: 'Multi', source: 'WEB', codec: 'AVC' });
+  });
+
+  it('does not take the end of a hyphenated tag or title for a group', () => {
+    expect(parseReleaseName('Movie.2019.1080p.WEB-DL').group).toBeUndefined();
+    expect(parseReleaseName('Spider-Man').group).toBeUndefined();
+  });
+
+  it('leaves untagged names readable', () => {
+    expect(parseReleaseName('01 - Chapter One.mp3')).toEqual({ title: '01 - Chapter One' });
+    expect(hasReleaseTags(parseReleaseName('ubuntu-24.04-desktop-amd64.iso'))).toBe(false);
+  });
+});
+
+describe('parseLibraryRelease', () => {
+  it('fills in a bare video file name from its download', () => {
+    expect(parseLibraryRelease('movie.mkv', 'Sintel.2010.1080p.BluRay.x264-GRP', 'movie')).toMatchObject({ title: 'Sintel', year: 2010, resolution: '1080p', group: 'GRP' });
+    expect(parseLibraryRelease('Show.S01E02.mkv', 'Show.S01.720p.WEB', 'tv')).toMatchObject({ title: 'Show', season: 1, episode: 2, resolution: '720p' });
+  });
+
+  it('keeps non-video files to their own name', () => {
+    expect(parseLibraryRelease('01 - Intro.flac', 'Artist - Album (2020) [FLAC]', 'music')).toEqual({ title: '01 - Intro' });
+  });
+});
+
+describe('formatting', () => {
+  const info = parseReleaseName('Some.Show.S02E05.1080p.WEB-DL.x265-GRP');
+
+  it('builds a display title and tag line', () => {
+    expect(formatReleaseTitle(info)).toBe('Some Show S02E05');
+    expect(formatReleaseTitle(parseReleaseName('Sintel.2010.1080p'))).toBe('Sintel (2010)');
+    expect(formatReleaseTags(info)).toBe('1080p · WEB-DL · HEVC');
+  });
+});
@@ -0,0 +1,44 @@
+import { RULES_EXPORT_FORMAT, RULES_EXPORT_VERSION, parseRulesImport } from '@/core/ruleFormat';
+import { describeConditionNode } from '@/core/automation';
+
+const exportOf = (rules: unknown[]) => JSON.stringify({ format: RULES_EXPORT_FORMAT, version: RULES_EXPORT_VERSION, exportedAt: new Date().toISOString(), rules });
+const ruleWithTree = (conditionTree: unknown) => ({ name: 'Tree rule', checkIntervalMinutes: 10, conditions: [], conditionTree, action: 'notify_user' });
+const leaf = { kind: 'condition', field: 'status', operator: 'equals', value: 'error' };
+
+describe('parseRulesImport', () => {
+  it('imports a well-formed condition tree that evaluates and describes', () => {
+    const { rules, errors } = parseRulesImport(exportOf([ruleWithTree({ kind: 'group', logic: 'or', children: [leaf, { kind: 'group', logic: 'and', children: [leaf] }] })]));
+    expect(errors).toEqual([]);
+    expect(() => describeConditionNode(rules[0].conditionTree!)).not.toThrow();
+  });
+
+  it('rejects tree leaves without a kind and groups without children', () => {
+    const { rules, errors } = parseRulesImport(exportOf([
+      ruleWithTree({ kind: 'group', logic: 'and', children: [{ field: 'status', operator: 'equals', value: 'error' }] }),
+      ruleWithTree({ kind: 'group', logic: 'and', children: [{ kind: 'group', logic: 'or' }] }),
+      ruleWithTree({ kind: 'group', logic: 'and', children: [{ ...leaf, kind: 'rule' }] }),
+    ]));
+    expect(rules).toHaveLength(0);
+    expect(errors).toEqual([
+      'Rule 1 ("Tree rule"): condition tree entries need kind "condition" or "group"',
+      'Rule 2 ("Tree rule"): condition groups need a children list',
+      'Rule 3 ("Tree rule"): unknown condition kind "rule"',
+    ]);
+  });
+
+  it('still accepts flat conditions without a kind', () => {
+    const { rules, errors } = parseRulesImport(exportOf([{ name: 'Flat', checkIntervalMinutes: 10, conditions: [{ field: 'status', operator: 'equals', value: 'error' }], action: 'notify_user' }]));
+    expect(errors).toEqual([]);
+    expect(rules[0].conditions).toHaveLength(1);
+  });
+
+  it('rejects cron schedules on event-triggered rules but keeps time windows', () => {
+    const base = { name: 'On error', checkIntervalMinutes: 0, conditions: [], action: 'notify_user', trigger: 'status_changed', triggerValue: 'error' };
+    const { rules, errors } = parseRulesImport(exportOf([
+      { ...base, schedule: { kind: 'cron', cron: '0 3 * * *' } },
+      { ...base, schedule: { kind: 'window', start: '22:00', end: '06:00' } },
+    ]));
+    expect(errors).toEqual(['Rule 1 ("On error"): event triggers can only be limited by a time window, not a cron schedule']);
+    expect(rules.map(rule => rule.schedule?.kind)).toEqual(['window']);
+  });
+});
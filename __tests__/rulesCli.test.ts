@@ -0,0 +1,42 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runRulesCli } from '@/cli/tordeck-rules';
+import { MOCK_TORBOX_TOKEN, MockTorBoxServer, startMockTorBoxServer } from '@/mock/torboxServer';
+import { buildRulesExport } from '@/core/ruleFormat';
+import { TORBOX_RULE_PRESETS, createRuleFromPreset } from '@/core/automation';
+
+let server: MockTorBoxServer;
+let dir: string;
+
+beforeEach(async () => {
+  server = await startMockTorBoxServer();
+  dir = mkdtempSync(join(tmpdir(), 'tordeck-rules-'));
+});
+
+afterEach(async () => {
+  await server.stop();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('tordeck-rules run --once', () => {
+  it('acts on matching downloads and writes the state file', async () => {
+    const rule = {
+      ...createRuleFromPreset(TORBOX_RULE_PRESETS.find(preset => preset.id === 'pause_stalled_downloads')!),
+      name: 'Pause Sintel',
+      conditions: [{ field: 'name_contains' as const, operator: 'contains' as const, value: 'Sintel' }],
+    };
+    const config = join(dir, 'rules.json');
+    const statePath = join(dir, 'state.json');
+    writeFileSync(config, JSON.stringify(buildRulesExport([rule])));
+
+    await runRulesCli(['run', '--config', config, '--state', statePath, '--token', MOCK_TORBOX_TOKEN, '--api-url', server.baseUrl, '--once']);
+
+    expect(server.state.torrents.find(torrent => torrent.id === 2)?.download_state).toBe('paused');
+    expect(server.requests.some(request => request.path === '/torrents/controltorrent')).toBe(true);
+    const state = JSON.parse(readFileSync(statePath, 'utf8'));
+    expect(state.rules.cli_pause_sintel).toMatchObject({ enabled: true, runCount: 1 });
+    expect(state.rules.cli_pause_sintel.lastRunAt).toEqual(expect.any(String));
+    expect(state.ledger.entries).toEqual([expect.objectContaining({ action: 'pause_download', source: 'torrent', sourceId: 2, outcome: 'success' })]);
+  });
+});
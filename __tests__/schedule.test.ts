@@ -0,0 +1,103 @@
+import { describeSchedule, getNextScheduleMatch, isWithinSchedule, parseCronExpression, validateSchedule } from '@/utils/schedule';
+import { TorBoxRuleSchedule } from '@/types/torbox';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+const cron = (expression: string, timezone = 'UTC'): TorBoxRuleSchedule => ({ kind: 'cron', cron: expression, timezone });
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+describe('parseCronExpression', () => {
+  it('expands ranges, lists and steps', () => {
+    const spec = parseCronExpression('*/15 9-11,14 1-10/3 * *');
+    expect(sorted(spec.minutes)).toEqual([0, 15, 30, 45]);
+    expect(sorted(spec.hours)).toEqual([9, 10, 11, 14]);
+    expect(sorted(spec.daysOfMonth)).toEqual([1, 4, 7, 10]);
+    expect(sorted(parseCronExpression('5/20 * * * *').minutes)).toEqual([5, 25, 45]);
+  });
+
+  it('accepts day and month names and 7 as Sunday', () => {
+    const spec = parseCronExpression('0 0 * JAN-mar sat,7');
+    expect(sorted(spec.months)).toEqual([1, 2, 3]);
+    expect(sorted(spec.daysOfWeek)).toEqual([0, 6]);
+    expect(sorted(parseCronExpression('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+  });
+
+  it.each([
+    ['0 0 * *', 'need 5 fields'],
+    ['60 * * * *', 'outside 0-59'],
+    ['0 5-2 * * *', 'runs backwards'],
+    ['*/0 * * * *', 'Invalid step'],
+    ['1,,2 * * * *', 'Empty list entry'],
+    ['0 1, * * *', 'Empty list entry'],
+    ['0 1- * * *', 'Missing value'],
+  ])('rejects "%s"', (expression, message) => {
+    expect(() => parseCronExpression(expression)).toThrow(message);
+  });
+});
+
+describe('isWithinSchedule', () => {
+  it('matches cron minutes with either restricted day field', () => {
+    // 2026-03-10 is a Tuesday.
+    const schedule = cron('30 3 15 * tue');
+    expect(isWithinSchedule(schedule, utc('2026-03-10T03:30:00'))).toBe(true);
+    expect(isWithinSchedule(schedule, utc('2026-03-15T03:30:00'))).toBe(true);
+    expect(isWithinSchedule(schedule, utc('2026-03-11T03:30:00'))).toBe(false);
+    expect(isWithinSchedule(schedule, utc('2026-03-10T03:31:00'))).toBe(false);
+  });
+
+  it('keeps overnight windows on the day they start', () => {
+    const window: TorBoxRuleSchedule = { kind: 'window', start: '22:00', end: '02:00', days: [2], timezone: 'UTC' };
+    expect(isWithinSchedule(window, utc('2026-03-10T23:00:00'))).toBe(true);
+    expect(isWithinSchedule(window, utc('2026-03-11T01:59:00'))).toBe(true);
+    expect(isWithinSchedule(window, utc('2026-03-11T02:00:00'))).toBe(false);
+    expect(isWithinSchedule(window, utc('2026-03-10T01:00:00'))).toBe(false);
+    expect(isWithinSchedule(window, utc('2026-03-11T23:00:00'))).toBe(false);
+  });
+
+  it('reads wall-clock time in the schedule timezone', () => {
+    // 03:00 in Tokyo (UTC+9) is 18:00 UTC the previous day.
+    expect(isWithinSchedule(cron('0 3 * * *', 'Asia/Tokyo'), utc('2026-03-09T18:00:00'))).toBe(true);
+    expect(isWithinSchedule(cron('0 3 * * *', 'Asia/Tokyo'), utc('2026-03-10T03:00:00'))).toBe(false);
+    const window: TorBoxRuleSchedule = { kind: 'window', start: '09:00', end: '17:00', timezone: 'America/New_York' };
+    expect(isWithinSchedule(window, utc('2026-01-15T14:30:00'))).toBe(true);
+    expect(isWithinSchedule(window, utc('2026-01-15T12:30:00'))).toBe(false);
+  });
+});
+
+describe('getNextScheduleMatch', () => {
+  it('returns the first matching minute at or after the start', () => {
+    expect(getNextScheduleMatch(cron('0 3 * * *'), utc('2026-03-10T03:00:30').getTime())).toBe(utc('2026-03-10T03:00:00').getTime());
+    expect(getNextScheduleMatch(cron('0 3 * * *'), utc('2026-03-10T03:01:00').getTime())).toBe(utc('2026-03-11T03:00:00').getTime());
+    expect(getNextScheduleMatch(cron('0 0 29 2 *'), utc('2026-03-01T00:00:00').getTime())).toBe(utc('2028-02-29T00:00:00').getTime());
+  });
+
+  it('follows daylight saving changes in the schedule timezone', () => {
+    // New York moves to UTC-4 on 2026-03-08, so 09:00 local shifts from 14:00 to 13:00 UTC.
+    const schedule = cron('0 9 * * *', 'America/New_York');
+    expect(getNextScheduleMatch(schedule, utc('2026-03-07T00:00:00').getTime())).toBe(utc('2026-03-07T14:00:00').getTime());
+    expect(getNextScheduleMatch(schedule, utc('2026-03-08T00:00:00').getTime())).toBe(utc('2026-03-08T13:00:00').getTime());
+  });
+
+  it('finds the start of the next window', () => {
+    const window: TorBoxRuleSchedule = { kind: 'window', start: '22:00', end: '02:00', days: [5], timezone: 'UTC' };
+    expect(getNextScheduleMatch(window, utc('2026-03-10T12:00:00').getTime())).toBe(utc('2026-03-13T22:00:00').getTime());
+  });
+
+  it('gives up on expressions that never run', () => {
+    expect(getNextScheduleMatch(cron('0 0 31 2 *'), utc('2026-03-10T00:00:00').getTime())).toBeNull();
+  });
+});
+
+describe('validateSchedule', () => {
+  it('reports bad cron, timezones and window values', () => {
+    expect(validateSchedule(cron('1,,2 * * * *'))).toMatch(/^Invalid cron expression: Empty list entry/);
+    expect(validateSchedule(cron('0 0 31 2 *'))).toBe('This cron expression never runs.');
+    expect(validateSchedule(cron('0 3 * * *', 'Mars/Olympus'))).toBe('Unknown timezone "Mars/Olympus".');
+    expect(validateSchedule({ kind: 'window', start: '25:00', end: '02:00' })).toBe('Window times must look like 18:00.');
+    expect(validateSchedule({ kind: 'window', start: '22:00', end: '02:00', days: [] })).toBe('Pick at least one day for the window.');
+    expect(validateSchedule({ kind: 'window', start: '22:00', end: '02:00', days: [1, 5] })).toBeNull();
+  });
+
+  it('describes windows with sorted day labels', () => {
+    expect(describeSchedule({ kind: 'window', start: '22:00', end: '02:00', days: [5, 1], timezone: 'UTC' })).toBe('22:00–02:00, Mon, Fri (UTC)');
+  });
+});
@@ -0,0 +1,85 @@
+import { createMockTorrent, createMockUsenet, createMockWebDownload } from '@/mock/torboxServer';
+import { buildLibraryItems } from '@/utils/libraryItems';
+import { buildShowGroups, countWatchedEpisodes, getEpisodeKey, getNextEpisode, getShowId } from '@/utils/showGroups';
+import { daysAgo, makeFile } from './fixtures/torbox';
+
+// One show spread over a season pack, a single-episode torrent, a usenet upgrade and a web download.
+const seasonPack = createMockTorrent({
+  id: 501,
+  name: 'Some.Show.S01.720p.HDTV.x264-GRP',
+  download_finished: true,
+  created_at: daysAgo(20),
+  files: [
+    makeFile('Some.Show.S01.720p.HDTV.x264-GRP/Some.Show.S01E01.720p.HDTV.x264-GRP.mkv', 400, { id: 1 }),
+    makeFile('Some.Show.S01.720p.HDTV.x264-GRP/Some.Show.S01E02.720p.HDTV.x264-GRP.mkv', 400, { id: 2 }),
+    makeFile('Some.Show.S01.720p.HDTV.x264-GRP/Some.Show.S01E03.720p.HDTV.x264-GRP.mkv', 400, { id: 3 }),
+    makeFile('Some.Show.S01.720p.HDTV.x264-GRP/Featurette.mkv', 90, { id: 4 }),
+  ],
+});
+const upgrade = createMockUsenet({
+  id: 502,
+  name: 'Some.Show.S01E02.1080p.WEB-DL.x265-OTHER',
+  download_finished: true,
+  created_at: daysAgo(5),
+  files: [makeFile('Some.Show.S01E02.1080p.WEB-DL.x265-OTHER.mkv', 900, { id: 1 })],
+});
+const nextSeason = createMockTorrent({
+  id: 503,
+  name: 'Some Show S02E01 1080p WEB H264',
+  download_finished: true,
+  created_at: daysAgo(1),
+  files: [makeFile('Some Show S02E01 1080p WEB H264.mkv', 1200, { id: 1 })],
+});
+const numberedPack = createMockWebDownload({
+  id: 504,
+  name: 'Other.Show.Season.2.1080p.BluRay',
+  download_finished: true,
+  files: [makeFile('Other.Show.Season.2.1080p.BluRay/01 - Return.mkv', 800, { id: 1 }), makeFile('Other.Show.Season.2.1080p.BluRay/02 - Away.mkv', 800, { id: 2 })],
+});
+const movie = createMockTorrent({ id: 505, name: 'Sintel.2010.1080p', files: [makeFile('Sintel.2010.1080p.mkv', 1800, { id: 1 })] });
+
+const items = buildLibraryItems([seasonPack, nextSeason, movie], [upgrade], [numberedPack]);
+const shows = buildShowGroups(items);
+const someShow = shows.find(show => show.id === getShowId('Some Show'))!;
+const key = (season: number, episode: number) => getEpisodeKey(someShow.id, season, episode);
+
+describe('buildShowGroups', () => {
+  it('groups TV files by parsed title across downloads and sources', () => {
+    expect(shows.map(show => show.title)).toEqual(['Other Show', 'Some Show']);
+    expect(someShow.downloadCount).toBe(3);
+    expect(someShow.seasons.map(season => [season.season, season.episodes.map(episode => episode.episode)])).toEqual([[1, [1, 2, 3]], [2, [1]]]);
+    expect(someShow.episodeCount).toBe(4);
+  });
+
+  it('keeps every copy of an episode with the best one first', () => {
+    const episode = someShow.seasons[0].episodes[1];
+    expect(episode.files.map(file => file.source)).toEqual(['usenet', 'torrent']);
+    expect(episode.files[0].release.resolution).toBe('1080p');
+  });
+
+  it('numbers files inside a season folder by their leading number', () => {
+    const other = shows.find(show => show.title === 'Other Show')!;
+    expect(other.seasons.map(season => [season.season, season.episodes.map(episode => episode.episode)])).toEqual([[2, [1, 2]]]);
+  });
+
+  it('lists files without an episode number as extras', () => {
+    expect(someShow.extras.map(file => file.fileName)).toEqual(['Featurette.mkv']);
+  });
+});
+
+describe('getNextEpisode', () => {
+  it('starts at the first episode', () => {
+    expect(getNextEpisode(someShow, {})?.key).toBe(key(1, 1));
+  });
+
+  it('continues after the furthest watched episode, into the next season and download', () => {
+    expect(getNextEpisode(someShow, { [key(1, 2)]: daysAgo(1) })?.key).toBe(key(1, 3));
+    const watched = { [key(1, 1)]: daysAgo(3), [key(1, 3)]: daysAgo(1) };
+    expect(getNextEpisode(someShow, watched)?.files[0].sourceId).toBe(503);
+    expect(countWatchedEpisodes(someShow, watched)).toBe(2);
+  });
+
+  it('returns null once the last episode is watched', () => {
+    expect(getNextEpisode(someShow, { [key(2, 1)]: daysAgo(0) })).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { TorBoxAPI } from '@/core/torbox-api';
+import { MOCK_TORBOX_TOKEN, MockTorBoxServer, startMockTorBoxServer } from '@/mock/torboxServer';
+
+let server: MockTorBoxServer;
+let api: TorBoxAPI;
+
+beforeEach(async () => {
+  server = await startMockTorBoxServer({ stepSeconds: 200 });
+  api = new TorBoxAPI({ baseUrl: server.baseUrl });
+  api.setToken(MOCK_TORBOX_TOKEN);
+});
+
+afterEach(async () => {
+  await server.stop();
+});
+
+describe('mock TorBox server', () => {
+  it('serves the default library to TorBoxAPI', async () => {
+    const torrents = await api.getTorrents();
+    expect(torrents.map(torrent => torrent.name)).toEqual(['Big.Buck.Bunny.2008.1080p', 'Sintel.2010.720p']);
+    expect(server.requests.map(request => request.path)).toEqual(['/torrents/mylist']);
+  });
+
+  it('fails the next matching request with an injected fault and raises the client backoff', async () => {
+    server.injectFault('/torrents/mylist', { status: 503 });
+    await expect(api.getTorrents()).rejects.toThrow('TorBox API error 503');
+    expect(api.getBackoffMs()).toBe(2000);
+
+    const fresh = new TorBoxAPI({ baseUrl: server.baseUrl });
+    fresh.setToken(MOCK_TORBOX_TOKEN);
+    await expect(fresh.getTorrents()).resolves.toHaveLength(2);
+  });
+
+  it('finishes downloads and applies scheduled transitions as time advances', async () => {
+    await api.addTorrentMagnet('magnet:?xt=urn:btih:abc&dn=New.Release');
+    server.scheduleTransition(state => { state.torrents = state.torrents.filter(torrent => torrent.name !== 'New.Release'); }, 2);
+
+    server.advance();
+    let torrents = await api.getTorrents();
+    expect(torrents.find(torrent => torrent.id === 2)).toMatchObject({ download_state: 'completed', download_finished: true, progress: 1 });
+    expect(torrents.map(torrent => torrent.name)).toContain('New.Release');
+
+    server.advance();
+    torrents = await api.getTorrents();
+    expect(torrents.map(torrent => torrent.name)).not.toContain('New.Release');
+  });
+
+  it('rejects requests without the mock token', async () => {
+    api.setToken('wrong');
+    await expect(api.getUser()).rejects.toThrow('Invalid API token');
+  });
+});
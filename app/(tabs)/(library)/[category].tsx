@@ -12,19 +12,25 @@ import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
 import Colors from '@/constants/colors';
 import { CATEGORY_META } from '@/constants/categories';
 import { useFilteredLibrary, useLibrary } from '@/hooks/useLibrary';
-import { MediaCategory, LibraryItem, AudiobookGroup } from '@/types/torbox';
+import { MediaCategory, LibraryItem, AudiobookGroup, ReleaseResolution, ShowGroup } from '@/types/torbox';
 import SearchBar from '@/components/SearchBar';
 import LibraryCard from '@/components/LibraryCard';
 import AudiobookGroupCard from '@/components/AudiobookGroupCard';
+import ShowGroupCard from '@/components/ShowGroupCard';
 import { formatBytes, truncateMiddle } from '@/utils/formatters';
+import { formatReleaseTitle, hasReleaseTags, normalizeReleaseTitle, parseReleaseName, RELEASE_RESOLUTIONS } from '@/utils/releaseName';
+import { getShowId } from '@/utils/showGroups';
 
 type SortMode = 'name' | 'size' | 'date';
 
+// Categories whose downloads are listed as one entry per download instead of per file.
+const GROUPED_DOWNLOAD_CATEGORIES: MediaCategory[] = ['movie', 'ebook', 'comics', 'software'];
+
 interface VideoGroup {
   id: string;
-  sourceId: number;
-  source: string;
-  parentName: string;
+  title: string;
+  downloadKeys: string[];
+  resolutions: ReleaseResolution[];
   fileCount: number;
   totalSize: number;
   createdAt: string;
@@ -33,9 +39,23 @@ interface VideoGroup {
 
 type GroupedDownload = VideoGroup;
 
+// Movies are grouped by parsed title and year, so several releases of one film share an entry.
+function getGroupKey(item: LibraryItem): string {
+  if (item.category === 'movie' && hasReleaseTags(item.release)) {
+    return `movie:${normalizeReleaseTitle(item.release.title)}:${item.release.year ?? ''}`;
+  }
+  return `${item.source}-${item.sourceId}`;
+}
+
+function getGroupTitle(item: LibraryItem): string {
+  if (item.category === 'movie' && hasReleaseTags(item.release)) return formatReleaseTitle({ title: item.release.title, year: item.release.year });
+  const release = parseReleaseName(item.parentName);
+  return hasReleaseTags(release) ? formatReleaseTitle(release) : item.parentName;
+}
+
 export default function CategoryScreen() {
   const { category } = useLocalSearchParams<{ category: string }>();
-  const { isFetching, refetchAll, audiobookGroups } = useLibrary();
+  const { isFetching, refetchAll, audiobookGroups, showGroups } = useLibrary();
   const router = useRouter();
 
   const [search, setSearch] = useState<string>('');
@@ -45,9 +65,8 @@ export default function CategoryScreen() {
   const meta = CATEGORY_META[cat] ?? CATEGORY_META.other;
   const items = useFilteredLibrary(search, cat);
   const isAudiobookCategory = cat === 'audiobook';
-  const isVideoCategory = cat === 'video';
-  const isEbookCategory = cat === 'ebook';
-  const isGroupedDownloadCategory = isVideoCategory || isEbookCategory;
+  const isShowCategory = cat === 'tv';
+  const isGroupedDownloadCategory = GROUPED_DOWNLOAD_CATEGORIES.includes(cat);
 
   const filteredGroups = useMemo(() => {
     if (!isAudiobookCategory) return [];
@@ -72,8 +91,27 @@ export default function CategoryScreen() {
     return sorted;
   }, [filteredGroups, sort]);
 
+  const sortedShows = useMemo(() => {
+    if (!isShowCategory) return [];
+    // `items` is already narrowed by the search, so a show matches when any of its files does.
+    const matchedShowIds = new Set(items.map(item => getShowId(item.release.title)));
+    const shows = search.trim() ? showGroups.filter(show => matchedShowIds.has(show.id)) : [...showGroups];
+    switch (sort) {
+      case 'name':
+        shows.sort((a, b) => a.title.localeCompare(b.title));
+        break;
+      case 'size':
+        shows.sort((a, b) => b.totalSize - a.totalSize);
+        break;
+      case 'date':
+        shows.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        break;
+    }
+    return shows;
+  }, [isShowCategory, showGroups, items, search, sort]);
+
   const sortedItems = useMemo(() => {
-    if (isAudiobookCategory || isGroupedDownloadCategory) return [];
+    if (isAudiobookCategory || isShowCategory || isGroupedDownloadCategory) return [];
     const sorted = [...items];
     switch (sort) {
       case 'name':
@@ -87,7 +125,7 @@ export default function CategoryScreen() {
         break;
     }
     return sorted;
-  }, [items, sort, isAudiobookCategory, isGroupedDownloadCategory]);
+  }, [items, sort, isAudiobookCategory, isShowCategory, isGroupedDownloadCategory]);
 
   const groupedDownloadItems = useMemo(() => {
     if (!isGroupedDownloadCategory) return [];
@@ -96,14 +134,16 @@ export default function CategoryScreen() {
     const query = search.trim().toLowerCase();
 
     for (const item of items) {
-      const key = `${item.source}-${item.sourceId}`;
+      const key = getGroupKey(item);
+      const downloadKey = `${item.source}-${item.sourceId}`;
+      const resolution = item.release.resolution;
       const existing = grouped.get(key);
       if (!existing) {
         grouped.set(key, {
           id: key,
-          sourceId: item.sourceId,
-          source: item.source,
-          parentName: item.parentName,
+          title: getGroupTitle(item),
+          downloadKeys: [downloadKey],
+          resolutions: resolution ? [resolution] : [],
           fileCount: 1,
           totalSize: item.fileSize,
           createdAt: item.createdAt,
@@ -114,6 +154,9 @@ export default function CategoryScreen() {
 
       existing.fileCount += 1;
       existing.totalSize += item.fileSize;
+      if (!existing.downloadKeys.includes(downloadKey)) existing.downloadKeys.push(downloadKey);
+      if (resolution && !existing.resolutions.includes(resolution)) existing.resolutions.push(resolution);
+      if (new Date(item.createdAt).getTime() > new Date(existing.createdAt).getTime()) existing.createdAt = item.createdAt;
 
       if (item.fileSize > existing.representative.fileSize) {
         existing.representative = item;
@@ -121,21 +164,23 @@ export default function CategoryScreen() {
     }
 
     let filtered = [...grouped.values()];
+    for (const group of filtered) {
+      group.resolutions.sort((a, b) => RELEASE_RESOLUTIONS.indexOf(a) - RELEASE_RESOLUTIONS.indexOf(b));
+    }
     if (query) {
       filtered = filtered.filter(group => {
-        if (group.parentName.toLowerCase().includes(query)) return true;
+        if (group.title.toLowerCase().includes(query)) return true;
         return items.some(
           item =>
-            item.sourceId === group.sourceId
-            && item.source === group.source
-            && item.fileName.toLowerCase().includes(query)
+            group.downloadKeys.includes(`${item.source}-${item.sourceId}`)
+            && (item.fileName.toLowerCase().includes(query) || item.parentName.toLowerCase().includes(query))
         );
       });
     }
 
     switch (sort) {
       case 'name':
-        filtered.sort((a, b) => a.parentName.localeCompare(b.parentName));
+        filtered.sort((a, b) => a.title.localeCompare(b.title));
         break;
       case 'size':
         filtered.sort((a, b) => b.totalSize - a.totalSize);
@@ -152,6 +197,10 @@ export default function CategoryScreen() {
     <AudiobookGroupCard group={item} />
   ), []);
 
+  const renderShowItem = useCallback(({ item }: { item: ShowGroup }) => (
+    <ShowGroupCard show={item} />
+  ), []);
+
   const renderItem = useCallback(({ item }: { item: LibraryItem }) => (
     <LibraryCard item={item} returnCategory={cat} />
   ), [cat]);
@@ -168,8 +217,8 @@ export default function CategoryScreen() {
             sourceId: String(item.representative.sourceId),
             fileId: String(item.representative.fileId),
             source: item.representative.source,
-            fileName: item.parentName,
-            parentName: item.parentName,
+            fileName: item.representative.parentName,
+            parentName: item.representative.parentName,
             fileSize: String(item.totalSize),
             category: item.representative.category,
             extension: item.representative.extension,
@@ -179,8 +228,20 @@ export default function CategoryScreen() {
         });
       }}
     >
-      <Text style={styles.videoGroupName} numberOfLines={1}>{truncateMiddle(item.parentName, 52)}</Text>
+      <Text style={styles.videoGroupName} numberOfLines={1}>{truncateMiddle(item.title, 52)}</Text>
       <View style={styles.videoGroupMeta}>
+        {item.downloadKeys.length > 1 && (
+          <>
+            <Text style={styles.videoGroupMetaText}>{item.downloadKeys.length} releases</Text>
+            <Text style={styles.videoGroupMetaDot}>•</Text>
+          </>
+        )}
+        {item.resolutions.length > 0 && (
+          <>
+            <Text style={styles.videoGroupMetaText}>{item.resolutions.join(', ')}</Text>
+            <Text style={styles.videoGroupMetaDot}>•</Text>
+          </>
+        )}
         <Text style={styles.videoGroupMetaText}>
           {item.fileCount} {item.fileCount === 1 ? 'file' : 'files'}
         </Text>
@@ -192,13 +253,16 @@ export default function CategoryScreen() {
 
   const groupedItemCount = useMemo(() => {
     if (isAudiobookCategory) return sortedGroups.length;
+    if (isShowCategory) return sortedShows.length;
     if (isGroupedDownloadCategory) return groupedDownloadItems.length;
     return new Set(items.map(item => `${item.source}-${item.sourceId}`)).size;
-  }, [isAudiobookCategory, isGroupedDownloadCategory, sortedGroups.length, groupedDownloadItems.length, items]);
+  }, [isAudiobookCategory, isShowCategory, isGroupedDownloadCategory, sortedGroups.length, sortedShows.length, groupedDownloadItems.length, items]);
 
   const displayCount = groupedItemCount;
   const itemLabel = isAudiobookCategory
     ? (groupedItemCount === 1 ? 'audiobook' : 'audiobooks')
+    : isShowCategory
+      ? (groupedItemCount === 1 ? 'show' : 'shows')
     : isGroupedDownloadCategory
       ? (groupedItemCount === 1 ? 'collection' : 'collections')
     : (groupedItemCount === 1 ? 'download' : 'downloads');
@@ -259,6 +323,58 @@ export default function CategoryScreen() {
             />
           }
         />
+      ) : isShowCategory ? (
+        <FlatList
+          data={sortedShows}
+          renderItem={renderShowItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <View>
+              <View style={styles.header}>
+                <View>
+                  <Text style={[styles.title, { color: meta.color }]}>{meta.label}</Text>
+                  <Text style={styles.count}>{displayCount} {itemLabel}</Text>
+                </View>
+              </View>
+
+              <SearchBar
+                value={search}
+                onChangeText={setSearch}
+                placeholder={`Search ${meta.label.toLowerCase()}...`}
+              />
+
+              <View style={styles.sortRow}>
+                {(['name', 'size', 'date'] as SortMode[]).map(s => (
+                  <TouchableOpacity
+                    key={s}
+                    style={[styles.sortBtn, sort === s && styles.sortBtnActive]}
+                    onPress={() => setSort(s)}
+                  >
+                    <Text style={[styles.sortText, sort === s && styles.sortTextActive]}>
+                      {s.charAt(0).toUpperCase() + s.slice(1)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {sortedShows.length === 0 && (
+                <View style={styles.empty}>
+                  <Text style={styles.emptyText}>
+                    {search ? `No results for "${search}"` : 'No TV shows in your library'}
+                  </Text>
+                </View>
+              )}
+            </View>
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={isFetching}
+              onRefresh={refetchAll}
+              tintColor={Colors.primary}
+            />
+          }
+        />
       ) : isGroupedDownloadCategory ? (
         <FlatList
           data={groupedDownloadItems}
@@ -297,7 +413,7 @@ export default function CategoryScreen() {
               {groupedDownloadItems.length === 0 && (
                 <View style={styles.empty}>
                   <Text style={styles.emptyText}>
-                    {search ? `No results for "${search}"` : `No ${isEbookCategory ? 'ebook' : 'video'} collections in your library`}
+                    {search ? `No results for "${search}"` : `No ${meta.label.toLowerCase()} in your library`}
                   </Text>
                 </View>
               )}
@@ -17,8 +17,9 @@ import { Bell, Plus, X } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { DISPLAY_CATEGORIES } from '@/constants/categories';
 
-import { useLibrary, useFilteredLibrary } from '@/hooks/useLibrary';
+import { useLibrary, useFilteredLibrary, useMergedLibrary } from '@/hooks/useLibrary';
 import { useNotifications } from '@/hooks/useNotifications';
+import { useAuth } from '@/hooks/useAuth';
 import { MediaCategory, LibraryItem, ActiveDownload } from '@/types/torbox';
 import SearchBar from '@/components/SearchBar';
 import CategoryCard from '@/components/CategoryCard';
@@ -45,8 +46,27 @@ export default function LibraryScreen() {
   const [search, setSearch] = useState<string>('');
   const [viewMode, setViewMode] = useState<'categories' | 'all'>('categories');
   const [showNotifications, setShowNotifications] = useState<boolean>(false);
+  const [accountScope, setAccountScope] = useState<'current' | 'all'>('current');
+  const { accounts, activeAccountId, switchAccount } = useAuth();
 
   const filteredItems = useFilteredLibrary(search);
+  const hasMultipleAccounts = accounts.length > 1;
+  const isMergedView = hasMultipleAccounts && accountScope === 'all';
+  const mergedLibrary = useMergedLibrary(isMergedView);
+
+  const accountLabels = useMemo(() => {
+    const map: Record<string, string> = {};
+    for (const account of accounts) map[account.id] = account.label;
+    return map;
+  }, [accounts]);
+
+  const mergedItems = useMemo(() => {
+    const q = search.toLowerCase().trim();
+    if (!q) return mergedLibrary.items;
+    return mergedLibrary.items.filter(
+      item => item.fileName.toLowerCase().includes(q) || item.parentName.toLowerCase().includes(q)
+    );
+  }, [mergedLibrary.items, search]);
 
   const isSearching = search.trim().length > 0;
 
@@ -141,9 +161,41 @@ export default function LibraryScreen() {
     );
   }, [activeCategories, stats, handleCategoryPress]);
 
-  const renderItem = useCallback(({ item }: { item: LibraryItem }) => (
-    <LibraryCard item={item} />
-  ), []);
+  const handleForeignItemPress = useCallback((item: LibraryItem) => {
+    if (!item.accountId) return;
+    const label = accountLabels[item.accountId] ?? 'another account';
+    Alert.alert(
+      'Switch Account',
+      `"${item.fileName}" belongs to ${label}. Switch to that account to open it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          onPress: async () => {
+            try {
+              await switchAccount(item.accountId!);
+              setAccountScope('current');
+            } catch (err) {
+              const message = err instanceof Error ? err.message : 'Unable to switch account.';
+              Alert.alert('Error', message);
+            }
+          },
+        },
+      ]
+    );
+  }, [accountLabels, switchAccount]);
+
+  const renderItem = useCallback(({ item }: { item: LibraryItem }) => {
+    if (!isMergedView) return <LibraryCard item={item} />;
+    const isForeign = !!item.accountId && item.accountId !== activeAccountId;
+    return (
+      <LibraryCard
+        item={item}
+        accountLabel={item.accountId ? accountLabels[item.accountId] : undefined}
+        onPress={isForeign ? handleForeignItemPress : undefined}
+      />
+    );
+  }, [isMergedView, activeAccountId, accountLabels, handleForeignItemPress]);
 
   const keyExtractor = useCallback((item: LibraryItem) => item.id, []);
 
@@ -163,7 +215,7 @@ export default function LibraryScreen() {
   return (
     <View style={styles.container}>
       <FlatList
-        data={isSearching ? filteredItems : (viewMode === 'all' ? filteredItems : [])}
+        data={isMergedView ? mergedItems : (isSearching ? filteredItems : (viewMode === 'all' ? filteredItems : []))}
         renderItem={renderItem}
         keyExtractor={keyExtractor}
         contentContainerStyle={[styles.listContent, { paddingTop: insets.top + 12 }]}
@@ -199,7 +251,41 @@ export default function LibraryScreen() {
               <SearchBar value={search} onChangeText={setSearch} />
             </View>
 
-            {!isSearching && (
+            {hasMultipleAccounts && (
+              <View style={styles.toggleRow}>
+                <TouchableOpacity
+                  style={[styles.toggleBtn, accountScope === 'current' && styles.toggleBtnActive]}
+                  onPress={() => setAccountScope('current')}
+                  testID="library-scope-current"
+                >
+                  <Text style={[styles.toggleText, accountScope === 'current' && styles.toggleTextActive]}>
+                    {(activeAccountId && accountLabels[activeAccountId]) || 'This Account'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.toggleBtn, accountScope === 'all' && styles.toggleBtnActive]}
+                  onPress={() => setAccountScope('all')}
+                  testID="library-scope-all"
+                >
+                  <Text style={[styles.toggleText, accountScope === 'all' && styles.toggleTextActive]}>
+                    All Accounts
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {isMergedView && (
+              <Text style={styles.mergedHint}>
+                {mergedLibrary.isLoading
+                  ? 'Loading other accounts...'
+                  : `${mergedItems.length} files across ${accounts.length} accounts`}
+                {mergedLibrary.failedAccountIds.length > 0
+                  ? ` · ${mergedLibrary.failedAccountIds.map(id => accountLabels[id] ?? id).join(', ')} failed to load`
+                  : ''}
+              </Text>
+            )}
+
+            {!isSearching && !isMergedView && (
               <View style={styles.quickAddRow}>
                 {QUICK_ADD_TYPES.map((quickAdd) => (
                   <TouchableOpacity
@@ -213,7 +299,7 @@ export default function LibraryScreen() {
               </View>
             )}
 
-            {!isSearching && (
+            {!isSearching && !isMergedView && (
               <ExpandableDownloadSection
                 downloads={activeDownloads}
                 onViewAll={handleViewAllDownloads}
@@ -221,7 +307,7 @@ export default function LibraryScreen() {
               />
             )}
 
-            {!isSearching && (
+            {!isSearching && !isMergedView && (
               <View style={styles.toggleRow}>
                 <TouchableOpacity
                   style={[styles.toggleBtn, viewMode === 'categories' && styles.toggleBtnActive]}
@@ -242,9 +328,9 @@ export default function LibraryScreen() {
               </View>
             )}
 
-            {!isSearching && viewMode === 'categories' && renderCategoryGrid()}
+            {!isSearching && !isMergedView && viewMode === 'categories' && renderCategoryGrid()}
 
-            {isSearching && filteredItems.length === 0 && (
+            {isSearching && !isMergedView && filteredItems.length === 0 && (
               <View style={styles.emptySearch}>
                 <Text style={styles.emptyText}>No results for &ldquo;{search}&rdquo;</Text>
               </View>
@@ -500,6 +586,11 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     justifyContent: 'space-between',
   },
+  mergedHint: {
+    color: Colors.textTertiary,
+    fontSize: 12,
+    marginBottom: 14,
+  },
   emptySearch: {
     paddingVertical: 40,
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,6 +8,10 @@ import {
   Switch,
   TextInput,
   Alert,
+  Modal,
+  ActivityIndicator,
+  Platform,
+  Share,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import {
@@ -28,26 +32,70 @@ import {
   Radio,
   Bell,
   Wrench,
+  History,
+  Eye,
+  Webhook,
+  Tag,
+  Upload,
+  Download,
+  Copy,
+  Share2,
+  FileText,
+  CheckSquare,
+  Square,
+  Calendar,
+  Undo2,
+  OctagonX,
 } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
 import Colors from '@/constants/colors';
+import { useAutomations } from '@/hooks/useAutomations';
 import {
-  useAutomations,
   CONDITION_FIELD_LABELS,
   CONDITION_FIELDS,
   OPERATOR_LABELS,
   OPERATORS,
   ACTION_LABELS,
   ALL_ACTIONS,
+  ACTION_PAST_LABELS,
   SCOPE_LABELS,
   PRESET_CATEGORIES,
-} from '@/hooks/useAutomations';
+  TRIGGER_LABELS,
+  ALL_TRIGGERS,
+  isEventTrigger,
+  RulePreview,
+  MAX_CONDITION_DEPTH,
+  describeConditionNode,
+  flattenConditionTree,
+  validateConditionValue,
+  validateActionValue,
+  PARAMETER_ACTIONS,
+  MAX_ACTION_STEPS,
+  describeStepResults,
+  getNextRuleRun,
+  getItemsActedToday,
+  DANGEROUS_RULE_DEFAULT_LIMITS,
+  DEFAULT_UNDO_WINDOW_MINUTES,
+} from '@/core/automation';
+import { useSettings } from '@/hooks/useSettings';
 import {
   TorBoxRule,
   TorBoxRulePreset,
-  TorBoxRuleCondition,
   TorBoxRuleAction,
   TorBoxRuleScope,
+  TorBoxRuleTrigger,
+  TorBoxRuleExecution,
+  TorBoxRuleConditionGroup,
+  TorBoxRuleConditionLeaf,
+  TorBoxRuleConditionNode,
+  TorBoxRuleActionStep,
+  TorBoxRuleSchedule,
+  TorBoxPendingDeletion,
 } from '@/types/torbox';
+import { PortableRule, parseRulesImport, serializeRulesExport } from '@/core/ruleFormat';
+import { saveRulesExportFile } from '@/utils/ruleTransfer';
+import { decodeUploadText, readUploadFileBytes } from '@/utils/contentFiles';
+import { WEEKDAY_LABELS, describeSchedule, getDeviceTimeZone, getNextScheduleMatch, validateSchedule } from '@/utils/schedule';
 
 const ACTION_ICONS: Record<string, React.ComponentType<{ size: number; color: string }>> = {
   delete_download: Trash2,
@@ -57,15 +105,32 @@ const ACTION_ICONS: Record<string, React.ComponentType<{ size: number; color: st
   request_download_link: Link,
   create_stream: Radio,
   notify_user: Bell,
+  call_webhook: Webhook,
+  add_tag: Tag,
 };
 
+const ACTION_VALUE_PLACEHOLDERS: Partial<Record<TorBoxRuleAction, string>> = {
+  notify_user: 'Message template, e.g. {name} finished ({size})',
+  call_webhook: 'https://example.com/hooks/tordeck',
+  add_tag: 'Tag name, e.g. archive',
+};
+
+const TRIGGER_VALUE_PLACEHOLDERS: Partial<Record<TorBoxRuleTrigger, string>> = {
+  status_changed: 'e.g. completed, error (blank = any change)',
+  progress_crossed: 'e.g. 50',
+};
+
+const ACTIVITY_PAGE_SIZE = 20;
+
 const SUPPORTED_AUTOMATION_ACTIONS = [
   'Pause / resume downloads',
   'Reannounce torrent trackers',
   'Delete downloads',
   'Request download links',
   'Create stream links',
-  'Local notifications',
+  'Local notifications (with {name}, {size}, {progress}, {status}, {source} templates)',
+  'Webhook calls (POST JSON per matched item)',
+  'Local tags on downloads',
 ];
 
 function getActionColor(action: string): string {
@@ -77,23 +142,72 @@ function getActionColor(action: string): string {
     case 'request_download_link': return Colors.accent;
     case 'create_stream': return '#06B6D4';
     case 'notify_user': return '#F59E0B';
+    case 'call_webhook': return '#8B5CF6';
+    case 'add_tag': return '#10B981';
     default: return Colors.textSecondary;
   }
 }
 
 interface RuleCardProps {
   rule: TorBoxRule;
+  actedCount: number;
+  onResetHistory: (id: string) => void;
   onToggle: (id: string, enabled: boolean) => void;
   onRunNow: (id: string) => void;
+  onPreview: (id: string) => void;
+  isPreviewing: boolean;
   onDelete: (id: string) => void;
   onUpdateInterval: (id: string, minutes: number) => void;
-  onUpdateRule: (id: string, updates: Partial<Pick<TorBoxRule, 'name' | 'checkIntervalMinutes' | 'action' | 'scope'>>) => void;
+  onUpdateRule: (id: string, updates: Partial<Pick<TorBoxRule, 'name' | 'checkIntervalMinutes' | 'action' | 'actionValue' | 'scope' | 'trigger' | 'triggerValue' | 'schedule' | RuleLimitKey>>) => void;
+}
+
+type RuleLimitKey = 'maxItemsPerRun' | 'maxItemsPerDay' | 'undoWindowMinutes';
+const RULE_LIMIT_KEYS: RuleLimitKey[] = ['maxItemsPerRun', 'maxItemsPerDay', 'undoWindowMinutes'];
+
+// Blank means "use the default" (no limit, or the dangerous-rule default); validation happens in the hook.
+const parseLimitInput = (text: string) => (text.trim() ? Number(text.trim()) : undefined);
+
+const getLimitPlaceholders = (isDangerous: boolean | undefined): Record<RuleLimitKey, string> => ({
+  maxItemsPerRun: isDangerous ? String(DANGEROUS_RULE_DEFAULT_LIMITS.maxItemsPerRun) : '\u221E',
+  maxItemsPerDay: isDangerous ? String(DANGEROUS_RULE_DEFAULT_LIMITS.maxItemsPerDay) : '\u221E',
+  undoWindowMinutes: String(DEFAULT_UNDO_WINDOW_MINUTES),
+});
+
+function LimitInput({ label, unit, value, placeholder, onChangeText, onCommit }: {
+  label: string;
+  unit: string;
+  value: string;
+  placeholder: string;
+  onChangeText: (text: string) => void;
+  onCommit?: () => void;
+}) {
+  return (
+    <View style={styles.intervalRow}>
+      <Text style={[styles.intervalLabel, styles.limitLabel]}>{label}</Text>
+      <TextInput
+        style={styles.intervalInput}
+        value={value}
+        onChangeText={onChangeText}
+        onBlur={onCommit}
+        onSubmitEditing={onCommit}
+        keyboardType="number-pad"
+        returnKeyType="done"
+        placeholder={placeholder}
+        placeholderTextColor={Colors.textTertiary}
+      />
+      <Text style={styles.intervalUnit}>{unit}</Text>
+    </View>
+  );
 }
 
 const RuleCard = React.memo(function RuleCard({
   rule,
+  actedCount,
+  onResetHistory,
   onToggle,
   onRunNow,
+  onPreview,
+  isPreviewing,
   onDelete,
   onUpdateInterval,
   onUpdateRule,
@@ -101,11 +215,21 @@ const RuleCard = React.memo(function RuleCard({
   const [expanded, setExpanded] = useState<boolean>(false);
   const [intervalInput, setIntervalInput] = useState<string>(String(rule.checkIntervalMinutes));
   const [nameInput, setNameInput] = useState<string>(rule.name);
+  const [triggerValueInput, setTriggerValueInput] = useState<string>(rule.triggerValue ?? '');
+  const [actionValueInput, setActionValueInput] = useState<string>(rule.actionValue ?? '');
+  const [limitInputs, setLimitInputs] = useState<Record<RuleLimitKey, string>>({ maxItemsPerRun: '', maxItemsPerDay: '', undoWindowMinutes: '' });
+  const trigger = rule.trigger ?? 'interval';
 
   React.useEffect(() => {
     setIntervalInput(String(rule.checkIntervalMinutes));
     setNameInput(rule.name);
-  }, [rule.checkIntervalMinutes, rule.name]);
+    setTriggerValueInput(rule.triggerValue ?? '');
+    setActionValueInput(rule.actionValue ?? '');
+  }, [rule.checkIntervalMinutes, rule.name, rule.triggerValue, rule.actionValue]);
+
+  React.useEffect(() => {
+    setLimitInputs({ maxItemsPerRun: rule.maxItemsPerRun?.toString() ?? '', maxItemsPerDay: rule.maxItemsPerDay?.toString() ?? '', undoWindowMinutes: rule.undoWindowMinutes?.toString() ?? '' });
+  }, [rule.maxItemsPerRun, rule.maxItemsPerDay, rule.undoWindowMinutes]);
 
   const ActionIcon = ACTION_ICONS[rule.action] || Settings;
   const actionColor = getActionColor(rule.action);
@@ -142,11 +266,41 @@ const RuleCard = React.memo(function RuleCard({
     onUpdateRule(rule.id, { name: trimmed });
   }, [nameInput, onUpdateRule, rule.id, rule.name]);
 
+  const handleTriggerValueSave = useCallback(() => {
+    const trimmed = triggerValueInput.trim();
+    if (trimmed === (rule.triggerValue ?? '')) return;
+    if (trigger === 'progress_crossed' && trimmed && !Number.isFinite(Number(trimmed))) {
+      Alert.alert('Invalid Threshold', 'Progress threshold must be a number between 0 and 100.');
+      return;
+    }
+    onUpdateRule(rule.id, { triggerValue: trimmed || undefined });
+  }, [triggerValueInput, trigger, onUpdateRule, rule.id, rule.triggerValue]);
+
+  const handleActionValueSave = useCallback(() => {
+    const trimmed = actionValueInput.trim();
+    if (trimmed === (rule.actionValue ?? '')) return;
+    onUpdateRule(rule.id, { actionValue: trimmed || undefined });
+  }, [actionValueInput, onUpdateRule, rule.id, rule.actionValue]);
+
+  const handleLimitSave = useCallback((key: RuleLimitKey) => {
+    const parsed = parseLimitInput(limitInputs[key]);
+    if (parsed === rule[key]) return;
+    onUpdateRule(rule.id, { [key]: parsed });
+  }, [limitInputs, onUpdateRule, rule]);
+
   const scopeOptions: TorBoxRuleScope[] = ['all', 'torrent', 'usenet', 'web'];
+  const limitPlaceholders = getLimitPlaceholders(rule.isDangerous);
+  const itemsToday = getItemsActedToday(rule, Date.now());
 
   const lastRunText = rule.lastRunAt
     ? new Date(rule.lastRunAt).toLocaleString()
     : 'Never';
+  const nextRun = getNextRuleRun(rule, Date.now());
+  const nextRunText = !rule.enabled
+    ? 'Disabled'
+    : isEventTrigger(trigger)
+      ? `When a matching change is seen${rule.schedule ? ' inside the schedule' : ''}`
+      : nextRun ? new Date(nextRun).toLocaleString() : 'Not scheduled';
 
   return (
     <View style={[styles.ruleCard, rule.isDangerous && styles.ruleCardDangerous]}>
@@ -170,6 +324,7 @@ const RuleCard = React.memo(function RuleCard({
               <View style={[styles.actionBadge, { backgroundColor: actionColor + '15' }]}>
                 <Text style={[styles.actionBadgeText, { color: actionColor }]}>
                   {ACTION_LABELS[rule.action] || rule.action}
+                  {rule.actionSteps && rule.actionSteps.length > 1 ? ` +${rule.actionSteps.length - 1}` : ''}
                 </Text>
               </View>
               {rule.isCustom && (
@@ -197,7 +352,13 @@ const RuleCard = React.memo(function RuleCard({
 
       {expanded && (
         <View style={styles.ruleBody}>
-          {rule.conditions.length > 0 && (
+          {rule.conditionTree && (
+            <View style={styles.conditionsSection}>
+              <Text style={styles.sectionLabel}>CONDITIONS</Text>
+              <Text style={styles.conditionTreeText}>{describeConditionNode(rule.conditionTree)}</Text>
+            </View>
+          )}
+          {!rule.conditionTree && rule.conditions.length > 0 && (
             <View style={styles.conditionsSection}>
               <Text style={styles.sectionLabel}>CONDITIONS</Text>
               {rule.conditions.map((cond, idx) => (
@@ -228,27 +389,64 @@ const RuleCard = React.memo(function RuleCard({
           </View>
 
           <View style={styles.actionSection}>
-            <Text style={styles.sectionLabel}>ACTION</Text>
-            <View style={styles.actionRow}>
-              <ActionIcon size={14} color={actionColor} />
-              <Text style={[styles.actionText, { color: actionColor }]}> 
-                {ACTION_LABELS[rule.action] || rule.action}
-                {rule.actionValue ? `: "${rule.actionValue}"` : ''}
-              </Text>
-            </View>
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.inlinePickerScroll}>
-              {ALL_ACTIONS.map((action) => (
-                <TouchableOpacity
-                  key={action}
-                  style={[styles.inlinePickerBtn, rule.action === action && styles.inlinePickerBtnActive]}
-                  onPress={() => onUpdateRule(rule.id, { action })}
-                >
-                  <Text style={[styles.inlinePickerText, rule.action === action && styles.inlinePickerTextActive]}>
-                    {ACTION_LABELS[action]}
+            <Text style={styles.sectionLabel}>{rule.actionSteps && rule.actionSteps.length > 1 ? 'ACTIONS' : 'ACTION'}</Text>
+            {rule.actionSteps && rule.actionSteps.length > 1 ? (
+              rule.actionSteps.map((step, idx) => {
+                const StepIcon = ACTION_ICONS[step.action] || Settings;
+                const stepColor = getActionColor(step.action);
+                return (
+                  <View key={idx} style={styles.actionRow}>
+                    <Text style={styles.actionStepIndex}>{idx + 1}.</Text>
+                    <StepIcon size={14} color={stepColor} />
+                    <Text style={[styles.actionText, styles.flexOne, { color: stepColor }]} numberOfLines={1}>
+                      {ACTION_LABELS[step.action] || step.action}
+                      {step.actionValue ? `: "${step.actionValue}"` : ''}
+                    </Text>
+                    {idx < rule.actionSteps!.length - 1 && (
+                      <Text style={styles.metaText}>{step.onFailure === 'continue' ? 'continue on failure' : 'stop on failure'}</Text>
+                    )}
+                  </View>
+                );
+              })
+            ) : (
+              <>
+                <View style={styles.actionRow}>
+                  <ActionIcon size={14} color={actionColor} />
+                  <Text style={[styles.actionText, { color: actionColor }]}> 
+                    {ACTION_LABELS[rule.action] || rule.action}
+                    {rule.actionValue ? `: "${rule.actionValue}"` : ''}
                   </Text>
-                </TouchableOpacity>
-              ))}
-            </ScrollView>
+                </View>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.inlinePickerScroll}>
+                  {ALL_ACTIONS.map((action) => (
+                    <TouchableOpacity
+                      key={action}
+                      style={[styles.inlinePickerBtn, rule.action === action && styles.inlinePickerBtnActive]}
+                      onPress={() => { if (action !== rule.action) onUpdateRule(rule.id, { action, actionValue: undefined }); }}
+                    >
+                      <Text style={[styles.inlinePickerText, rule.action === action && styles.inlinePickerTextActive]}>
+                        {ACTION_LABELS[action]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+                {PARAMETER_ACTIONS.has(rule.action) && (
+                  <TextInput
+                    style={[styles.nameInput, styles.triggerValueInput]}
+                    value={actionValueInput}
+                    onChangeText={setActionValueInput}
+                    onBlur={handleActionValueSave}
+                    onSubmitEditing={handleActionValueSave}
+                    placeholder={ACTION_VALUE_PLACEHOLDERS[rule.action]}
+                    placeholderTextColor={Colors.textTertiary}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType={rule.action === 'call_webhook' ? 'url' : 'default'}
+                    returnKeyType="done"
+                  />
+                )}
+              </>
+            )}
           </View>
 
           <View style={styles.scopeSection}>
@@ -268,7 +466,50 @@ const RuleCard = React.memo(function RuleCard({
             </ScrollView>
           </View>
 
-          {rule.checkIntervalMinutes > 0 && (
+          <View style={styles.scopeSection}>
+            <Text style={styles.sectionLabel}>TRIGGER</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.inlinePickerScroll}>
+              {ALL_TRIGGERS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.inlinePickerBtn, trigger === option && styles.inlinePickerBtnActive]}
+                  onPress={() => onUpdateRule(rule.id, { trigger: option })}
+                >
+                  <Text style={[styles.inlinePickerText, trigger === option && styles.inlinePickerTextActive]}>
+                    {TRIGGER_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            {TRIGGER_VALUE_PLACEHOLDERS[trigger] && (
+              <TextInput
+                style={[styles.nameInput, styles.triggerValueInput]}
+                value={triggerValueInput}
+                onChangeText={setTriggerValueInput}
+                onBlur={handleTriggerValueSave}
+                onSubmitEditing={handleTriggerValueSave}
+                placeholder={TRIGGER_VALUE_PLACEHOLDERS[trigger]}
+                placeholderTextColor={Colors.textTertiary}
+                autoCapitalize="none"
+                returnKeyType="done"
+              />
+            )}
+          </View>
+
+          {rule.schedule && (
+            <View style={styles.scopeSection}>
+              <Text style={styles.sectionLabel}>SCHEDULE</Text>
+              <View style={styles.metaRow}>
+                <Calendar size={12} color={Colors.textTertiary} />
+                <Text style={[styles.conditionTreeText, styles.flexOne]}>{describeSchedule(rule.schedule)}</Text>
+                <TouchableOpacity onPress={() => onUpdateRule(rule.id, { schedule: undefined })} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Text style={styles.metaLink}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {!isEventTrigger(trigger) && rule.schedule?.kind !== 'cron' && rule.checkIntervalMinutes > 0 && (
             <View style={styles.intervalSection}>
               <Text style={styles.sectionLabel}>CHECK INTERVAL</Text>
               <View style={styles.intervalRow}>
@@ -289,12 +530,59 @@ const RuleCard = React.memo(function RuleCard({
             </View>
           )}
 
+          <View style={styles.intervalSection}>
+            <Text style={styles.sectionLabel}>LIMITS</Text>
+            <LimitInput
+              label="Max per run"
+              unit="items"
+              value={limitInputs.maxItemsPerRun}
+              placeholder={limitPlaceholders.maxItemsPerRun}
+              onChangeText={text => setLimitInputs(prev => ({ ...prev, maxItemsPerRun: text }))}
+              onCommit={() => handleLimitSave('maxItemsPerRun')}
+            />
+            <LimitInput
+              label="Max per day"
+              unit="items"
+              value={limitInputs.maxItemsPerDay}
+              placeholder={limitPlaceholders.maxItemsPerDay}
+              onChangeText={text => setLimitInputs(prev => ({ ...prev, maxItemsPerDay: text }))}
+              onCommit={() => handleLimitSave('maxItemsPerDay')}
+            />
+            {rule.isDangerous && (
+              <LimitInput
+                label="Undo window"
+                unit="min"
+                value={limitInputs.undoWindowMinutes}
+                placeholder={limitPlaceholders.undoWindowMinutes}
+                onChangeText={text => setLimitInputs(prev => ({ ...prev, undoWindowMinutes: text }))}
+                onCommit={() => handleLimitSave('undoWindowMinutes')}
+              />
+            )}
+            <Text style={styles.metaText}>
+              {itemsToday} item{itemsToday === 1 ? '' : 's'} today. A run that would go over a limit turns the rule off instead of acting.
+            </Text>
+          </View>
+
           <View style={styles.metaSection}>
             <Text style={styles.metaText}>Last run: {lastRunText}</Text>
+            <Text style={styles.metaText}>Next run: {nextRunText}</Text>
             {rule.lastResult && (
               <Text style={styles.metaText} numberOfLines={2}>{rule.lastResult}</Text>
             )}
+            {rule.lastStepResults && rule.lastStepResults.length > 1 && describeStepResults(rule.lastStepResults).map(line => (
+              <Text key={line} style={styles.metaText}>{line}</Text>
+            ))}
             <Text style={styles.metaText}>Runs: {rule.runCount}</Text>
+            <View style={styles.metaRow}>
+              <Text style={styles.metaText}>
+                Already acted on {actedCount} item{actedCount === 1 ? '' : 's'} (skipped on later runs)
+              </Text>
+              {actedCount > 0 && (
+                <TouchableOpacity onPress={() => onResetHistory(rule.id)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Text style={styles.metaLink}>Reset</Text>
+                </TouchableOpacity>
+              )}
+            </View>
           </View>
 
           <View style={styles.ruleActions}>
@@ -305,6 +593,14 @@ const RuleCard = React.memo(function RuleCard({
               <Play size={13} color={Colors.text} />
               <Text style={styles.ruleActionBtnText}>Run Now</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.ruleActionBtn}
+              onPress={() => onPreview(rule.id)}
+              disabled={isPreviewing}
+            >
+              {isPreviewing ? <ActivityIndicator size="small" color={Colors.text} /> : <Eye size={13} color={Colors.text} />}
+              <Text style={styles.ruleActionBtnText}>Preview</Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={[styles.ruleActionBtn, styles.deleteBtn]}
               onPress={handleDelete}
@@ -319,6 +615,370 @@ const RuleCard = React.memo(function RuleCard({
   );
 });
 
+function RulePreviewModal({ preview, onClose }: { preview: RulePreview | null; onClose: () => void }) {
+  const insets = useSafeAreaInsets();
+  return (
+    <Modal visible={!!preview} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.previewOverlay}>
+        <View style={[styles.previewSheet, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.presetsTitleRow}>
+            <Text style={styles.presetsSectionTitle} numberOfLines={1}>Preview: {preview?.ruleName}</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
+              <X size={18} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          {preview && (
+            <>
+              <Text style={styles.previewSummary}>
+                Would act on {preview.matches.filter(m => !m.alreadyActed).length} of {preview.scannedCount} downloads in scope. Nothing has been changed.
+              </Text>
+              {preview.note && <Text style={styles.previewNote}>{preview.note}</Text>}
+              <ScrollView style={styles.previewList}>
+                {preview.matches.length === 0 && (
+                  <Text style={styles.noCondText}>No downloads match this rule right now.</Text>
+                )}
+                {preview.matches.map(match => (
+                  <View key={`${match.source}:${match.sourceId}`} style={[styles.previewItem, match.alreadyActed && styles.previewItemSkipped]}>
+                    <Text style={styles.previewItemName} numberOfLines={2}>{match.name}</Text>
+                    <Text style={styles.metaText}>
+                      {match.source}{match.alreadyActed ? ' \u00B7 already processed, will be skipped' : ''}
+                    </Text>
+                    {match.conditions.map((cond, idx) => (
+                      <View key={idx} style={styles.conditionRow}>
+                        <Text style={styles.conditionField}>{CONDITION_FIELD_LABELS[cond.field] || cond.field}</Text>
+                        <Text style={styles.conditionValue}>{typeof cond.actual === 'number' ? String(Number(cond.actual.toFixed(2))) : cond.actual || '\u2014'}</Text>
+                        <Text style={styles.conditionOperator}>{OPERATOR_LABELS[cond.operator] || cond.operator}</Text>
+                        <Text style={styles.conditionValue}>{cond.expected}</Text>
+                      </View>
+                    ))}
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+type ImportConflictStrategy = 'skip' | 'replace' | 'keep_both';
+
+const CONFLICT_LABELS: Record<ImportConflictStrategy, string> = { skip: 'Skip', replace: 'Replace', keep_both: 'Keep both' };
+
+function RulesExportModal({ visible, rules, onClose }: { visible: boolean; rules: TorBoxRule[]; onClose: () => void }) {
+  const insets = useSafeAreaInsets();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const wasVisibleRef = useRef<boolean>(false);
+
+  // Select everything each time the modal opens, but keep the user's picks while rules refresh underneath it.
+  React.useEffect(() => {
+    if (visible && !wasVisibleRef.current) setSelectedIds(new Set(rules.map(r => r.id)));
+    wasVisibleRef.current = visible;
+  }, [visible, rules]);
+
+  const selected = rules.filter(r => selectedIds.has(r.id));
+  const toggle = (ruleId: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(ruleId)) next.delete(ruleId);
+    else next.add(ruleId);
+    return next;
+  });
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(serializeRulesExport(selected));
+      Alert.alert('Copied', `${selected.length} rule${selected.length === 1 ? '' : 's'} copied to clipboard.`);
+    } catch {
+      Alert.alert('Copy Failed', 'Clipboard access was blocked. Use Save File instead.');
+    }
+  }, [selected]);
+
+  const handleShare = useCallback(async () => {
+    await Share.share({ message: serializeRulesExport(selected), title: 'TorDeck automation rules' });
+  }, [selected]);
+
+  const handleSaveFile = useCallback(async () => {
+    try {
+      const location = await saveRulesExportFile(serializeRulesExport(selected));
+      if (Platform.OS === 'web') Alert.alert('Exported', `Saved ${location}.`);
+    } catch (err) {
+      Alert.alert('Export Failed', err instanceof Error ? err.message : 'Could not save the export file.');
+    }
+  }, [selected]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.previewOverlay}>
+        <View style={[styles.previewSheet, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.presetsTitleRow}>
+            <Text style={styles.presetsSectionTitle}>Export Rules</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
+              <X size={18} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.metaRow}>
+            <Text style={styles.previewSummary}>{selected.length} of {rules.length} selected</Text>
+            <TouchableOpacity onPress={() => setSelectedIds(selected.length === rules.length ? new Set() : new Set(rules.map(r => r.id)))}>
+              <Text style={styles.metaLink}>{selected.length === rules.length ? 'Select none' : 'Select all'}</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.previewList}>
+            {rules.map(rule => {
+              const isSelected = selectedIds.has(rule.id);
+              return (
+                <TouchableOpacity key={rule.id} style={styles.transferRow} onPress={() => toggle(rule.id)}>
+                  {isSelected ? <CheckSquare size={16} color={Colors.primary} /> : <Square size={16} color={Colors.textTertiary} />}
+                  <Text style={[styles.previewItemName, styles.flexOne]} numberOfLines={1}>{rule.name}</Text>
+                  {rule.isDangerous && <AlertTriangle size={12} color={Colors.danger} />}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <Text style={styles.noCondText}>Exports contain rule definitions only. Run history and on/off state stay on this device.</Text>
+          <View style={styles.ruleActions}>
+            {Platform.OS === 'web' ? (
+              <TouchableOpacity style={styles.ruleActionBtn} onPress={handleCopy} disabled={!selected.length}>
+                <Copy size={13} color={Colors.text} />
+                <Text style={styles.ruleActionBtnText}>Copy</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.ruleActionBtn} onPress={handleShare} disabled={!selected.length}>
+                <Share2 size={13} color={Colors.text} />
+                <Text style={styles.ruleActionBtnText}>Share</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.ruleActionBtn} onPress={handleSaveFile} disabled={!selected.length}>
+              <FileText size={13} color={Colors.text} />
+              <Text style={styles.ruleActionBtnText}>Save File</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function RulesImportModal({ visible, existingRules, onImport, onClose }: {
+  visible: boolean;
+  existingRules: TorBoxRule[];
+  onImport: (rules: PortableRule[], conflict: ImportConflictStrategy) => Promise<{ added: number; replaced: number; skipped: number } | null>;
+  onClose: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+  const [text, setText] = useState<string>('');
+  const [conflict, setConflict] = useState<ImportConflictStrategy>('skip');
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+
+  React.useEffect(() => {
+    if (visible) {
+      setText('');
+      setConflict('skip');
+    }
+  }, [visible]);
+
+  const parsed = React.useMemo(() => {
+    if (!text.trim()) return null;
+    try {
+      return { ...parseRulesImport(text), documentError: null };
+    } catch (err) {
+      return { rules: [], errors: [], documentError: err instanceof Error ? err.message : 'Invalid export.' };
+    }
+  }, [text]);
+
+  const conflictCount = React.useMemo(() => {
+    const names = new Set(existingRules.map(r => r.name.trim().toLowerCase()));
+    return (parsed?.rules ?? []).filter(r => names.has(r.name.trim().toLowerCase())).length;
+  }, [parsed, existingRules]);
+
+  const handlePickFile = useCallback(async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: Platform.OS === 'web' ? '.json,application/json' : '*/*',
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+    const asset = result.assets[0];
+    try {
+      const bytes = await readUploadFileBytes({ uri: asset.uri, name: asset.name, mimeType: asset.mimeType ?? null, size: asset.size ?? null, webFile: asset.file });
+      setText(decodeUploadText(bytes));
+    } catch (err) {
+      Alert.alert('Import Failed', err instanceof Error ? err.message : 'Could not read the selected file.');
+    }
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!parsed?.rules.length) return;
+    setIsImporting(true);
+    try {
+      const result = await onImport(parsed.rules, conflict);
+      if (!result) return;
+      const parts = [`${result.added} added`];
+      if (result.replaced) parts.push(`${result.replaced} replaced`);
+      if (result.skipped) parts.push(`${result.skipped} skipped`);
+      Alert.alert('Rules Imported', `${parts.join(', ')}. Imported rules are disabled until you review and enable them.`);
+      onClose();
+    } finally {
+      setIsImporting(false);
+    }
+  }, [parsed, conflict, onImport, onClose]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.previewOverlay}>
+        <View style={[styles.previewSheet, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.presetsTitleRow}>
+            <Text style={styles.presetsSectionTitle}>Import Rules</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
+              <X size={18} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            style={[styles.builderInput, styles.transferInput]}
+            value={text}
+            onChangeText={setText}
+            placeholder="Paste an exported rules JSON document"
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          <TouchableOpacity style={styles.addCondBtn} onPress={handlePickFile}>
+            <FileText size={12} color={Colors.primary} />
+            <Text style={styles.addCondBtnText}>Choose File</Text>
+          </TouchableOpacity>
+
+          {parsed?.documentError && <Text style={styles.condErrorText}>{parsed.documentError}</Text>}
+          {parsed && !parsed.documentError && (
+            <ScrollView style={styles.previewList}>
+              <Text style={styles.previewSummary}>
+                {parsed.rules.length} rule{parsed.rules.length === 1 ? '' : 's'} ready to import
+                {parsed.errors.length ? ` \u00B7 ${parsed.errors.length} invalid (will be left out)` : ''}
+              </Text>
+              {parsed.errors.map(error => (
+                <Text key={error} style={styles.condErrorText}>{error}</Text>
+              ))}
+              {parsed.rules.map((rule, idx) => (
+                <View key={idx} style={styles.transferRow}>
+                  <Text style={[styles.previewItemName, styles.flexOne]} numberOfLines={1}>{rule.name}</Text>
+                  {rule.isDangerous && <AlertTriangle size={12} color={Colors.danger} />}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          {conflictCount > 0 && (
+            <View style={styles.builderField}>
+              <Text style={styles.previewNote}>
+                {conflictCount} rule{conflictCount === 1 ? ' has' : 's have'} the same name as an existing rule.
+              </Text>
+              <View style={styles.scopeRow}>
+                {(Object.keys(CONFLICT_LABELS) as ImportConflictStrategy[]).map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.scopeBtn, conflict === option && styles.scopeBtnActive]}
+                    onPress={() => setConflict(option)}
+                  >
+                    <Text style={[styles.scopeBtnText, conflict === option && styles.scopeBtnTextActive]}>{CONFLICT_LABELS[option]}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.builderSaveBtn, (!parsed?.rules.length || isImporting) && styles.transferBtnDisabled]}
+            onPress={handleImport}
+            disabled={!parsed?.rules.length || isImporting}
+          >
+            {isImporting ? <ActivityIndicator size="small" color={Colors.text} /> : <Download size={14} color={Colors.text} />}
+            <Text style={styles.builderSaveText}>Import as Disabled</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const ActivityRow = React.memo(function ActivityRow({ execution }: { execution: TorBoxRuleExecution }) {
+  const ActionIcon = ACTION_ICONS[execution.action] || Settings;
+  const isFailed = execution.outcome === 'failed';
+  const color = isFailed ? Colors.danger : execution.outcome === 'undone' ? Colors.textSecondary : getActionColor(execution.action);
+  const verb = isFailed ? ' failed on '
+    : execution.outcome === 'queued' ? ' queued deletion of '
+      : execution.outcome === 'undone' ? ' deletion undone for '
+        : ` ${ACTION_PAST_LABELS[execution.action] ?? execution.action} `;
+  return (
+    <View style={styles.activityRow}>
+      <View style={[styles.activityIcon, { backgroundColor: color + '18' }]}>
+        <ActionIcon size={12} color={color} />
+      </View>
+      <View style={styles.activityBody}>
+        <Text style={styles.activityText} numberOfLines={2}>
+          <Text style={styles.activityRule}>{execution.ruleName}</Text>
+          {verb}
+          <Text style={styles.activityItem}>{execution.itemName}</Text>
+        </Text>
+        {isFailed && execution.message && (
+          <Text style={styles.activityError} numberOfLines={2}>{execution.message}</Text>
+        )}
+        <Text style={styles.activityTime}>{new Date(execution.executedAt).toLocaleString()}</Text>
+      </View>
+    </View>
+  );
+});
+
+function PendingDeletionsCard({ pending, onUndo }: { pending: TorBoxPendingDeletion[]; onUndo: (ids?: string[]) => void }) {
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <View style={styles.rulesSection}>
+      <View style={styles.rulesSectionHeader}>
+        <View style={styles.activityTitleRow}>
+          <Trash2 size={16} color={Colors.danger} />
+          <Text style={styles.rulesSectionTitle}>Pending Deletions</Text>
+        </View>
+        {pending.length > 1 && (
+          <TouchableOpacity style={styles.addBtn} onPress={() => onUndo()}>
+            <Undo2 size={12} color={Colors.primary} />
+            <Text style={styles.addBtnText}>Undo all</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={styles.activityCard}>
+        {pending.map(entry => {
+          const minutesLeft = Math.max(0, Math.ceil((new Date(entry.executeAt).getTime() - now) / 60_000));
+          return (
+            <View key={entry.id} style={styles.activityRow}>
+              <View style={[styles.activityIcon, { backgroundColor: Colors.danger + '18' }]}>
+                <Trash2 size={12} color={Colors.danger} />
+              </View>
+              <View style={styles.activityBody}>
+                <Text style={styles.activityText} numberOfLines={2}>
+                  <Text style={styles.activityItem}>{entry.itemName}</Text>
+                </Text>
+                <Text style={styles.activityTime}>
+                  {entry.ruleName} {'\u00B7'} {minutesLeft > 0 ? `deletes in ${minutesLeft} min` : 'deleting on the next check'}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.addBtn} onPress={() => onUndo([entry.id])}>
+                <Undo2 size={12} color={Colors.primary} />
+                <Text style={styles.addBtnText}>Undo</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </View>
+      <Text style={styles.metaText}>Undone items are not queued again by the same rule unless you reset its history.</Text>
+    </View>
+  );
+}
+
 interface PresetCardProps {
   preset: TorBoxRulePreset;
   onAdd: (id: string) => void;
@@ -354,7 +1014,9 @@ const PresetCard = React.memo(function PresetCard({ preset, onAdd }: PresetCardP
             <Text style={styles.presetInterval}>Every {preset.checkIntervalMinutes}m</Text>
           )}
           {preset.checkIntervalMinutes === 0 && (
-            <Text style={styles.presetInterval}>Event-driven</Text>
+            <Text style={styles.presetInterval}>
+              {isEventTrigger(preset.trigger) ? `${TRIGGER_LABELS[preset.trigger!]}${preset.triggerValue ? ` ${preset.triggerValue}` : ''}` : 'Event-driven'}
+            </Text>
           )}
           {preset.isDangerous && (
             <View style={styles.dangerBadge}>
@@ -376,27 +1038,304 @@ const PresetCard = React.memo(function PresetCard({ preset, onAdd }: PresetCardP
   );
 });
 
+const OPERATOR_VALUE_PLACEHOLDERS: Partial<Record<string, string>> = {
+  matches_regex: 'e.g. /S\\d{2}E\\d{2}/i',
+  in_list: 'e.g. [tracker-a, tracker-b]',
+};
+
+const createEmptyGroup = (): TorBoxRuleConditionGroup => ({ kind: 'group', logic: 'and', children: [] });
+const createEmptyLeaf = (): TorBoxRuleConditionLeaf => ({ kind: 'condition', field: 'progress', operator: 'equals', value: '' });
+const createEmptyStep = (): TorBoxRuleActionStep => ({ action: 'notify_user', onFailure: 'stop' });
+
+function ConditionLeafEditor({ condition, onChange, onRemove }: {
+  condition: TorBoxRuleConditionLeaf;
+  onChange: (next: TorBoxRuleConditionLeaf) => void;
+  onRemove: () => void;
+}) {
+  const [showFieldPicker, setShowFieldPicker] = useState<boolean>(false);
+  const valueError = validateConditionValue(condition);
+
+  return (
+    <View style={styles.condBuilder}>
+      <View style={styles.condHeaderRow}>
+        <TouchableOpacity
+          style={[styles.notChip, condition.negate && styles.notChipActive]}
+          onPress={() => onChange({ ...condition, negate: !condition.negate })}
+        >
+          <Text style={[styles.notChipText, condition.negate && styles.notChipTextActive]}>NOT</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.condFieldBtn, styles.flexOne]}
+          onPress={() => setShowFieldPicker(!showFieldPicker)}
+        >
+          <Text style={styles.condFieldBtnText} numberOfLines={1}>
+            {CONDITION_FIELD_LABELS[condition.field] || condition.field}
+          </Text>
+          <ChevronDown size={12} color={Colors.textTertiary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.opRow}>
+        {OPERATORS.map(op => (
+          <TouchableOpacity
+            key={op}
+            style={[styles.opBtn, condition.operator === op && styles.opBtnActive]}
+            onPress={() => onChange({ ...condition, operator: op })}
+          >
+            <Text style={[styles.opBtnText, condition.operator === op && styles.opBtnTextActive]}>
+              {OPERATOR_LABELS[op]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.condValueRow}>
+        <TextInput
+          style={styles.condValueInput}
+          value={condition.value}
+          onChangeText={(v) => onChange({ ...condition, value: v })}
+          placeholder={OPERATOR_VALUE_PLACEHOLDERS[condition.operator] ?? 'Value'}
+          placeholderTextColor={Colors.textTertiary}
+          keyboardType="default"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity style={styles.condRemoveBtn} onPress={onRemove}>
+          <X size={14} color={Colors.danger} />
+        </TouchableOpacity>
+      </View>
+      {valueError && <Text style={styles.condErrorText}>{valueError}</Text>}
+
+      {showFieldPicker && (
+        <ScrollView style={styles.fieldPickerList} nestedScrollEnabled>
+          {CONDITION_FIELDS.map(f => (
+            <TouchableOpacity
+              key={f}
+              style={[styles.fieldPickerItem, condition.field === f && styles.fieldPickerItemActive]}
+              onPress={() => {
+                onChange({ ...condition, field: f });
+                setShowFieldPicker(false);
+              }}
+            >
+              <Text style={[styles.fieldPickerText, condition.field === f && styles.fieldPickerTextActive]}>
+                {CONDITION_FIELD_LABELS[f]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+function ConditionGroupEditor({ group, depth, onChange, onRemove }: {
+  group: TorBoxRuleConditionGroup;
+  depth: number;
+  onChange: (next: TorBoxRuleConditionGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateChild = (idx: number, next: TorBoxRuleConditionNode) => {
+    onChange({ ...group, children: group.children.map((c, i) => (i === idx ? next : c)) });
+  };
+  const removeChild = (idx: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== idx) });
+  };
+
+  return (
+    <View style={[styles.condGroup, depth > 1 && styles.condGroupNested]}>
+      <View style={styles.condHeaderRow}>
+        <TouchableOpacity
+          style={[styles.notChip, group.negate && styles.notChipActive]}
+          onPress={() => onChange({ ...group, negate: !group.negate })}
+        >
+          <Text style={[styles.notChipText, group.negate && styles.notChipTextActive]}>NOT</Text>
+        </TouchableOpacity>
+        {(['and', 'or'] as const).map(logic => (
+          <TouchableOpacity
+            key={logic}
+            style={[styles.opBtn, group.logic === logic && styles.opBtnActive]}
+            onPress={() => onChange({ ...group, logic })}
+          >
+            <Text style={[styles.opBtnText, group.logic === logic && styles.opBtnTextActive]}>
+              {logic === 'and' ? 'ALL of (AND)' : 'ANY of (OR)'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <View style={styles.flexOne} />
+        {onRemove && (
+          <TouchableOpacity style={styles.condRemoveBtn} onPress={onRemove}>
+            <X size={14} color={Colors.danger} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {group.children.length === 0 && (
+        <Text style={styles.noCondText}>
+          {depth === 1 ? 'No conditions (runs on all matching items)' : 'Empty group (ignored)'}
+        </Text>
+      )}
+      {group.children.map((child, idx) => (
+        child.kind === 'group' ? (
+          <ConditionGroupEditor
+            key={idx}
+            group={child}
+            depth={depth + 1}
+            onChange={(next) => updateChild(idx, next)}
+            onRemove={() => removeChild(idx)}
+          />
+        ) : (
+          <ConditionLeafEditor
+            key={idx}
+            condition={child}
+            onChange={(next) => updateChild(idx, next)}
+            onRemove={() => removeChild(idx)}
+          />
+        )
+      ))}
+
+      <View style={styles.condHeaderRow}>
+        <TouchableOpacity
+          style={styles.addCondBtn}
+          onPress={() => onChange({ ...group, children: [...group.children, createEmptyLeaf()] })}
+        >
+          <Plus size={12} color={Colors.primary} />
+          <Text style={styles.addCondBtnText}>Condition</Text>
+        </TouchableOpacity>
+        {depth < MAX_CONDITION_DEPTH && (
+          <TouchableOpacity
+            style={styles.addCondBtn}
+            onPress={() => onChange({ ...group, children: [...group.children, createEmptyGroup()] })}
+          >
+            <Plus size={12} color={Colors.primary} />
+            <Text style={styles.addCondBtnText}>Group</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+function ActionStepEditor({ step, index, total, onChange, onRemove }: {
+  step: TorBoxRuleActionStep;
+  index: number;
+  total: number;
+  onChange: (next: TorBoxRuleActionStep) => void;
+  onRemove: () => void;
+}) {
+  const [showPicker, setShowPicker] = useState<boolean>(false);
+  const Icon = ACTION_ICONS[step.action] || Settings;
+  const color = getActionColor(step.action);
+  const valueError = step.actionValue?.trim() ? validateActionValue(step.action, step.actionValue) : null;
+
+  return (
+    <View style={[styles.condGroup, total > 1 && styles.condGroupNested]}>
+      {total > 1 && (
+        <View style={styles.condHeaderRow}>
+          <Text style={styles.actionStepIndex}>STEP {index + 1}</Text>
+          {index < total - 1 && (['stop', 'continue'] as const).map(policy => (
+            <TouchableOpacity
+              key={policy}
+              style={[styles.opBtn, step.onFailure === policy && styles.opBtnActive]}
+              onPress={() => onChange({ ...step, onFailure: policy })}
+            >
+              <Text style={[styles.opBtnText, step.onFailure === policy && styles.opBtnTextActive]}>
+                {policy === 'stop' ? 'Stop on failure' : 'Continue on failure'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.flexOne} />
+          <TouchableOpacity style={styles.condRemoveBtn} onPress={onRemove}>
+            <X size={14} color={Colors.danger} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={styles.actionPickerBtn}
+        onPress={() => setShowPicker(!showPicker)}
+      >
+        <View style={styles.actionPickerRow}>
+          <View style={[styles.actionIconCircle, { backgroundColor: color + '18' }]}>
+            <Icon size={14} color={color} />
+          </View>
+          <Text style={[styles.actionPickerText, { color }]}>
+            {ACTION_LABELS[step.action]}
+          </Text>
+        </View>
+        <ChevronDown size={14} color={Colors.textTertiary} />
+      </TouchableOpacity>
+
+      {showPicker && (
+        <View style={styles.actionPickerList}>
+          {ALL_ACTIONS.map(a => {
+            const OptionIcon = ACTION_ICONS[a] || Settings;
+            const optionColor = getActionColor(a);
+            return (
+              <TouchableOpacity
+                key={a}
+                style={[styles.actionPickerItem, step.action === a && styles.actionPickerItemActive]}
+                onPress={() => { onChange(a === step.action ? step : { ...step, action: a, actionValue: undefined }); setShowPicker(false); }}
+              >
+                <OptionIcon size={14} color={optionColor} />
+                <Text style={[styles.actionPickerItemText, { color: step.action === a ? optionColor : Colors.text }]}>
+                  {ACTION_LABELS[a]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {PARAMETER_ACTIONS.has(step.action) && (
+        <TextInput
+          style={[styles.builderInput, styles.triggerValueInput]}
+          value={step.actionValue ?? ''}
+          onChangeText={(text) => onChange({ ...step, actionValue: text })}
+          placeholder={ACTION_VALUE_PLACEHOLDERS[step.action]}
+          placeholderTextColor={Colors.textTertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType={step.action === 'call_webhook' ? 'url' : 'default'}
+        />
+      )}
+      {valueError && <Text style={styles.condErrorText}>{valueError}</Text>}
+    </View>
+  );
+}
+
 function CustomRuleBuilder({ onSave, onCancel }: { onSave: () => void; onCancel: () => void }) {
   const { createCustomRule } = useAutomations();
   const [name, setName] = useState<string>('');
   const [interval, setInterval] = useState<string>('10');
   const [scope, setScope] = useState<TorBoxRuleScope>('all');
-  const [conditions, setConditions] = useState<TorBoxRuleCondition[]>([]);
-  const [action, setAction] = useState<TorBoxRuleAction>('notify_user');
-  const [showFieldPicker, setShowFieldPicker] = useState<boolean>(false);
-  const [showActionPicker, setShowActionPicker] = useState<boolean>(false);
-
-  const addCondition = useCallback(() => {
-    setConditions(prev => [...prev, { field: 'progress', operator: 'equals', value: '' }]);
-  }, []);
-
-  const removeCondition = useCallback((idx: number) => {
-    setConditions(prev => prev.filter((_, i) => i !== idx));
-  }, []);
-
-  const updateCondition = useCallback((idx: number, updates: Partial<TorBoxRuleCondition>) => {
-    setConditions(prev => prev.map((c, i) => i === idx ? { ...c, ...updates } : c));
-  }, []);
+  const [conditionTree, setConditionTree] = useState<TorBoxRuleConditionGroup>(createEmptyGroup);
+  const [steps, setSteps] = useState<TorBoxRuleActionStep[]>([createEmptyStep()]);
+  const [trigger, setTrigger] = useState<TorBoxRuleTrigger>('interval');
+  const [triggerValue, setTriggerValue] = useState<string>('');
+  const [scheduleKind, setScheduleKind] = useState<'none' | TorBoxRuleSchedule['kind']>('none');
+  const [windowDays, setWindowDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
+  const [windowStart, setWindowStart] = useState<string>('18:00');
+  const [windowEnd, setWindowEnd] = useState<string>('23:00');
+  const [cronExpression, setCronExpression] = useState<string>('0 3 * * 0');
+  const [timezone, setTimezone] = useState<string>('');
+  const [limitInputs, setLimitInputs] = useState<Record<RuleLimitKey, string>>({ maxItemsPerRun: '', maxItemsPerDay: '', undoWindowMinutes: '' });
+  const deletesItems = steps.some(step => step.action === 'delete_download');
+
+  const schedule = React.useMemo((): TorBoxRuleSchedule | undefined => {
+    if (scheduleKind === 'none') return undefined;
+    const zone = timezone.trim() || undefined;
+    return scheduleKind === 'cron'
+      ? { kind: 'cron', cron: cronExpression.trim(), timezone: zone }
+      : { kind: 'window', days: windowDays, start: windowStart.trim(), end: windowEnd.trim(), timezone: zone };
+  }, [scheduleKind, cronExpression, windowDays, windowStart, windowEnd, timezone]);
+
+  const schedulePreview = React.useMemo(() => {
+    if (!schedule) return null;
+    const error = validateSchedule(schedule);
+    if (error) return { error, text: null };
+    const next = getNextScheduleMatch(schedule, Date.now());
+    return { error: null, text: next ? `${schedule.kind === 'cron' ? 'Next run' : 'Window next open'}: ${new Date(next).toLocaleString()}` : null };
+  }, [schedule]);
 
   const handleSave = useCallback(async () => {
     if (!name.trim()) {
@@ -404,21 +1343,40 @@ function CustomRuleBuilder({ onSave, onCancel }: { onSave: () => void; onCancel:
       return;
     }
     const parsedInterval = parseInt(interval, 10);
-    if (isNaN(parsedInterval) || parsedInterval < 1) {
+    if (!isEventTrigger(trigger) && scheduleKind !== 'cron' && (isNaN(parsedInterval) || parsedInterval < 1)) {
       Alert.alert('Invalid Interval', 'Interval must be at least 1 minute.');
       return;
     }
 
-    await createCustomRule({
-      name: name.trim(),
-      checkIntervalMinutes: parsedInterval,
-      conditions,
-      action,
-      scope,
-    });
+    // Plain AND lists are stored in the legacy flat form; anything richer keeps the tree.
+    const isFlat = conditionTree.logic === 'and' && !conditionTree.negate
+      && conditionTree.children.every(child => child.kind === 'condition' && !child.negate);
+    const leaves = flattenConditionTree(conditionTree).map(({ field, operator, value }) => ({ field, operator, value }));
+
+    try {
+      await createCustomRule({
+        name: name.trim(),
+        checkIntervalMinutes: isEventTrigger(trigger) || scheduleKind === 'cron' ? 1 : parsedInterval,
+        conditions: isFlat ? leaves : [],
+        conditionTree: isFlat ? undefined : conditionTree,
+        action: steps[0].action,
+        actionValue: steps[0].actionValue,
+        actionSteps: steps,
+        scope,
+        trigger,
+        triggerValue,
+        schedule,
+        maxItemsPerRun: parseLimitInput(limitInputs.maxItemsPerRun),
+        maxItemsPerDay: parseLimitInput(limitInputs.maxItemsPerDay),
+        undoWindowMinutes: deletesItems ? parseLimitInput(limitInputs.undoWindowMinutes) : undefined,
+      });
+    } catch (err) {
+      Alert.alert('Invalid Rule', err instanceof Error ? err.message : 'Could not save rule.');
+      return;
+    }
 
     onSave();
-  }, [name, interval, conditions, action, scope, createCustomRule, onSave]);
+  }, [name, interval, conditionTree, steps, scope, trigger, triggerValue, schedule, scheduleKind, limitInputs, deletesItems, createCustomRule, onSave]);
 
   const scopes: TorBoxRuleScope[] = ['all', 'torrent', 'usenet', 'web'];
 
@@ -456,136 +1414,178 @@ function CustomRuleBuilder({ onSave, onCancel }: { onSave: () => void; onCancel:
       </View>
 
       <View style={styles.builderField}>
-        <View style={styles.builderFieldHeader}>
-          <Text style={styles.builderLabel}>CONDITIONS</Text>
-          <TouchableOpacity style={styles.addCondBtn} onPress={addCondition}>
-            <Plus size={12} color={Colors.primary} />
-            <Text style={styles.addCondBtnText}>Add</Text>
-          </TouchableOpacity>
-        </View>
-        {conditions.length === 0 && (
-          <Text style={styles.noCondText}>No conditions (runs on all matching items)</Text>
+        <Text style={styles.builderLabel}>CONDITIONS</Text>
+        <ConditionGroupEditor group={conditionTree} depth={1} onChange={setConditionTree} />
+        {conditionTree.children.length > 0 && (
+          <Text style={styles.conditionTreeText}>{describeConditionNode(conditionTree)}</Text>
+        )}
+      </View>
+
+      <View style={styles.builderField}>
+        <Text style={styles.builderLabel}>{steps.length > 1 ? 'ACTIONS (run in order)' : 'ACTION'}</Text>
+        {steps.map((step, idx) => (
+          <ActionStepEditor
+            key={idx}
+            step={step}
+            index={idx}
+            total={steps.length}
+            onChange={(next) => setSteps(prev => prev.map((current, i) => (i === idx ? next : current)))}
+            onRemove={() => setSteps(prev => prev.filter((_, i) => i !== idx))}
+          />
+        ))}
+        {steps.length < MAX_ACTION_STEPS && (
+          <View style={styles.condHeaderRow}>
+            <TouchableOpacity style={styles.addCondBtn} onPress={() => setSteps(prev => [...prev, createEmptyStep()])}>
+              <Plus size={12} color={Colors.primary} />
+              <Text style={styles.addCondBtnText}>Then…</Text>
+            </TouchableOpacity>
+          </View>
         )}
-        {conditions.map((cond, idx) => (
-          <View key={idx} style={styles.condBuilder}>
+      </View>
+
+      <View style={styles.builderField}>
+        <Text style={styles.builderLabel}>TRIGGER</Text>
+        <View style={[styles.scopeRow, styles.triggerRow]}>
+          {ALL_TRIGGERS.map(t => (
             <TouchableOpacity
-              style={styles.condFieldBtn}
-              onPress={() => setShowFieldPicker(showFieldPicker === false ? true : false)}
+              key={t}
+              style={[styles.scopeBtn, styles.triggerBtn, trigger === t && styles.scopeBtnActive]}
+              onPress={() => setTrigger(t)}
             >
-              <Text style={styles.condFieldBtnText} numberOfLines={1}>
-                {CONDITION_FIELD_LABELS[cond.field] || cond.field}
+              <Text style={[styles.scopeBtnText, trigger === t && styles.scopeBtnTextActive]}>
+                {TRIGGER_LABELS[t]}
               </Text>
-              <ChevronDown size={12} color={Colors.textTertiary} />
             </TouchableOpacity>
+          ))}
+        </View>
+        {TRIGGER_VALUE_PLACEHOLDERS[trigger] && (
+          <TextInput
+            style={[styles.builderInput, styles.triggerValueInput]}
+            value={triggerValue}
+            onChangeText={setTriggerValue}
+            placeholder={TRIGGER_VALUE_PLACEHOLDERS[trigger]}
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+            keyboardType={trigger === 'progress_crossed' ? 'numeric' : 'default'}
+          />
+        )}
+        {isEventTrigger(trigger) && (
+          <Text style={styles.noCondText}>Fires once per item when the change is seen between checks.</Text>
+        )}
+      </View>
 
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.opRow}>
-              {OPERATORS.map(op => (
-                <TouchableOpacity
-                  key={op}
-                  style={[styles.opBtn, cond.operator === op && styles.opBtnActive]}
-                  onPress={() => updateCondition(idx, { operator: op })}
-                >
-                  <Text style={[styles.opBtnText, cond.operator === op && styles.opBtnTextActive]}>
-                    {OPERATOR_LABELS[op]}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </ScrollView>
-
-            <View style={styles.condValueRow}>
+      <View style={styles.builderField}>
+        <Text style={styles.builderLabel}>SCHEDULE</Text>
+        <View style={styles.scopeRow}>
+          {(['none', 'window', 'cron'] as const).filter(kind => kind !== 'cron' || !isEventTrigger(trigger)).map(kind => (
+            <TouchableOpacity
+              key={kind}
+              style={[styles.scopeBtn, scheduleKind === kind && styles.scopeBtnActive]}
+              onPress={() => setScheduleKind(kind)}
+            >
+              <Text style={[styles.scopeBtnText, scheduleKind === kind && styles.scopeBtnTextActive]}>
+                {kind === 'none' ? 'Any time' : kind === 'window' ? 'Time window' : 'Cron'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {scheduleKind === 'window' && (
+          <>
+            <View style={styles.scopeRow}>
+              {WEEKDAY_LABELS.map((label, day) => {
+                const active = windowDays.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.scopeBtn, active && styles.scopeBtnActive]}
+                    onPress={() => setWindowDays(prev => (active ? prev.filter(d => d !== day) : [...prev, day]))}
+                  >
+                    <Text style={[styles.scopeBtnText, active && styles.scopeBtnTextActive]}>{label.slice(0, 2)}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.condHeaderRow}>
               <TextInput
-                style={styles.condValueInput}
-                value={cond.value}
-                onChangeText={(v) => updateCondition(idx, { value: v })}
-                placeholder="Value"
+                style={[styles.builderInput, styles.flexOne]}
+                value={windowStart}
+                onChangeText={setWindowStart}
+                placeholder="18:00"
                 placeholderTextColor={Colors.textTertiary}
-                keyboardType="default"
+                keyboardType="numbers-and-punctuation"
+              />
+              <Text style={styles.intervalLabel}>to</Text>
+              <TextInput
+                style={[styles.builderInput, styles.flexOne]}
+                value={windowEnd}
+                onChangeText={setWindowEnd}
+                placeholder="23:00"
+                placeholderTextColor={Colors.textTertiary}
+                keyboardType="numbers-and-punctuation"
               />
-              <TouchableOpacity style={styles.condRemoveBtn} onPress={() => removeCondition(idx)}>
-                <X size={14} color={Colors.danger} />
-              </TouchableOpacity>
             </View>
-
-            {showFieldPicker && (
-              <ScrollView style={styles.fieldPickerList} nestedScrollEnabled>
-                {CONDITION_FIELDS.map(f => (
-                  <TouchableOpacity
-                    key={f}
-                    style={[styles.fieldPickerItem, cond.field === f && styles.fieldPickerItemActive]}
-                    onPress={() => {
-                      updateCondition(idx, { field: f });
-                      setShowFieldPicker(false);
-                    }}
-                  >
-                    <Text style={[styles.fieldPickerText, cond.field === f && styles.fieldPickerTextActive]}>
-                      {CONDITION_FIELD_LABELS[f]}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </ScrollView>
-            )}
-          </View>
-        ))}
-      </View>
-
-      <View style={styles.builderField}>
-        <Text style={styles.builderLabel}>ACTION</Text>
-        <TouchableOpacity
-          style={styles.actionPickerBtn}
-          onPress={() => setShowActionPicker(!showActionPicker)}
-        >
-          <View style={styles.actionPickerRow}>
-            {(() => {
-              const Icon = ACTION_ICONS[action] || Settings;
-              const color = getActionColor(action);
-              return (
-                <>
-                  <View style={[styles.actionIconCircle, { backgroundColor: color + '18' }]}>
-                    <Icon size={14} color={color} />
-                  </View>
-                  <Text style={[styles.actionPickerText, { color }]}>
-                    {ACTION_LABELS[action]}
-                  </Text>
-                </>
-              );
-            })()}
-          </View>
-          <ChevronDown size={14} color={Colors.textTertiary} />
-        </TouchableOpacity>
-
-        {showActionPicker && (
-          <View style={styles.actionPickerList}>
-            {ALL_ACTIONS.map(a => {
-              const Icon = ACTION_ICONS[a] || Settings;
-              const color = getActionColor(a);
-              return (
-                <TouchableOpacity
-                  key={a}
-                  style={[styles.actionPickerItem, action === a && styles.actionPickerItemActive]}
-                  onPress={() => { setAction(a); setShowActionPicker(false); }}
-                >
-                  <Icon size={14} color={color} />
-                  <Text style={[styles.actionPickerItemText, { color: action === a ? color : Colors.text }]}>
-                    {ACTION_LABELS[a]}
-                  </Text>
-                </TouchableOpacity>
-              );
-            })}
-          </View>
+          </>
+        )}
+        {scheduleKind === 'cron' && (
+          <TextInput
+            style={styles.builderInput}
+            value={cronExpression}
+            onChangeText={setCronExpression}
+            placeholder="minute hour day month weekday, e.g. 0 3 * * SUN"
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        )}
+        {scheduleKind !== 'none' && (
+          <TextInput
+            style={styles.builderInput}
+            value={timezone}
+            onChangeText={setTimezone}
+            placeholder={`Timezone (default: ${getDeviceTimeZone()})`}
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        )}
+        {schedulePreview?.error && <Text style={styles.condErrorText}>{schedulePreview.error}</Text>}
+        {schedulePreview?.text && <Text style={styles.noCondText}>{schedulePreview.text}</Text>}
+        {scheduleKind === 'window' && (
+          <Text style={styles.noCondText}>The rule only runs while the window is open; overnight windows like 22:00–02:00 are allowed.</Text>
         )}
-
       </View>
 
+      {!isEventTrigger(trigger) && scheduleKind !== 'cron' && (
+        <View style={styles.builderField}>
+          <Text style={styles.builderLabel}>CHECK INTERVAL (minutes)</Text>
+          <TextInput
+            style={styles.builderInput}
+            value={interval}
+            onChangeText={setInterval}
+            keyboardType="number-pad"
+            placeholder="10"
+            placeholderTextColor={Colors.textTertiary}
+          />
+        </View>
+      )}
+
       <View style={styles.builderField}>
-        <Text style={styles.builderLabel}>CHECK INTERVAL (minutes)</Text>
-        <TextInput
-          style={styles.builderInput}
-          value={interval}
-          onChangeText={setInterval}
-          keyboardType="number-pad"
-          placeholder="10"
-          placeholderTextColor={Colors.textTertiary}
-        />
+        <Text style={styles.builderLabel}>LIMITS</Text>
+        {RULE_LIMIT_KEYS.filter(key => key !== 'undoWindowMinutes' || deletesItems).map(key => (
+          <LimitInput
+            key={key}
+            label={key === 'maxItemsPerRun' ? 'Max per run' : key === 'maxItemsPerDay' ? 'Max per day' : 'Undo window'}
+            unit={key === 'undoWindowMinutes' ? 'min' : 'items'}
+            value={limitInputs[key]}
+            placeholder={getLimitPlaceholders(deletesItems)[key]}
+            onChangeText={text => setLimitInputs(prev => ({ ...prev, [key]: text }))}
+          />
+        ))}
+        <Text style={styles.noCondText}>
+          {deletesItems
+            ? 'Deleting rules are capped by default, and deletions wait in an undo queue before they happen. Going over a limit turns the rule off.'
+            : 'Optional. Going over a limit turns the rule off instead of acting.'}
+        </Text>
       </View>
 
       <View style={styles.builderActions}>
@@ -613,10 +1613,45 @@ export default function AutomationsScreen() {
     deleteRule,
     runNow,
     enabledCount,
+    executions,
+    actedCountByRule,
+    clearRuleHistory,
+    clearExecutionHistory,
+    previewRule,
+    importRules,
+    pendingDeletions,
+    undoPendingDeletions,
   } = useAutomations();
+  const { settings, updateSettings } = useSettings();
 
   const [showPresets, setShowPresets] = useState<boolean>(false);
   const [showBuilder, setShowBuilder] = useState<boolean>(false);
+  const [activityLimit, setActivityLimit] = useState<number>(ACTIVITY_PAGE_SIZE);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [previewingRuleId, setPreviewingRuleId] = useState<string | null>(null);
+  const [transferMode, setTransferMode] = useState<'import' | 'export' | null>(null);
+
+  const handlePreview = useCallback(async (ruleId: string) => {
+    setPreviewingRuleId(ruleId);
+    try {
+      setPreview(await previewRule(ruleId));
+    } catch (err) {
+      Alert.alert('Preview Failed', err instanceof Error ? err.message : 'Could not evaluate this rule.');
+    } finally {
+      setPreviewingRuleId(null);
+    }
+  }, [previewRule]);
+
+  const handleResetHistory = useCallback((ruleId: string) => {
+    Alert.alert(
+      'Reset Rule History',
+      'This rule will be allowed to act again on items it already processed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => { void clearRuleHistory(ruleId); } },
+      ]
+    );
+  }, [clearRuleHistory]);
 
   const handleAddPreset = useCallback(async (presetId: string) => {
     await addRuleFromPreset(presetId as TorBoxRulePreset['id']);
@@ -629,7 +1664,7 @@ export default function AutomationsScreen() {
 
   const handleUpdateRule = useCallback(async (
     ruleId: string,
-    updates: Partial<Pick<TorBoxRule, 'name' | 'checkIntervalMinutes' | 'action' | 'scope'>>,
+    updates: Partial<Pick<TorBoxRule, 'name' | 'checkIntervalMinutes' | 'action' | 'actionValue' | 'scope' | 'trigger' | 'triggerValue' | 'schedule' | RuleLimitKey>>,
   ) => {
     await updateRule(ruleId, updates);
   }, [updateRule]);
@@ -674,6 +1709,22 @@ export default function AutomationsScreen() {
           </View>
         </View>
 
+        {settings.automationsPaused && (
+          <View style={[styles.noBanner, styles.killSwitchBanner]}>
+            <OctagonX size={14} color={Colors.danger} />
+            <Text style={[styles.noBannerText, { color: Colors.danger }]}>
+              Kill switch is on. No rules run and queued deletions are held.
+            </Text>
+            <TouchableOpacity onPress={() => { void updateSettings({ automationsPaused: false }); }} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Text style={styles.metaLink}>Resume</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {pendingDeletions.length > 0 && (
+          <PendingDeletionsCard pending={pendingDeletions} onUndo={(ids) => { void undoPendingDeletions(ids); }} />
+        )}
+
         {enabledCount === 0 && rules.length > 0 && (
           <View style={styles.noBanner}>
             <Shield size={14} color={Colors.textTertiary} />
@@ -706,6 +1757,10 @@ export default function AutomationsScreen() {
                 <Text style={[styles.emptyAddBtnText, { color: Colors.accent }]}>Build Custom</Text>
               </TouchableOpacity>
             </View>
+            <TouchableOpacity style={styles.addBtn} onPress={() => setTransferMode('import')}>
+              <Download size={12} color={Colors.primary} />
+              <Text style={styles.addBtnText}>Import rules from JSON</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -714,6 +1769,12 @@ export default function AutomationsScreen() {
             <View style={styles.rulesSectionHeader}>
               <Text style={styles.rulesSectionTitle}>Your Rules</Text>
               <View style={styles.headerBtns}>
+                <TouchableOpacity style={styles.addBtn} onPress={() => setTransferMode('import')}>
+                  <Download size={12} color={Colors.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.addBtn} onPress={() => setTransferMode('export')}>
+                  <Upload size={12} color={Colors.primary} />
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.addBtn}
                   onPress={() => { setShowBuilder(true); setShowPresets(false); }}
@@ -734,8 +1795,12 @@ export default function AutomationsScreen() {
               <RuleCard
                 key={rule.id}
                 rule={rule}
+                actedCount={actedCountByRule[rule.id] ?? 0}
+                onResetHistory={handleResetHistory}
                 onToggle={toggleRule}
                 onRunNow={runNow}
+                onPreview={handlePreview}
+                isPreviewing={previewingRuleId === rule.id}
                 onDelete={deleteRule}
                 onUpdateInterval={handleUpdateInterval}
                 onUpdateRule={handleUpdateRule}
@@ -744,6 +1809,30 @@ export default function AutomationsScreen() {
           </View>
         )}
 
+        {executions.length > 0 && (
+          <View style={styles.rulesSection}>
+            <View style={styles.rulesSectionHeader}>
+              <View style={styles.activityTitleRow}>
+                <History size={16} color={Colors.textSecondary} />
+                <Text style={styles.rulesSectionTitle}>Activity</Text>
+              </View>
+              <TouchableOpacity style={styles.addBtn} onPress={() => { void clearExecutionHistory(); }}>
+                <Text style={styles.addBtnText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.activityCard}>
+              {executions.slice(0, activityLimit).map(execution => (
+                <ActivityRow key={execution.id} execution={execution} />
+              ))}
+              {executions.length > activityLimit && (
+                <TouchableOpacity style={styles.activityMore} onPress={() => setActivityLimit(limit => limit + ACTIVITY_PAGE_SIZE)}>
+                  <Text style={styles.addBtnText}>Show more ({executions.length - activityLimit})</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
         {showBuilder && (
           <CustomRuleBuilder
             onSave={handleBuilderSave}
@@ -796,6 +1885,9 @@ export default function AutomationsScreen() {
           </View>
         )}
       </ScrollView>
+      <RulePreviewModal preview={preview} onClose={() => setPreview(null)} />
+      <RulesExportModal visible={transferMode === 'export'} rules={rules} onClose={() => setTransferMode(null)} />
+      <RulesImportModal visible={transferMode === 'import'} existingRules={rules} onImport={importRules} onClose={() => setTransferMode(null)} />
     </View>
   );
 }
@@ -1186,6 +2278,13 @@ const styles = StyleSheet.create({
     textAlign: 'center' as const,
     paddingHorizontal: 6,
   },
+  limitLabel: {
+    width: 92,
+  },
+  killSwitchBanner: {
+    borderColor: Colors.danger + '50',
+    backgroundColor: Colors.danger + '10',
+  },
   intervalUnit: {
     fontSize: 12,
     color: Colors.textTertiary,
@@ -1197,6 +2296,129 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: Colors.textTertiary,
   },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  metaLink: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+    color: Colors.primary,
+  },
+  previewOverlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  previewSheet: {
+    maxHeight: '85%',
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 16,
+    gap: 8,
+  },
+  transferRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  transferInput: {
+    minHeight: 110,
+    maxHeight: 180,
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  transferBtnDisabled: {
+    opacity: 0.5,
+  },
+  previewSummary: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  previewNote: {
+    fontSize: 12,
+    color: Colors.secondary,
+  },
+  previewList: {
+    marginTop: 4,
+  },
+  previewItem: {
+    backgroundColor: Colors.surface,
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 8,
+    gap: 4,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  previewItemSkipped: {
+    opacity: 0.55,
+  },
+  previewItemName: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  activityTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  activityCard: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingVertical: 4,
+  },
+  activityRow: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  activityIcon: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  activityBody: {
+    flex: 1,
+    gap: 2,
+  },
+  activityText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+  },
+  activityRule: {
+    fontWeight: '600' as const,
+    color: Colors.text,
+  },
+  activityItem: {
+    color: Colors.text,
+  },
+  activityError: {
+    fontSize: 11,
+    color: Colors.danger,
+  },
+  activityTime: {
+    fontSize: 11,
+    color: Colors.textTertiary,
+  },
+  activityMore: {
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
   ruleActions: {
     flexDirection: 'row',
     gap: 8,
@@ -1372,6 +2594,15 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 6,
   },
+  triggerRow: {
+    flexWrap: 'wrap',
+  },
+  triggerBtn: {
+    flexBasis: '48%',
+  },
+  triggerValueInput: {
+    marginTop: 8,
+  },
   scopeBtn: {
     flex: 1,
     paddingVertical: 8,
@@ -1393,6 +2624,57 @@ const styles = StyleSheet.create({
   scopeBtnTextActive: {
     color: Colors.primary,
   },
+  condGroup: {
+    gap: 8,
+  },
+  condGroupNested: {
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.accent + '60',
+    paddingLeft: 10,
+    paddingVertical: 4,
+  },
+  condHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  flexOne: {
+    flex: 1,
+  },
+  notChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  notChipActive: {
+    backgroundColor: Colors.danger + '18',
+    borderColor: Colors.danger,
+  },
+  notChipText: {
+    fontSize: 11,
+    fontWeight: '700' as const,
+    color: Colors.textTertiary,
+  },
+  notChipTextActive: {
+    color: Colors.danger,
+  },
+  condErrorText: {
+    fontSize: 11,
+    color: Colors.danger,
+  },
+  actionStepIndex: {
+    fontSize: 10,
+    fontWeight: '700' as const,
+    color: Colors.textTertiary,
+    letterSpacing: 0.5,
+  },
+  conditionTreeText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+  },
   addCondBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -34,16 +34,20 @@ import * as Linking from 'expo-linking';
 import Colors from '@/constants/colors';
 import { useLibrary } from '@/hooks/useLibrary';
 import SwipeableDownloadCard from '@/components/SwipeableDownloadCard';
-import { DownloadSource, LibraryItem, MediaCategory } from '@/types/torbox';
+import { DownloadSource, LibraryItem, MediaCategory, ReleaseCodec, ReleaseInfo, ReleaseResolution } from '@/types/torbox';
+import { ALL_CATEGORIES, CATEGORY_META } from '@/constants/categories';
 import { torboxApi } from '@/services/torbox-api';
 import { formatBytes } from '@/utils/formatters';
 import { normalizeDownloadStatus } from '@/utils/downloadStatus';
 import { selectPrimaryDownloadFile } from '@/utils/downloadSelection';
+import { parseReleaseName, RELEASE_CODECS, RELEASE_RESOLUTIONS } from '@/utils/releaseName';
 
 type SourceTab = 'all' | DownloadSource;
 type StatusFilter = 'all' | 'downloading' | 'completed' | 'stalled' | 'paused' | 'failed' | 'queued';
 type MediaFilter = 'all' | MediaCategory;
 type FileTypeFilter = 'all' | 'video' | 'audio' | 'books' | 'archives' | 'images' | 'other';
+type ResolutionFilter = 'all' | ReleaseResolution | 'unknown';
+type CodecFilter = 'all' | ReleaseCodec | 'unknown';
 type SizeFilter = 'all' | 'small' | 'medium' | 'large';
 type AgeFilter = 'all' | '24h' | '7d' | '30d' | 'older';
 type FileCountFilter = 'all' | 'single' | 'multi' | 'bulk';
@@ -63,6 +67,7 @@ interface DownloadItem {
   filesCount: number;
   mediaCategory: MediaCategory;
   fileType: Exclude<FileTypeFilter, 'all'>;
+  release: ReleaseInfo;
 }
 
 export default function DownloadsScreen() {
@@ -84,6 +89,8 @@ export default function DownloadsScreen() {
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [mediaFilter, setMediaFilter] = useState<MediaFilter>('all');
   const [fileTypeFilter, setFileTypeFilter] = useState<FileTypeFilter>('all');
+  const [resolutionFilter, setResolutionFilter] = useState<ResolutionFilter>('all');
+  const [codecFilter, setCodecFilter] = useState<CodecFilter>('all');
   const [sizeFilter, setSizeFilter] = useState<SizeFilter>('all');
   const [ageFilter, setAgeFilter] = useState<AgeFilter>('all');
   const [fileCountFilter, setFileCountFilter] = useState<FileCountFilter>('all');
@@ -159,6 +166,7 @@ export default function DownloadsScreen() {
         filesCount: t.files?.length ?? 0,
         mediaCategory: categoryByDownload.get(`torrent-${t.id}`) ?? 'other',
         fileType: fileTypeByDownload.get(`torrent-${t.id}`) ?? 'other',
+        release: parseReleaseName(t.name),
       });
     }
 
@@ -177,6 +185,7 @@ export default function DownloadsScreen() {
         filesCount: u.files?.length ?? 0,
         mediaCategory: categoryByDownload.get(`usenet-${u.id}`) ?? 'other',
         fileType: fileTypeByDownload.get(`usenet-${u.id}`) ?? 'other',
+        release: parseReleaseName(u.name),
       });
     }
 
@@ -196,6 +205,7 @@ export default function DownloadsScreen() {
         filesCount: w.files?.length ?? 0,
         mediaCategory: categoryByDownload.get(`web-${webId}`) ?? 'other',
         fileType: fileTypeByDownload.get(`web-${webId}`) ?? 'other',
+        release: parseReleaseName(w.name),
       });
     }
 
@@ -248,6 +258,12 @@ export default function DownloadsScreen() {
     if (fileTypeFilter !== 'all') {
       items = items.filter(d => d.fileType === fileTypeFilter);
     }
+    if (resolutionFilter !== 'all') {
+      items = items.filter(d => (d.release.resolution ?? 'unknown') === resolutionFilter);
+    }
+    if (codecFilter !== 'all') {
+      items = items.filter(d => (d.release.codec ?? 'unknown') === codecFilter);
+    }
     if (sizeFilter !== 'all') {
       items = items.filter(d => matchesSizeFilter(d.size, sizeFilter));
     }
@@ -263,7 +279,7 @@ export default function DownloadsScreen() {
       return dateSort === 'newest' ? bTime - aTime : aTime - bTime;
     });
     return items;
-  }, [allDownloads, sourceTab, statusFilter, mediaFilter, fileTypeFilter, sizeFilter, ageFilter, fileCountFilter, dateSort, matchesSizeFilter, matchesAgeFilter, matchesFileCountFilter]);
+  }, [allDownloads, sourceTab, statusFilter, mediaFilter, fileTypeFilter, resolutionFilter, codecFilter, sizeFilter, ageFilter, fileCountFilter, dateSort, matchesSizeFilter, matchesAgeFilter, matchesFileCountFilter]);
 
   const statusCounts = useMemo(() => {
     const base = sourceTab === 'all' ? allDownloads : allDownloads.filter(d => d.source === sourceTab);
@@ -289,15 +305,8 @@ export default function DownloadsScreen() {
 
   const mediaCounts = useMemo(() => {
     const base = sourceTab === 'all' ? allDownloads : allDownloads.filter(d => d.source === sourceTab);
-    const counts: Record<MediaFilter, number> = {
-      all: base.length,
-      audiobook: 0,
-      ebook: 0,
-      video: 0,
-      music: 0,
-      games: 0,
-      other: 0,
-    };
+    const counts = { all: base.length } as Record<MediaFilter, number>;
+    for (const category of ALL_CATEGORIES) counts[category] = 0;
     for (const d of base) {
       counts[d.mediaCategory]++;
     }
@@ -328,6 +337,26 @@ export default function DownloadsScreen() {
     };
   }, [allDownloads, sourceTab]);
 
+  const resolutionCounts = useMemo(() => {
+    const base = sourceTab === 'all' ? allDownloads : allDownloads.filter(d => d.source === sourceTab);
+    const counts = { all: base.length, unknown: 0 } as Record<ResolutionFilter, number>;
+    for (const resolution of RELEASE_RESOLUTIONS) counts[resolution] = 0;
+    for (const d of base) {
+      counts[d.release.resolution ?? 'unknown']++;
+    }
+    return counts;
+  }, [allDownloads, sourceTab]);
+
+  const codecCounts = useMemo(() => {
+    const base = sourceTab === 'all' ? allDownloads : allDownloads.filter(d => d.source === sourceTab);
+    const counts = { all: base.length, unknown: 0 } as Record<CodecFilter, number>;
+    for (const codec of RELEASE_CODECS) counts[codec] = 0;
+    for (const d of base) {
+      counts[d.release.codec ?? 'unknown']++;
+    }
+    return counts;
+  }, [allDownloads, sourceTab]);
+
   const ageCounts = useMemo(() => {
     const base = sourceTab === 'all' ? allDownloads : allDownloads.filter(d => d.source === sourceTab);
     return {
@@ -1014,24 +1043,26 @@ export default function DownloadsScreen() {
             >
               <Filter
                 size={14}
-                color={statusFilter !== 'all' || mediaFilter !== 'all' || fileTypeFilter !== 'all' || sizeFilter !== 'all' || ageFilter !== 'all' || fileCountFilter !== 'all' || dateSort !== 'newest' ? Colors.primary : Colors.textTertiary}
+                color={statusFilter !== 'all' || mediaFilter !== 'all' || fileTypeFilter !== 'all' || resolutionFilter !== 'all' || codecFilter !== 'all' || sizeFilter !== 'all' || ageFilter !== 'all' || fileCountFilter !== 'all' || dateSort !== 'newest' ? Colors.primary : Colors.textTertiary}
               />
               <Text
                 style={[
                   styles.filterToggleText,
-                  (statusFilter !== 'all' || mediaFilter !== 'all' || fileTypeFilter !== 'all' || sizeFilter !== 'all' || ageFilter !== 'all' || fileCountFilter !== 'all' || dateSort !== 'newest') && styles.filterToggleTextActive,
+                  (statusFilter !== 'all' || mediaFilter !== 'all' || fileTypeFilter !== 'all' || resolutionFilter !== 'all' || codecFilter !== 'all' || sizeFilter !== 'all' || ageFilter !== 'all' || fileCountFilter !== 'all' || dateSort !== 'newest') && styles.filterToggleTextActive,
                 ]}
               >
-                {statusFilter === 'all' && mediaFilter === 'all' && fileTypeFilter === 'all' && sizeFilter === 'all' && ageFilter === 'all' && fileCountFilter === 'all' && dateSort === 'newest'
+                {statusFilter === 'all' && mediaFilter === 'all' && fileTypeFilter === 'all' && resolutionFilter === 'all' && codecFilter === 'all' && sizeFilter === 'all' && ageFilter === 'all' && fileCountFilter === 'all' && dateSort === 'newest'
                   ? 'Filters'
-                  : `Filters: ${statusFilter !== 'all' ? statusFilter : mediaFilter !== 'all' ? mediaFilter : fileTypeFilter !== 'all' ? fileTypeFilter : sizeFilter !== 'all' ? sizeFilter : ageFilter !== 'all' ? ageFilter : fileCountFilter !== 'all' ? fileCountFilter : dateSort}`}
+                  : `Filters: ${statusFilter !== 'all' ? statusFilter : mediaFilter !== 'all' ? mediaFilter : fileTypeFilter !== 'all' ? fileTypeFilter : resolutionFilter !== 'all' ? resolutionFilter : codecFilter !== 'all' ? codecFilter : sizeFilter !== 'all' ? sizeFilter : ageFilter !== 'all' ? ageFilter : fileCountFilter !== 'all' ? fileCountFilter : dateSort}`}
               </Text>
-              {(statusFilter !== 'all' || mediaFilter !== 'all' || fileTypeFilter !== 'all' || sizeFilter !== 'all' || ageFilter !== 'all' || fileCountFilter !== 'all' || dateSort !== 'newest') && (
+              {(statusFilter !== 'all' || mediaFilter !== 'all' || fileTypeFilter !== 'all' || resolutionFilter !== 'all' || codecFilter !== 'all' || sizeFilter !== 'all' || ageFilter !== 'all' || fileCountFilter !== 'all' || dateSort !== 'newest') && (
                 <TouchableOpacity
                   onPress={() => {
                     setStatusFilter('all');
                     setMediaFilter('all');
                     setFileTypeFilter('all');
+                    setResolutionFilter('all');
+                    setCodecFilter('all');
                     setSizeFilter('all');
                     setAgeFilter('all');
                     setFileCountFilter('all');
@@ -1079,7 +1110,7 @@ export default function DownloadsScreen() {
 
                 <Text style={styles.filterGroupLabel}>Type</Text>
                 <View style={styles.statusRow}>
-                  {(['all', 'audiobook', 'ebook', 'video', 'music', 'games', 'other'] as MediaFilter[]).map(mf => {
+                  {(['all', ...ALL_CATEGORIES] as MediaFilter[]).map(mf => {
                     const count = mediaCounts[mf];
                     if (mf !== 'all' && count === 0) return null;
                     return (
@@ -1089,7 +1120,7 @@ export default function DownloadsScreen() {
                         onPress={() => setMediaFilter(mf)}
                       >
                         <Text style={[styles.statusChipText, mediaFilter === mf && { color: Colors.primary }]}>
-                          {mf === 'all' ? 'All' : mf.charAt(0).toUpperCase() + mf.slice(1)}
+                          {mf === 'all' ? 'All' : CATEGORY_META[mf].label}
                         </Text>
                         <Text style={[styles.statusChipCount, mediaFilter === mf && { color: Colors.primary }]}>{count}</Text>
                       </TouchableOpacity>
@@ -1124,6 +1155,46 @@ export default function DownloadsScreen() {
                   })}
                 </View>
 
+                <Text style={styles.filterGroupLabel}>Resolution</Text>
+                <View style={styles.statusRow}>
+                  {(['all', ...RELEASE_RESOLUTIONS, 'unknown'] as ResolutionFilter[]).map(resolution => {
+                    const count = resolutionCounts[resolution];
+                    if (resolution !== 'all' && count === 0) return null;
+                    return (
+                      <TouchableOpacity
+                        key={resolution}
+                        style={[styles.statusChip, resolutionFilter === resolution && { backgroundColor: Colors.primary + '20', borderColor: Colors.primary }]}
+                        onPress={() => setResolutionFilter(resolution)}
+                      >
+                        <Text style={[styles.statusChipText, resolutionFilter === resolution && { color: Colors.primary }]}>
+                          {resolution === 'all' ? 'All' : resolution === 'unknown' ? 'Unknown' : resolution}
+                        </Text>
+                        <Text style={[styles.statusChipCount, resolutionFilter === resolution && { color: Colors.primary }]}>{count}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={styles.filterGroupLabel}>Codec</Text>
+                <View style={styles.statusRow}>
+                  {(['all', ...RELEASE_CODECS, 'unknown'] as CodecFilter[]).map(codec => {
+                    const count = codecCounts[codec];
+                    if (codec !== 'all' && count === 0) return null;
+                    return (
+                      <TouchableOpacity
+                        key={codec}
+                        style={[styles.statusChip, codecFilter === codec && { backgroundColor: Colors.primary + '20', borderColor: Colors.primary }]}
+                        onPress={() => setCodecFilter(codec)}
+                      >
+                        <Text style={[styles.statusChipText, codecFilter === codec && { color: Colors.primary }]}>
+                          {codec === 'all' ? 'All' : codec === 'unknown' ? 'Unknown' : codec}
+                        </Text>
+                        <Text style={[styles.statusChipCount, codecFilter === codec && { color: Colors.primary }]}>{count}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
                 <Text style={styles.filterGroupLabel}>Size</Text>
                 <View style={styles.statusRow}>
                   {(['all', 'small', 'medium', 'large'] as SizeFilter[]).map(sz => {
@@ -9,6 +9,7 @@ import {
   Alert,
   TextInput,
   Platform,
+  Switch,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter, useFocusEffect } from 'expo-router';
@@ -31,14 +32,23 @@ import {
   HardDrive,
   Gift,
   RefreshCw,
+  Users,
+  Plus,
+  Trash2,
+  Magnet,
+  OctagonX,
+  RotateCcw,
 } from 'lucide-react-native';
 import * as Linking from 'expo-linking';
 import Colors from '@/constants/colors';
 import { useAuth } from '@/hooks/useAuth';
 import { useSettings } from '@/hooks/useSettings';
-import { DEFAULT_CLASSIFICATION_CONFIG } from '@/constants/categories';
-import { DefaultTab } from '@/types/torbox';
+import { useClassificationConfig } from '@/hooks/useClassificationConfig';
+import { ALL_CATEGORIES, CATEGORY_META } from '@/constants/categories';
+import { ClassificationConfig, DefaultTab, MediaCategory } from '@/types/torbox';
+import { normalizeExtension, validateNameRulePattern } from '@/utils/classification';
 import { formatBytes } from '@/utils/formatters';
+import { canRegisterWebMagnetHandler, registerWebMagnetHandler } from '@/utils/deepLinks';
 
 const TAB_OPTIONS: { value: DefaultTab; label: string; icon: React.ComponentType<{ size: number; color: string }> }[] = [
   { value: '(library)', label: 'Library', icon: Library },
@@ -48,6 +58,22 @@ const TAB_OPTIONS: { value: DefaultTab; label: string; icon: React.ComponentType
   { value: 'settings', label: 'Settings', icon: Settings },
 ];
 
+type ThresholdKey = 'audiobookMinFileSizeMB' | 'audiobookMinDurationMinutes' | 'audiobookMultiTrackMinSizeMB';
+
+const THRESHOLD_FIELDS: { key: ThresholdKey; label: string; testID: string }[] = [
+  { key: 'audiobookMinFileSizeMB', label: 'Min file size (MB)', testID: 'config-min-size' },
+  { key: 'audiobookMinDurationMinutes', label: 'Min duration (min)', testID: 'config-min-duration' },
+  { key: 'audiobookMultiTrackMinSizeMB', label: 'Multi-track min (MB)', testID: 'config-multi-track-size' },
+];
+
+// Inputs are edited as text and only written to the persisted config when editing ends.
+const toConfigDraft = (config: ClassificationConfig): Record<ThresholdKey | 'keywords', string> => ({
+  audiobookMinFileSizeMB: String(config.audiobookMinFileSizeMB),
+  audiobookMinDurationMinutes: String(config.audiobookMinDurationMinutes),
+  audiobookMultiTrackMinSizeMB: String(config.audiobookMultiTrackMinSizeMB),
+  keywords: config.audiobookKeywords.join(', '),
+});
+
 const REFERRAL_URL = 'https://torbox.app/subscription?referral=25f7a56b-f344-4771-babc-f9b790c66483';
 
 function getPlanName(plan: number): string {
@@ -73,7 +99,18 @@ function getPlanColor(plan: number): string {
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { user, disconnect, isConnected, refreshUser } = useAuth();
+  const {
+    user,
+    disconnect,
+    isConnected,
+    refreshUser,
+    accounts,
+    activeAccountId,
+    switchAccount,
+    addAccount,
+    removeAccount,
+    isConnecting,
+  } = useAuth();
   const downloadUsageBytes = user?.monthly_downloaded_bytes ?? user?.total_downloaded_bytes ?? user?.total_downloaded ?? 0;
   const lifetimeDownloadedBytes = user?.total_downloaded_bytes ?? user?.total_downloaded ?? 0;
   const downloadCapBytes = user?.monthly_data_cap_bytes ?? user?.download_limit_bytes;
@@ -94,31 +131,164 @@ export default function SettingsScreen() {
   }, [user?.user_referral]);
   const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
   const { settings, updateSettings } = useSettings();
-  const [config, setConfig] = useState(DEFAULT_CLASSIFICATION_CONFIG);
+  const { config, updateConfig, resetConfig } = useClassificationConfig();
+  const [configDraft, setConfigDraft] = useState(() => toConfigDraft(config));
+  const [newExtension, setNewExtension] = useState<string>('');
+  const [newExtensionCategory, setNewExtensionCategory] = useState<MediaCategory>('ebook');
+  const [newPattern, setNewPattern] = useState<string>('');
+  const [newPatternCategory, setNewPatternCategory] = useState<MediaCategory>('ebook');
+  const [patternError, setPatternError] = useState<string | null>(null);
   const [showReferralModal, setShowReferralModal] = useState<boolean>(false);
+  const [showAddAccount, setShowAddAccount] = useState<boolean>(false);
+  const [newAccountLabel, setNewAccountLabel] = useState<string>('');
+  const [newAccountToken, setNewAccountToken] = useState<string>('');
+  const [switchingAccountId, setSwitchingAccountId] = useState<string | null>(null);
 
   const handleDisconnect = useCallback(() => {
     Alert.alert(
       'Disconnect TorBox',
-      'Are you sure you want to disconnect? Your library data will be cleared.',
+      accounts.length > 1
+        ? 'Disconnect the current account? TorDeck will switch to your next saved account.'
+        : 'Are you sure you want to disconnect? Your library data will be cleared.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Disconnect',
           style: 'destructive',
           onPress: async () => {
+            const isLast = accounts.length <= 1;
             await disconnect();
-            router.replace('/connect' as any);
+            if (isLast) router.replace('/connect' as any);
+          },
+        },
+      ]
+    );
+  }, [accounts.length, disconnect, router]);
+
+  const handleSwitchAccount = useCallback(async (accountId: string) => {
+    if (accountId === activeAccountId || switchingAccountId) return;
+    setSwitchingAccountId(accountId);
+    try {
+      await switchAccount(accountId);
+      setLastSyncedAt(new Date());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to switch account.';
+      Alert.alert('Switch Failed', message);
+    } finally {
+      setSwitchingAccountId(null);
+    }
+  }, [activeAccountId, switchingAccountId, switchAccount]);
+
+  const handleAddAccount = useCallback(async () => {
+    if (!newAccountToken.trim()) return;
+    try {
+      await addAccount(newAccountToken.trim(), newAccountLabel);
+      setNewAccountLabel('');
+      setNewAccountToken('');
+      setShowAddAccount(false);
+      setLastSyncedAt(new Date());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to add account.';
+      Alert.alert('Add Account Failed', message);
+    }
+  }, [addAccount, newAccountLabel, newAccountToken]);
+
+  const handleRemoveAccount = useCallback((accountId: string, label: string) => {
+    Alert.alert(
+      'Remove Account',
+      `Remove "${label}" from TorDeck? Its saved token will be deleted from this device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const isLast = accounts.length <= 1;
+            await removeAccount(accountId);
+            if (isLast) router.replace('/connect' as any);
           },
         },
       ]
     );
-  }, [disconnect, router]);
+  }, [accounts.length, removeAccount, router]);
 
   const handleTabChange = useCallback((tab: DefaultTab) => {
     updateSettings({ defaultTab: tab });
   }, [updateSettings]);
 
+  const handleKillSwitchChange = useCallback((paused: boolean) => {
+    updateSettings({ automationsPaused: paused });
+    console.log('[Settings] Automation kill switch', paused ? 'on' : 'off');
+  }, [updateSettings]);
+
+  useEffect(() => {
+    setConfigDraft(toConfigDraft(config));
+  }, [config]);
+
+  const commitThreshold = useCallback((key: ThresholdKey) => {
+    const raw = configDraft[key].trim();
+    const value = Number(raw);
+    if (!raw || !Number.isFinite(value) || value < 0) {
+      setConfigDraft(toConfigDraft(config));
+      return;
+    }
+    if (value !== config[key]) updateConfig({ [key]: value });
+  }, [configDraft, config, updateConfig]);
+
+  const commitKeywords = useCallback(() => {
+    const keywords = configDraft.keywords.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+    if (keywords.join(',') !== config.audiobookKeywords.join(',')) updateConfig({ audiobookKeywords: keywords });
+    else setConfigDraft(toConfigDraft(config));
+  }, [configDraft.keywords, config, updateConfig]);
+
+  const handleAddExtensionRule = useCallback(() => {
+    const extension = normalizeExtension(newExtension);
+    if (!extension) return;
+    // One mapping per extension; adding it again replaces the category.
+    updateConfig({ extensionRules: [...config.extensionRules.filter(rule => rule.extension !== extension), { extension, category: newExtensionCategory }] });
+    setNewExtension('');
+    console.log('[Settings] Extension rule added:', extension, '->', newExtensionCategory);
+  }, [newExtension, newExtensionCategory, config.extensionRules, updateConfig]);
+
+  const handleAddNameRule = useCallback(() => {
+    const error = validateNameRulePattern(newPattern);
+    setPatternError(error);
+    if (error) return;
+    updateConfig({ nameRules: [...config.nameRules, { pattern: newPattern.trim(), category: newPatternCategory }] });
+    setNewPattern('');
+    console.log('[Settings] Name rule added:', newPattern.trim(), '->', newPatternCategory);
+  }, [newPattern, newPatternCategory, config.nameRules, updateConfig]);
+
+  const handleResetClassification = useCallback(() => {
+    Alert.alert(
+      'Reset Classification',
+      'Restore the default thresholds and keywords and remove all custom rules?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => { resetConfig(); } },
+      ]
+    );
+  }, [resetConfig]);
+
+  const renderCategoryChips = (selected: MediaCategory, onSelect: (category: MediaCategory) => void, testIDPrefix: string) => (
+    <View style={styles.categoryChips}>
+      {ALL_CATEGORIES.map(category => {
+        const isSelected = category === selected;
+        const color = CATEGORY_META[category].color;
+        return (
+          <TouchableOpacity
+            key={category}
+            style={[styles.categoryChip, isSelected && { borderColor: color, backgroundColor: color + '20' }]}
+            onPress={() => onSelect(category)}
+            testID={`${testIDPrefix}-${category}`}
+          >
+            <Text style={[styles.categoryChipText, isSelected && { color }]}>{CATEGORY_META[category].label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
   useEffect(() => {
     if (user && !lastSyncedAt) {
       setLastSyncedAt(new Date());
@@ -262,6 +432,102 @@ export default function SettingsScreen() {
         </View>
       )}
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Accounts</Text>
+        <View style={styles.card}>
+          {accounts.map(account => {
+            const isActive = account.id === activeAccountId;
+            return (
+              <View key={account.id} style={[styles.tabOption, isActive && styles.tabOptionActive]}>
+                <TouchableOpacity
+                  style={styles.accountOption}
+                  onPress={() => handleSwitchAccount(account.id)}
+                  disabled={isActive || switchingAccountId !== null}
+                  testID={`account-${account.id}`}
+                >
+                  <Users size={18} color={isActive ? Colors.primary : Colors.textSecondary} />
+                  <View style={styles.accountInfo}>
+                    <Text style={[styles.tabOptionLabel, isActive && styles.tabOptionLabelActive]} numberOfLines={1}>
+                      {account.label}
+                    </Text>
+                    {account.email && account.email !== account.label && (
+                      <Text style={styles.accountEmail} numberOfLines={1}>{account.email}</Text>
+                    )}
+                  </View>
+                  {switchingAccountId === account.id && (
+                    <Text style={styles.accountEmail}>Switching...</Text>
+                  )}
+                  {isActive && (
+                    <View style={styles.checkMark}>
+                      <Check size={16} color={Colors.primary} />
+                    </View>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleRemoveAccount(account.id, account.label)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  accessibilityLabel={`Remove ${account.label}`}
+                >
+                  <Trash2 size={16} color={Colors.textTertiary} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+
+          {showAddAccount ? (
+            <View style={styles.addAccountForm}>
+              <TextInput
+                style={styles.addAccountInput}
+                value={newAccountLabel}
+                onChangeText={setNewAccountLabel}
+                placeholder="Label (e.g. Team, Archive)"
+                placeholderTextColor={Colors.textTertiary}
+                testID="new-account-label"
+              />
+              <TextInput
+                style={styles.addAccountInput}
+                value={newAccountToken}
+                onChangeText={setNewAccountToken}
+                placeholder="TorBox API token"
+                placeholderTextColor={Colors.textTertiary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+                testID="new-account-token"
+              />
+              <View style={styles.connectionActions}>
+                <TouchableOpacity
+                  style={styles.connectionButton}
+                  onPress={() => setShowAddAccount(false)}
+                  activeOpacity={0.75}
+                >
+                  <Text style={styles.connectionButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.connectionButton, (!newAccountToken.trim() || isConnecting) && styles.connectionButtonDisabled]}
+                  onPress={handleAddAccount}
+                  disabled={!newAccountToken.trim() || isConnecting}
+                  activeOpacity={0.75}
+                  testID="add-account-submit"
+                >
+                  <Text style={styles.connectionButtonText}>{isConnecting ? 'Validating...' : 'Add & Switch'}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.connectionButton, styles.addAccountButton]}
+              onPress={() => setShowAddAccount(true)}
+              activeOpacity={0.75}
+              testID="add-account"
+            >
+              <Plus size={14} color={Colors.primary} />
+              <Text style={styles.connectionButtonText}>Add Account</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Default Home Page</Text>
         <View style={styles.card}>
@@ -290,6 +556,28 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Automations</Text>
+        <View style={styles.card}>
+          <View style={styles.row}>
+            <OctagonX size={18} color={settings.automationsPaused ? Colors.danger : Colors.textSecondary} />
+            <Text style={styles.rowLabel}>Kill switch</Text>
+            <Switch
+              value={settings.automationsPaused}
+              onValueChange={handleKillSwitchChange}
+              trackColor={{ false: Colors.border, true: Colors.danger + '60' }}
+              thumbColor={settings.automationsPaused ? Colors.danger : Colors.textTertiary}
+              testID="automation-kill-switch"
+            />
+          </View>
+          <Text style={styles.configHint}>
+            {settings.automationsPaused
+              ? 'All automation rules are stopped and queued deletions are held until you turn this off.'
+              : 'Stops every automation rule at once, for all accounts, without changing the rules themselves.'}
+          </Text>
+        </View>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Connection</Text>
         <View style={styles.card}>
@@ -325,6 +613,22 @@ export default function SettingsScreen() {
               <ExternalLink size={14} color={Colors.primary} />
               <Text style={styles.connectionButtonText}>Open TorBox</Text>
             </TouchableOpacity>
+            {canRegisterWebMagnetHandler() && (
+              <TouchableOpacity
+                style={styles.connectionButton}
+                onPress={() => {
+                  const registered = registerWebMagnetHandler();
+                  window.alert(registered
+                    ? 'Your browser will ask to confirm. Magnet links will then open in TorDeck.'
+                    : 'This browser does not allow TorDeck to handle magnet links.');
+                }}
+                activeOpacity={0.75}
+                testID="register-magnet-handler"
+              >
+                <Magnet size={14} color={Colors.primary} />
+                <Text style={styles.connectionButtonText}>Handle Magnet Links</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
@@ -332,39 +636,128 @@ export default function SettingsScreen() {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Audiobook Classification</Text>
         <View style={styles.card}>
-          <View style={styles.configRow}>
-            <Text style={styles.configLabel}>Min file size (MB)</Text>
-            <TextInput
-              style={styles.configInput}
-              value={String(config.audiobookMinFileSizeMB)}
-              onChangeText={(v) => setConfig(c => ({ ...c, audiobookMinFileSizeMB: Number(v) || 0 }))}
-              keyboardType="numeric"
-              testID="config-min-size"
-            />
-          </View>
-          <View style={styles.configRow}>
-            <Text style={styles.configLabel}>Min duration (min)</Text>
+          {THRESHOLD_FIELDS.map(field => (
+            <View key={field.key} style={styles.configRow}>
+              <Text style={styles.configLabel}>{field.label}</Text>
+              <TextInput
+                style={styles.configInput}
+                value={configDraft[field.key]}
+                onChangeText={(v) => setConfigDraft(draft => ({ ...draft, [field.key]: v }))}
+                onBlur={() => commitThreshold(field.key)}
+                keyboardType="numeric"
+                testID={field.testID}
+              />
+            </View>
+          ))}
+          <Text style={styles.configSubheading}>Keywords</Text>
+          <TextInput
+            style={styles.addAccountInput}
+            value={configDraft.keywords}
+            onChangeText={(v) => setConfigDraft(draft => ({ ...draft, keywords: v }))}
+            onBlur={commitKeywords}
+            placeholder="audiobook, narrated, unabridged"
+            placeholderTextColor={Colors.textTertiary}
+            autoCapitalize="none"
+            multiline
+            testID="config-keywords"
+          />
+          <Text style={styles.configHint}>
+            Comma-separated. An audio file whose name or folder contains any keyword is treated as an audiobook.
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Custom Classification Rules</Text>
+        <View style={styles.card}>
+          <Text style={styles.configSubheading}>File extensions</Text>
+          {config.extensionRules.map(rule => (
+            <View key={rule.extension} style={styles.configRow}>
+              <Text style={styles.configLabel} numberOfLines={1}>.{rule.extension}</Text>
+              <Text style={[styles.ruleCategory, { color: CATEGORY_META[rule.category].color }]}>{CATEGORY_META[rule.category].label}</Text>
+              <TouchableOpacity
+                onPress={() => updateConfig({ extensionRules: config.extensionRules.filter(r => r.extension !== rule.extension) })}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel={`Remove .${rule.extension} rule`}
+              >
+                <Trash2 size={16} color={Colors.textTertiary} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.addAccountForm}>
             <TextInput
-              style={styles.configInput}
-              value={String(config.audiobookMinDurationMinutes)}
-              onChangeText={(v) => setConfig(c => ({ ...c, audiobookMinDurationMinutes: Number(v) || 0 }))}
-              keyboardType="numeric"
-              testID="config-min-duration"
+              style={styles.addAccountInput}
+              value={newExtension}
+              onChangeText={setNewExtension}
+              placeholder="Extension (e.g. cbz)"
+              placeholderTextColor={Colors.textTertiary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID="new-extension-rule"
             />
+            {renderCategoryChips(newExtensionCategory, setNewExtensionCategory, 'new-extension-category')}
+            <TouchableOpacity
+              style={[styles.connectionButton, styles.addAccountButton, !normalizeExtension(newExtension) && styles.connectionButtonDisabled]}
+              onPress={handleAddExtensionRule}
+              disabled={!normalizeExtension(newExtension)}
+              activeOpacity={0.75}
+              testID="add-extension-rule"
+            >
+              <Plus size={14} color={Colors.primary} />
+              <Text style={styles.connectionButtonText}>Add Extension Rule</Text>
+            </TouchableOpacity>
           </View>
-          <View style={styles.configRow}>
-            <Text style={styles.configLabel}>Multi-track min (MB)</Text>
+
+          <Text style={styles.configSubheading}>Name patterns</Text>
+          {config.nameRules.map((rule, index) => (
+            <View key={`${rule.pattern}-${index}`} style={styles.configRow}>
+              <Text style={styles.configLabel} numberOfLines={1}>{rule.pattern}</Text>
+              <Text style={[styles.ruleCategory, { color: CATEGORY_META[rule.category].color }]}>{CATEGORY_META[rule.category].label}</Text>
+              <TouchableOpacity
+                onPress={() => updateConfig({ nameRules: config.nameRules.filter((_, i) => i !== index) })}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel={`Remove ${rule.pattern} rule`}
+              >
+                <Trash2 size={16} color={Colors.textTertiary} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.addAccountForm}>
             <TextInput
-              style={styles.configInput}
-              value={String(config.audiobookMultiTrackMinSizeMB)}
-              onChangeText={(v) => setConfig(c => ({ ...c, audiobookMultiTrackMinSizeMB: Number(v) || 0 }))}
-              keyboardType="numeric"
-              testID="config-multi-track-size"
+              style={styles.addAccountInput}
+              value={newPattern}
+              onChangeText={(v) => { setNewPattern(v); setPatternError(null); }}
+              placeholder="Regex, e.g. /\/Comics\// for a Comics folder"
+              placeholderTextColor={Colors.textTertiary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID="new-name-rule"
             />
+            {patternError && <Text style={styles.configError}>{patternError}</Text>}
+            {renderCategoryChips(newPatternCategory, setNewPatternCategory, 'new-name-category')}
+            <TouchableOpacity
+              style={[styles.connectionButton, styles.addAccountButton, !newPattern.trim() && styles.connectionButtonDisabled]}
+              onPress={handleAddNameRule}
+              disabled={!newPattern.trim()}
+              activeOpacity={0.75}
+              testID="add-name-rule"
+            >
+              <Plus size={14} color={Colors.primary} />
+              <Text style={styles.connectionButtonText}>Add Name Rule</Text>
+            </TouchableOpacity>
           </View>
           <Text style={styles.configHint}>
-            Keywords: {config.audiobookKeywords.join(', ')}
+            Name patterns are matched against the download name and each file path, before extension rules and the built-in classification. Bare patterns ignore case; use /pattern/flags for exact control.
           </Text>
+          <TouchableOpacity
+            style={[styles.connectionButton, styles.addAccountButton]}
+            onPress={handleResetClassification}
+            activeOpacity={0.75}
+            testID="reset-classification"
+          >
+            <RotateCcw size={14} color={Colors.primary} />
+            <Text style={styles.connectionButtonText}>Reset to Defaults</Text>
+          </TouchableOpacity>
         </View>
       </View>
 
@@ -752,6 +1145,41 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '700' as const,
   },
+  connectionButtonDisabled: {
+    opacity: 0.5,
+  },
+  accountOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountEmail: {
+    color: Colors.textTertiary,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  addAccountButton: {
+    flex: 0,
+    marginTop: 12,
+  },
+  addAccountForm: {
+    marginTop: 12,
+    gap: 8,
+  },
+  addAccountInput: {
+    backgroundColor: Colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    color: Colors.text,
+    fontSize: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
   tabOption: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -812,6 +1240,39 @@ const styles = StyleSheet.create({
     marginTop: 10,
     lineHeight: 16,
   },
+  configSubheading: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '700' as const,
+    marginTop: 14,
+    marginBottom: 4,
+  },
+  configError: {
+    color: Colors.danger,
+    fontSize: 12,
+  },
+  ruleCategory: {
+    fontSize: 12,
+    fontWeight: '700' as const,
+    marginRight: 12,
+  },
+  categoryChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  categoryChip: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  categoryChipText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '600' as const,
+  },
   disconnectButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -24,12 +24,11 @@ import {
   Layers,
 } from 'lucide-react-native';
 import Colors from '@/constants/colors';
-import { CATEGORY_META } from '@/constants/categories';
+import { ALL_CATEGORIES, CATEGORY_META } from '@/constants/categories';
 import { useLibrary } from '@/hooks/useLibrary';
 import { MediaCategory, DownloadSource } from '@/types/torbox';
 import { formatBytes, formatTimeAgo } from '@/utils/formatters';
 
-const CATEGORIES: MediaCategory[] = ['audiobook', 'music', 'video', 'ebook', 'games', 'other'];
 const INITIAL_RECENT_ITEMS = 5;
 const RECENT_ITEMS_PAGE_SIZE = 25;
 
@@ -43,7 +42,7 @@ export default function StatsScreen() {
   useScrollToTop(statsScrollRef);
 
   const categoryStats = useMemo(() => {
-    return CATEGORIES
+    return ALL_CATEGORIES
       .filter(c => (stats.downloadsByCategory[c] ?? 0) > 0)
       .map(c => ({
         category: c,
@@ -1,6 +1,13 @@
+import { buildAddContentHref, parseIncomingContentLink } from '@/utils/deepLinks';
+
 export function redirectSystemPath({
   path,
   initial,
 }: { path: string; initial: boolean }) {
+  const link = parseIncomingContentLink(path);
+  if (link) {
+    console.log(`[DeepLinks] Opening add-content for incoming ${link.type} link (initial: ${initial})`);
+    return buildAddContentHref(link);
+  }
   return '/';
 }
\ No newline at end of file
@@ -8,7 +8,11 @@ import { AuthProvider } from "@/hooks/useAuth";
 import { LibraryProvider } from "@/hooks/useLibrary";
 import { SettingsProvider } from "@/hooks/useSettings";
 import { CategoryOverrideProvider } from "@/hooks/useCategoryOverrides";
+import { ClassificationConfigProvider } from "@/hooks/useClassificationConfig";
+import { WatchedEpisodesProvider } from "@/hooks/useWatchedEpisodes";
 import { AutomationsProvider } from "@/hooks/useAutomations";
+// Registers the automation background task at startup, including headless launches.
+import "@/services/automationBackground";
 import Colors from "@/constants/colors";
 
 SplashScreen.preventAutoHideAsync();
@@ -41,6 +45,13 @@ function RootLayoutNav() {
           headerStyle: { backgroundColor: Colors.surface },
         }}
       />
+      <Stack.Screen
+        name="show-detail"
+        options={{
+          title: "Show",
+          headerStyle: { backgroundColor: Colors.surface },
+        }}
+      />
       <Stack.Screen
         name="item/[id]"
         options={{
@@ -105,13 +116,17 @@ export default function RootLayout() {
       <GestureHandlerRootView style={{ flex: 1, backgroundColor: Colors.background }}>
         <AuthProvider>
           <SettingsProvider>
-            <CategoryOverrideProvider>
-              <AutomationsProvider>
-                <LibraryProvider>
-                  <RootLayoutNav />
-                </LibraryProvider>
-              </AutomationsProvider>
-            </CategoryOverrideProvider>
+            <ClassificationConfigProvider>
+              <CategoryOverrideProvider>
+                <WatchedEpisodesProvider>
+                  <AutomationsProvider>
+                    <LibraryProvider>
+                      <RootLayoutNav />
+                    </LibraryProvider>
+                  </AutomationsProvider>
+                </WatchedEpisodesProvider>
+              </CategoryOverrideProvider>
+            </ClassificationConfigProvider>
           </SettingsProvider>
         </AuthProvider>
       </GestureHandlerRootView>
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -20,47 +20,298 @@ import {
   Globe,
   Newspaper,
   CheckCircle,
+  FileUp,
+  FileText,
+  AlertTriangle,
+  ListPlus,
+  XCircle,
+  MinusCircle,
+  Zap,
+  Clock,
+  Square,
+  CheckSquare,
 } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
 import Colors from '@/constants/colors';
-import { useLibrary } from '@/hooks/useLibrary';
-import { AddContentType } from '@/types/torbox';
+import { useCachedAvailability, useLibrary } from '@/hooks/useLibrary';
+import { AddContentType, ContentUploadFile } from '@/types/torbox';
+import { formatBytes } from '@/utils/formatters';
+import { torboxApi } from '@/services/torbox-api';
+import { BATCH_MIN_INTERVAL_MS, BatchEntry, BatchEntryStatus, getInfoHash, normalizeBatchUrl, parseBatchInput, runRateLimitedQueue } from '@/utils/batchAdd';
+import { parseIncomingContentLink } from '@/utils/deepLinks';
+import { decodeUploadText, readUploadFileBytes, validateNzbFile, validateTorrentFile } from '@/utils/contentFiles';
+
+const FILE_CONTENT_TYPES: AddContentType[] = ['torrent_file', 'nzb_file'];
+
+const FILE_PICKER_TYPES: Partial<Record<AddContentType, { extension: string; webAccept: string }>> = {
+  torrent_file: { extension: 'torrent', webAccept: '.torrent,application/x-bittorrent' },
+  nzb_file: { extension: 'nzb', webAccept: '.nzb,application/x-nzb,text/xml' },
+};
 
 const CONTENT_TYPES: { type: AddContentType; label: string; icon: React.ComponentType<{ size: number; color: string }>; placeholder: string; description: string }[] = [
   { type: 'magnet', label: 'Magnet Link', icon: Magnet, placeholder: 'magnet:?xt=urn:btih:...', description: 'Paste a magnet link to add a torrent' },
   { type: 'hash', label: 'Info Hash', icon: Hash, placeholder: 'e.g. 08ada5a7a6183aae1e09d831df6748d566095a10', description: 'Enter a torrent info hash' },
   { type: 'web', label: 'Web URL', icon: Globe, placeholder: 'https://example.com/file.zip', description: 'Direct download link for web downloads' },
   { type: 'nzb', label: 'NZB Link', icon: Newspaper, placeholder: 'https://example.com/file.nzb', description: 'URL to an NZB file for Usenet' },
+  { type: 'torrent_file', label: 'Torrent File', icon: FileUp, placeholder: '', description: 'Upload a .torrent file from this device' },
+  { type: 'nzb_file', label: 'NZB File', icon: FileText, placeholder: '', description: 'Upload an .nzb file from this device' },
 ];
 
+const BATCH_TYPE_LABELS: Record<string, string> = {
+  magnet: 'Magnet',
+  hash: 'Hash',
+  web: 'Web',
+  nzb: 'NZB',
+};
+
+// Wait for typing to pause before checking cached availability, so each keystroke doesn't hit the API.
+const BATCH_CACHE_CHECK_DELAY_MS = 500;
+
+const BATCH_STATUS_COLORS: Record<BatchEntryStatus, string> = {
+  ready: Colors.textSecondary,
+  queued: Colors.textTertiary,
+  adding: Colors.accent,
+  added: Colors.primary,
+  duplicate: Colors.secondary,
+  skipped: Colors.secondary,
+  invalid: Colors.danger,
+  failed: Colors.danger,
+};
+
+function CacheBadge({ cached, isChecking }: { cached: boolean | undefined; isChecking: boolean }) {
+  if (cached === undefined) {
+    if (!isChecking) return null;
+    return (
+      <View style={[styles.cacheBadge, styles.cacheBadgePending]}>
+        <Clock size={11} color={Colors.textTertiary} />
+        <Text style={[styles.cacheBadgeText, { color: Colors.textTertiary }]}>Checking cache</Text>
+      </View>
+    );
+  }
+  const color = cached ? Colors.primary : Colors.secondary;
+  return (
+    <View style={[styles.cacheBadge, { backgroundColor: color + '18' }]}>
+      {cached ? <Zap size={11} color={color} /> : <Clock size={11} color={color} />}
+      <Text style={[styles.cacheBadgeText, { color }]}>{cached ? 'Instantly available' : 'Not cached'}</Text>
+    </View>
+  );
+}
+
 export default function AddContentScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const params = useLocalSearchParams<{ type?: AddContentType }>();
-  const { addMagnet, addHash, addWeb, addNzb, isAddingMagnet, isAddingHash, isAddingWeb, isAddingNzb } = useLibrary();
+  const params = useLocalSearchParams<{ type?: AddContentType; value?: string; link?: string }>();
+  const {
+    addMagnet,
+    addHash,
+    addWeb,
+    addNzb,
+    addTorrentFile,
+    addNzbFile,
+    torrents,
+    usenet,
+    webDl,
+    isAddingMagnet,
+    isAddingHash,
+    isAddingWeb,
+    isAddingNzb,
+    isAddingTorrentFile,
+    isAddingNzbFile,
+  } = useLibrary();
+
+  const incomingLink = useMemo(() => {
+    if (params.link) return parseIncomingContentLink(`/add-content?link=${encodeURIComponent(params.link)}`);
+    // Query params are user-controlled (e.g. typed into the web URL bar), so the type goes through the same parser.
+    if (params.value && params.type) return parseIncomingContentLink(`/add-content?type=${encodeURIComponent(params.type)}&value=${encodeURIComponent(params.value)}`);
+    return null;
+  }, [params.link, params.value, params.type]);
 
   const getInitialType = useCallback((): AddContentType => {
-    const requestedType = params.type;
-    if (requestedType === 'magnet' || requestedType === 'hash' || requestedType === 'web' || requestedType === 'nzb') {
+    const requestedType = incomingLink?.type ?? params.type;
+    if (requestedType && CONTENT_TYPES.some(t => t.type === requestedType)) {
       return requestedType;
     }
     return 'magnet';
-  }, [params.type]);
+  }, [incomingLink, params.type]);
 
   const [selectedType, setSelectedType] = useState<AddContentType>(getInitialType);
-  const [inputValue, setInputValue] = useState<string>('');
+  const [inputValue, setInputValue] = useState<string>(incomingLink?.value ?? '');
   const [success, setSuccess] = useState<boolean>(false);
+  const [selectedFile, setSelectedFile] = useState<ContentUploadFile | null>(null);
+  const [fileSummary, setFileSummary] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isValidatingFile, setIsValidatingFile] = useState<boolean>(false);
+  const [isBatchMode, setIsBatchMode] = useState<boolean>(false);
+  const [batchInput, setBatchInput] = useState<string>('');
+  const [batchEntries, setBatchEntries] = useState<BatchEntry[] | null>(null);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const isMountedRef = useRef<boolean>(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!incomingLink || FILE_CONTENT_TYPES.includes(incomingLink.type)) return;
+    console.log(`[AddContent] Prefilling ${incomingLink.type} from incoming link`);
+    setIsBatchMode(false);
+    setSelectedType(incomingLink.type);
+    setInputValue(incomingLink.value);
+  }, [incomingLink]);
+
+  const existingKeys = useMemo(
+    () => new Set([
+      ...torrents.map(t => t.hash?.toLowerCase()),
+      ...[...usenet, ...webDl].map(item => (item.original_url ? normalizeBatchUrl(item.original_url) : null)),
+    ].filter((key): key is string => !!key)),
+    [torrents, usenet, webDl]
+  );
+
+  const parsedBatch = useMemo(
+    () => parseBatchInput(batchInput, existingKeys),
+    [batchInput, existingKeys]
+  );
+  const [onlyCached, setOnlyCached] = useState<boolean>(false);
+  const [debouncedBatchInput, setDebouncedBatchInput] = useState<string>(batchInput);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedBatchInput(batchInput), BATCH_CACHE_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [batchInput]);
+
+  const batchHashes = useMemo(
+    () => (isBatchMode ? parseBatchInput(debouncedBatchInput, existingKeys).filter(e => e.status === 'ready' && (e.type === 'magnet' || e.type === 'hash') && e.key).map(e => e.key!) : []),
+    [isBatchMode, debouncedBatchInput, existingKeys]
+  );
+  const batchCache = useCachedAvailability(batchHashes);
+
+  const plannedBatch = useMemo(() => {
+    if (!onlyCached) return parsedBatch;
+    return parsedBatch.map(e => {
+      if (e.status !== 'ready' || !e.key || (e.type !== 'magnet' && e.type !== 'hash')) return e;
+      return batchCache.cachedByHash?.[e.key] === true ? e : { ...e, status: 'skipped' as const, message: 'Not cached on TorBox' };
+    });
+  }, [onlyCached, parsedBatch, batchCache.cachedByHash]);
+
+  const visibleBatchEntries = batchEntries ?? plannedBatch;
+  const readyBatchCount = plannedBatch.filter(e => e.status === 'ready').length;
+  // With "Only add cached torrents" on, adding must wait for a cache answer that covers the current text.
+  const hasBatchTorrents = parsedBatch.some(e => e.status === 'ready' && (e.type === 'magnet' || e.type === 'hash'));
+  const isBatchCachePending = onlyCached && hasBatchTorrents && !batchCache.checkError && (batchInput !== debouncedBatchInput || batchCache.isChecking || !batchCache.cachedByHash);
+  const batchCacheError = onlyCached && hasBatchTorrents ? batchCache.checkError : null;
+  const canSubmitBatch = readyBatchCount > 0 && !isBatchCachePending && !batchCacheError;
+  const batchSummary = useMemo(() => {
+    const counts: Partial<Record<BatchEntryStatus, number>> = {};
+    for (const entry of visibleBatchEntries) counts[entry.status] = (counts[entry.status] ?? 0) + 1;
+    return counts;
+  }, [visibleBatchEntries]);
 
-  const isAdding = isAddingMagnet || isAddingHash || isAddingWeb || isAddingNzb;
+  const isAdding = isAddingMagnet || isAddingHash || isAddingWeb || isAddingNzb || isAddingTorrentFile || isAddingNzbFile;
+  const isFileType = FILE_CONTENT_TYPES.includes(selectedType);
+  const singleHash = useMemo(() => getInfoHash(selectedType, inputValue), [selectedType, inputValue]);
+  const singleHashes = useMemo(() => (singleHash && !isBatchMode ? [singleHash] : []), [singleHash, isBatchMode]);
+  const singleCache = useCachedAvailability(singleHashes);
+  const singleCached = singleHash ? singleCache.cachedByHash?.[singleHash] : undefined;
+  const isTorrentInput = selectedType === 'magnet' || selectedType === 'hash';
+  const canSubmit = isFileType ? !!selectedFile && !fileError && !isValidatingFile : !!inputValue.trim();
 
   const currentType = CONTENT_TYPES.find(t => t.type === selectedType)!;
 
+  const resetFile = useCallback(() => {
+    setSelectedFile(null);
+    setFileSummary(null);
+    setFileError(null);
+  }, []);
+
+  const handlePickFile = useCallback(async () => {
+    const pickerType = FILE_PICKER_TYPES[selectedType];
+    if (!pickerType) return;
+
+    const result = await DocumentPicker.getDocumentAsync({
+      type: Platform.OS === 'web' ? pickerType.webAccept : '*/*',
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+
+    const asset = result.assets[0];
+    const file: ContentUploadFile = {
+      uri: asset.uri,
+      name: asset.name,
+      mimeType: asset.mimeType ?? null,
+      size: asset.size ?? null,
+      webFile: asset.file,
+    };
+    setSelectedFile(file);
+    setFileSummary(null);
+    setFileError(null);
+    setIsValidatingFile(true);
+
+    try {
+      if (!file.name.toLowerCase().endsWith(`.${pickerType.extension}`)) {
+        throw new Error(`Please choose a .${pickerType.extension} file.`);
+      }
+      const bytes = await readUploadFileBytes(file);
+      if (selectedType === 'torrent_file') {
+        const summary = validateTorrentFile(bytes);
+        setFileSummary(`${summary.name} · ${summary.fileCount} file${summary.fileCount === 1 ? '' : 's'} · ${formatBytes(summary.totalSize)}`);
+      } else {
+        const summary = validateNzbFile(decodeUploadText(bytes));
+        setFileSummary(`${summary.fileCount} file${summary.fileCount === 1 ? '' : 's'} · ${summary.segmentCount} segments · ${formatBytes(summary.totalSize)}`);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to read the selected file.';
+      console.warn('[AddContent] File validation failed:', message);
+      setFileError(message);
+    } finally {
+      setIsValidatingFile(false);
+    }
+  }, [selectedType]);
+
   const handleSubmit = useCallback(async () => {
+    if (isFileType) {
+      if (!selectedFile || fileError) {
+        Alert.alert('Error', fileError ?? 'Please choose a file to upload');
+        return;
+      }
+      try {
+        if (selectedType === 'torrent_file') {
+          await addTorrentFile(selectedFile);
+        } else {
+          await addNzbFile(selectedFile);
+        }
+        setSuccess(true);
+        resetFile();
+        setTimeout(() => {
+          setSuccess(false);
+          router.back();
+        }, 1500);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to upload file';
+        Alert.alert('Error', message);
+      }
+      return;
+    }
+
     const value = inputValue.trim();
     if (!value) {
       Alert.alert('Error', 'Please enter a value');
       return;
     }
 
+    if (onlyCached && isTorrentInput && singleCached !== true) {
+      Alert.alert(
+        'Not cached',
+        singleCached === false
+          ? 'TorBox does not have this torrent cached yet. Turn off "Only add cached torrents" to add it anyway.'
+          : 'Cached availability could not be confirmed for this torrent yet.'
+      );
+      return;
+    }
+
     try {
       switch (selectedType) {
         case 'magnet':
@@ -86,7 +337,75 @@ export default function AddContentScreen() {
       const message = err instanceof Error ? err.message : 'Failed to add content';
       Alert.alert('Error', message);
     }
-  }, [selectedType, inputValue, addMagnet, addHash, addWeb, addNzb, router]);
+  }, [isFileType, selectedFile, fileError, selectedType, inputValue, onlyCached, isTorrentInput, singleCached, addMagnet, addHash, addWeb, addNzb, addTorrentFile, addNzbFile, resetFile, router]);
+
+  const updateBatchEntry = useCallback((lineNumber: number, patch: Partial<BatchEntry>) => {
+    setBatchEntries(prev => prev?.map(e => (e.lineNumber === lineNumber ? { ...e, ...patch } : e)) ?? prev);
+  }, []);
+
+  const handleBatchSubmit = useCallback(async () => {
+    const entries = plannedBatch.map(e => (e.status === 'ready' ? { ...e, status: 'queued' as const } : e));
+    const jobs = entries.filter(e => e.status === 'queued');
+    if (jobs.length === 0) {
+      Alert.alert('Nothing to add', 'No new magnets, hashes, or URLs were found.');
+      return;
+    }
+
+    console.log(`[AddContent] Batch adding ${jobs.length} items`);
+    setBatchEntries(entries);
+    setIsBatchRunning(true);
+
+    await runRateLimitedQueue(jobs, async (entry) => {
+      updateBatchEntry(entry.lineNumber, { status: 'adding' });
+      try {
+        switch (entry.type) {
+          case 'magnet':
+            await addMagnet(entry.value);
+            break;
+          case 'hash':
+            await addHash(entry.value);
+            break;
+          case 'web':
+            await addWeb(entry.value);
+            break;
+          case 'nzb':
+            await addNzb(entry.value);
+            break;
+        }
+        updateBatchEntry(entry.lineNumber, { status: 'added', message: null });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add';
+        console.warn(`[AddContent] Batch line ${entry.lineNumber} failed:`, message);
+        updateBatchEntry(entry.lineNumber, { status: 'failed', message });
+      }
+    }, {
+      minIntervalMs: BATCH_MIN_INTERVAL_MS,
+      getBackoffMs: () => torboxApi.getBackoffMs(),
+      shouldContinue: () => isMountedRef.current,
+    });
+
+    if (isMountedRef.current) setIsBatchRunning(false);
+  }, [plannedBatch, updateBatchEntry, addMagnet, addHash, addWeb, addNzb]);
+
+  const resetBatch = useCallback(() => {
+    setBatchEntries(null);
+    setBatchInput('');
+  }, []);
+
+  const renderOnlyCachedToggle = () => (
+    <TouchableOpacity
+      style={styles.cachedToggle}
+      onPress={() => setOnlyCached(prev => !prev)}
+      activeOpacity={0.7}
+      testID="only-cached-toggle"
+    >
+      {onlyCached ? <CheckSquare size={18} color={Colors.primary} /> : <Square size={18} color={Colors.textTertiary} />}
+      <View style={styles.flex}>
+        <Text style={styles.cachedToggleTitle}>Only add cached torrents</Text>
+        <Text style={styles.cachedToggleSub}>Skip torrents TorBox cannot serve instantly to save active slots</Text>
+      </View>
+    </TouchableOpacity>
+  );
 
   return (
     <KeyboardAvoidingView
@@ -116,59 +435,229 @@ export default function AddContentScreen() {
             </View>
           ) : (
             <>
-              <View style={styles.typeSelector}>
-                {CONTENT_TYPES.map(ct => {
-                  const Icon = ct.icon;
-                  const isActive = selectedType === ct.type;
-                  return (
+              <View style={styles.modeToggle}>
+                <TouchableOpacity
+                  style={[styles.modeOption, !isBatchMode && styles.modeOptionActive]}
+                  onPress={() => setIsBatchMode(false)}
+                  disabled={isBatchRunning}
+                  testID="add-content-mode-single"
+                >
+                  <Text style={[styles.modeOptionText, !isBatchMode && styles.modeOptionTextActive]}>Single</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modeOption, isBatchMode && styles.modeOptionActive]}
+                  onPress={() => setIsBatchMode(true)}
+                  disabled={isAdding}
+                  testID="add-content-mode-batch"
+                >
+                  <ListPlus size={14} color={isBatchMode ? Colors.primary : Colors.textTertiary} />
+                  <Text style={[styles.modeOptionText, isBatchMode && styles.modeOptionTextActive]}>Batch</Text>
+                </TouchableOpacity>
+              </View>
+
+              {isBatchMode ? (
+                <>
+                  <Text style={styles.description}>
+                    Paste one magnet, info hash, web URL, or NZB link per line. Types are detected automatically and items already in your library are skipped.
+                  </Text>
+
+                  {batchEntries === null && (
+                    <View style={styles.inputContainer}>
+                      <TextInput
+                        style={[styles.input, styles.batchInput]}
+                        value={batchInput}
+                        onChangeText={setBatchInput}
+                        placeholder={'magnet:?xt=urn:btih:...\nhttps://example.com/file.zip\nhttps://example.com/file.nzb'}
+                        placeholderTextColor={Colors.textTertiary}
+                        multiline
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        testID="add-content-batch-input"
+                      />
+                    </View>
+                  )}
+
+                  {visibleBatchEntries.length > 0 && (
+                    <View style={styles.batchReport}>
+                      <Text style={styles.batchSummaryText}>
+                        {batchEntries === null
+                          ? `${readyBatchCount} to add · ${batchSummary.duplicate ?? 0} duplicate · ${batchSummary.invalid ?? 0} unrecognized${onlyCached ? ` · ${batchSummary.skipped ?? 0} not cached` : ''}`
+                          : `${batchSummary.added ?? 0} added · ${batchSummary.failed ?? 0} failed · ${(batchSummary.queued ?? 0) + (batchSummary.adding ?? 0)} pending`}
+                      </Text>
+                      {visibleBatchEntries.map(entry => (
+                        <View key={entry.lineNumber} style={styles.batchRow}>
+                          {entry.status === 'adding' ? (
+                            <ActivityIndicator size="small" color={BATCH_STATUS_COLORS.adding} />
+                          ) : entry.status === 'added' ? (
+                            <CheckCircle size={14} color={BATCH_STATUS_COLORS.added} />
+                          ) : entry.status === 'failed' || entry.status === 'invalid' ? (
+                            <XCircle size={14} color={BATCH_STATUS_COLORS[entry.status]} />
+                          ) : entry.status === 'duplicate' || entry.status === 'skipped' ? (
+                            <MinusCircle size={14} color={BATCH_STATUS_COLORS[entry.status]} />
+                          ) : (
+                            <View style={[styles.batchDot, { backgroundColor: BATCH_STATUS_COLORS[entry.status] }]} />
+                          )}
+                          <View style={styles.batchRowInfo}>
+                            <Text style={styles.batchRowValue} numberOfLines={1}>
+                              {entry.lineNumber}. {entry.type ? `[${BATCH_TYPE_LABELS[entry.type]}] ` : ''}{entry.value}
+                            </Text>
+                            {entry.message && (
+                              <Text style={[styles.batchRowMessage, { color: BATCH_STATUS_COLORS[entry.status] }]} numberOfLines={2}>
+                                {entry.message}
+                              </Text>
+                            )}
+                            {entry.key && (entry.type === 'magnet' || entry.type === 'hash') && entry.status !== 'duplicate' && (
+                              <CacheBadge cached={batchCache.cachedByHash?.[entry.key]} isChecking={batchCache.isChecking} />
+                            )}
+                          </View>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {batchEntries === null && renderOnlyCachedToggle()}
+
+                  {batchEntries === null && batchCacheError && (
+                    <View style={styles.fileStatusRow}>
+                      <AlertTriangle size={14} color={Colors.danger} />
+                      <Text style={[styles.fileStatusText, styles.fileErrorText]}>
+                        Could not check cached availability: {batchCacheError}
+                      </Text>
+                    </View>
+                  )}
+
+                  {batchEntries === null ? (
                     <TouchableOpacity
-                      key={ct.type}
-                      style={[styles.typeChip, isActive && styles.typeChipActive]}
-                      onPress={() => {
-                        setSelectedType(ct.type);
-                        setInputValue('');
-                      }}
+                      style={[styles.submitButton, !canSubmitBatch && styles.submitButtonDisabled]}
+                      onPress={handleBatchSubmit}
+                      disabled={!canSubmitBatch}
+                      activeOpacity={0.7}
+                      testID="submit-batch"
                     >
-                      <Icon size={16} color={isActive ? Colors.primary : Colors.textTertiary} />
-                      <Text style={[styles.typeChipText, isActive && styles.typeChipTextActive]}>
-                        {ct.label}
-                      </Text>
+                      {isBatchCachePending ? (
+                        <Text style={styles.submitText}>Checking Cache...</Text>
+                      ) : (
+                        <Text style={styles.submitText}>
+                          Add {readyBatchCount} Item{readyBatchCount === 1 ? '' : 's'}
+                        </Text>
+                      )}
                     </TouchableOpacity>
-                  );
-                })}
-              </View>
+                  ) : (
+                    <TouchableOpacity
+                      style={[styles.submitButton, isBatchRunning && styles.submitButtonDisabled]}
+                      onPress={isBatchRunning ? undefined : resetBatch}
+                      disabled={isBatchRunning}
+                      activeOpacity={0.7}
+                      testID="reset-batch"
+                    >
+                      {isBatchRunning ? (
+                        <ActivityIndicator size="small" color={Colors.text} />
+                      ) : (
+                        <Text style={styles.submitText}>Start New Batch</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </>
+              ) : (
+                <>
+                  <View style={styles.typeSelector}>
+                    {CONTENT_TYPES.map(ct => {
+                      const Icon = ct.icon;
+                      const isActive = selectedType === ct.type;
+                      return (
+                        <TouchableOpacity
+                          key={ct.type}
+                          style={[styles.typeChip, isActive && styles.typeChipActive]}
+                          onPress={() => {
+                            setSelectedType(ct.type);
+                            setInputValue('');
+                            resetFile();
+                          }}
+                        >
+                          <Icon size={16} color={isActive ? Colors.primary : Colors.textTertiary} />
+                          <Text style={[styles.typeChipText, isActive && styles.typeChipTextActive]}>
+                            {ct.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
 
-              <Text style={styles.description}>{currentType.description}</Text>
-
-              <View style={styles.inputContainer}>
-                <TextInput
-                  style={styles.input}
-                  value={inputValue}
-                  onChangeText={setInputValue}
-                  placeholder={currentType.placeholder}
-                  placeholderTextColor={Colors.textTertiary}
-                  multiline
-                  autoCapitalize="none"
-                  autoCorrect={false}
-                  testID="add-content-input"
-                />
-              </View>
+                  <Text style={styles.description}>{currentType.description}</Text>
 
-              <TouchableOpacity
-                style={[styles.submitButton, isAdding && styles.submitButtonDisabled]}
-                onPress={handleSubmit}
-                disabled={isAdding || !inputValue.trim()}
-                activeOpacity={0.7}
-                testID="submit-content"
-              >
-                {isAdding ? (
-                  <ActivityIndicator size="small" color={Colors.text} />
-                ) : (
-                  <Text style={styles.submitText}>
-                    Add {currentType.label}
-                  </Text>
-                )}
-              </TouchableOpacity>
+                  {isFileType ? (
+                    <View style={styles.inputContainer}>
+                      <TouchableOpacity
+                        style={styles.filePickerButton}
+                        onPress={handlePickFile}
+                        disabled={isAdding || isValidatingFile}
+                        activeOpacity={0.7}
+                        testID="add-content-pick-file"
+                      >
+                        <FileUp size={18} color={Colors.primary} />
+                        <Text style={styles.filePickerText} numberOfLines={1}>
+                          {selectedFile ? selectedFile.name : `Choose .${FILE_PICKER_TYPES[selectedType]?.extension} file`}
+                        </Text>
+                      </TouchableOpacity>
+                      {isValidatingFile && (
+                        <View style={styles.fileStatusRow}>
+                          <ActivityIndicator size="small" color={Colors.textSecondary} />
+                          <Text style={styles.fileStatusText}>Checking file...</Text>
+                        </View>
+                      )}
+                      {fileSummary && !fileError && (
+                        <View style={styles.fileStatusRow}>
+                          <CheckCircle size={14} color={Colors.primary} />
+                          <Text style={styles.fileStatusText} numberOfLines={2}>{fileSummary}</Text>
+                        </View>
+                      )}
+                      {fileError && (
+                        <View style={styles.fileStatusRow}>
+                          <AlertTriangle size={14} color={Colors.danger} />
+                          <Text style={[styles.fileStatusText, styles.fileErrorText]}>{fileError}</Text>
+                        </View>
+                      )}
+                    </View>
+                  ) : (
+                    <View style={styles.inputContainer}>
+                      <TextInput
+                        style={styles.input}
+                        value={inputValue}
+                        onChangeText={setInputValue}
+                        placeholder={currentType.placeholder}
+                        placeholderTextColor={Colors.textTertiary}
+                        multiline
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        testID="add-content-input"
+                      />
+                      {singleHash && (
+                        <View style={styles.fileStatusRow}>
+                          <CacheBadge cached={singleCached} isChecking={singleCache.isChecking} />
+                        </View>
+                      )}
+                    </View>
+                  )}
+
+                  {isTorrentInput && renderOnlyCachedToggle()}
+
+                  <TouchableOpacity
+                    style={[styles.submitButton, (isAdding || !canSubmit) && styles.submitButtonDisabled]}
+                    onPress={handleSubmit}
+                    disabled={isAdding || !canSubmit}
+                    activeOpacity={0.7}
+                    testID="submit-content"
+                  >
+                    {isAdding ? (
+                      <ActivityIndicator size="small" color={Colors.text} />
+                    ) : (
+                      <Text style={styles.submitText}>
+                        Add {currentType.label}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
             </>
           )}
         </ScrollView>
@@ -201,6 +690,75 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 40,
   },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 4,
+    marginBottom: 16,
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    borderRadius: 9,
+  },
+  modeOptionActive: {
+    backgroundColor: Colors.primary + '15',
+  },
+  modeOptionText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: Colors.textSecondary,
+  },
+  modeOptionTextActive: {
+    color: Colors.primary,
+  },
+  batchInput: {
+    minHeight: 180,
+  },
+  batchReport: {
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 14,
+    marginBottom: 20,
+    gap: 10,
+  },
+  batchSummaryText: {
+    color: Colors.text,
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  batchRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  batchDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 4,
+    marginHorizontal: 3,
+  },
+  batchRowInfo: {
+    flex: 1,
+  },
+  batchRowValue: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+  batchRowMessage: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   typeSelector: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -250,6 +808,72 @@ const styles = StyleSheet.create({
     minHeight: 100,
     textAlignVertical: 'top',
   },
+  filePickerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 16,
+  },
+  filePickerText: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  fileStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 14,
+  },
+  fileStatusText: {
+    flex: 1,
+    color: Colors.textSecondary,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  fileErrorText: {
+    color: Colors.danger,
+  },
+  cacheBadge: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  cacheBadgePending: {
+    backgroundColor: Colors.surfaceBright,
+  },
+  cacheBadgeText: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+  },
+  cachedToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 14,
+    marginBottom: 20,
+  },
+  cachedToggleTitle: {
+    color: Colors.text,
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  cachedToggleSub: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
   submitButton: {
     backgroundColor: Colors.primary,
     borderRadius: 14,
@@ -12,12 +12,6 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import {
-  Headphones,
-  Music,
-  Film,
-  BookOpen,
-  Gamepad2,
-  File,
   FileText,
   ExternalLink,
   Trash2,
@@ -28,26 +22,21 @@ import {
   FolderOpen,
   Link2,
   ChevronLeft,
+  Tag,
+  X,
 } from 'lucide-react-native';
 import * as Linking from 'expo-linking';
 import { useMutation } from '@tanstack/react-query';
 import Colors from '@/constants/colors';
 import { CATEGORY_META } from '@/constants/categories';
+import { CATEGORY_ICONS } from '@/constants/categoryIcons';
 import { MediaCategory, LibraryItem, DownloadSource } from '@/types/torbox';
 import { formatBytes, truncateMiddle, formatTimeAgo } from '@/utils/formatters';
 import { torboxApi } from '@/services/torbox-api';
 import { useLibrary } from '@/hooks/useLibrary';
+import { useItemTags } from '@/hooks/useItemTags';
 import { selectPrimaryDownloadFile } from '@/utils/downloadSelection';
 
-const ICONS: Record<MediaCategory, React.ComponentType<{ size: number; color: string }>> = {
-  audiobook: Headphones,
-  music: Music,
-  video: Film,
-  ebook: BookOpen,
-  games: Gamepad2,
-  other: File,
-};
-
 interface SectionData {
   title: string;
   color: string;
@@ -77,6 +66,7 @@ export default function DownloadDetailScreen() {
   const source = (params.source ?? 'torrent') as DownloadSource;
   const sourceId = Number(params.sourceId ?? 0);
   const isComplete = params.downloadFinished === 'true';
+  const { tags, removeTag } = useItemTags(source, sourceId);
 
   const subFiles = useMemo(() => {
     return libraryItems.filter(
@@ -101,7 +91,7 @@ export default function DownloadDetailScreen() {
       result.push({
         title: meta.label,
         color: meta.color,
-        icon: ICONS[cat],
+        icon: CATEGORY_ICONS[cat],
         count: files.length,
         totalSize: files.reduce((sum, f) => sum + f.fileSize, 0),
         data: sorted,
@@ -313,6 +303,25 @@ export default function DownloadDetailScreen() {
 
               <Text style={styles.heroName}>{params.name}</Text>
 
+              {tags.length > 0 && (
+                <View style={styles.tagRow}>
+                  {tags.map(tag => (
+                    <TouchableOpacity
+                      key={tag}
+                      style={styles.tagChip}
+                      onPress={() => Alert.alert('Remove Tag', `Remove "${tag}" from this download?`, [
+                        { text: 'Cancel', style: 'cancel' },
+                        { text: 'Remove', style: 'destructive', onPress: () => { void removeTag(tag); } },
+                      ])}
+                    >
+                      <Tag size={10} color={Colors.primary} />
+                      <Text style={styles.tagChipText}>{tag}</Text>
+                      <X size={10} color={Colors.textTertiary} />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
               <View style={styles.heroStats}>
                 <View style={styles.heroStat}>
                   <Text style={styles.heroStatValue}>{formatBytes(Number(params.size ?? 0))}</Text>
@@ -478,6 +487,27 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     marginBottom: 16,
   },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: Colors.primary + '15',
+  },
+  tagChipText: {
+    color: Colors.primary,
+    fontSize: 11,
+    fontWeight: '600' as const,
+  },
   heroStats: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -13,12 +13,6 @@ import {
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import {
   ChevronLeft,
-  Headphones,
-  Music,
-  Film,
-  BookOpen,
-  Gamepad2,
-  File,
   ExternalLink,
   Trash2,
   Link,
@@ -29,21 +23,13 @@ import * as Linking from 'expo-linking';
 import { useMutation } from '@tanstack/react-query';
 import Colors from '@/constants/colors';
 import { CATEGORY_META, AUDIO_EXTENSIONS } from '@/constants/categories';
+import { CATEGORY_ICONS } from '@/constants/categoryIcons';
 import { MediaCategory, LibraryItem } from '@/types/torbox';
 import { formatBytes, truncateMiddle } from '@/utils/formatters';
 import { torboxApi } from '@/services/torbox-api';
 import { useLibrary } from '@/hooks/useLibrary';
 import { selectPrimaryDownloadFile } from '@/utils/downloadSelection';
 
-const ICONS: Record<MediaCategory, React.ComponentType<{ size: number; color: string }>> = {
-  audiobook: Headphones,
-  music: Music,
-  video: Film,
-  ebook: BookOpen,
-  games: Gamepad2,
-  other: File,
-};
-
 export default function ItemDetailScreen() {
   const params = useLocalSearchParams<{
     id: string;
@@ -65,8 +51,9 @@ export default function ItemDetailScreen() {
   const [activeRelatedDownloadId, setActiveRelatedDownloadId] = useState<string | null>(null);
 
   const category = (params.category || 'other') as MediaCategory;
+  const isAudioCategory = category === 'audiobook' || category === 'podcast' || category === 'music';
   const meta = CATEGORY_META[category];
-  const Icon = ICONS[category];
+  const Icon = CATEGORY_ICONS[category];
 
   const siblingFiles = useMemo(() => {
     return libraryItems.filter(
@@ -79,11 +66,11 @@ export default function ItemDetailScreen() {
   }, [siblingFiles, params.parentName, params.fileName]);
 
   const audiobookTracks = useMemo(() => {
-    if (category !== 'audiobook' && category !== 'music') return [];
+    if (!isAudioCategory) return [];
     return siblingFiles
       .filter(f => AUDIO_EXTENSIONS.includes(f.extension))
       .sort((a, b) => a.fileName.localeCompare(b.fileName));
-  }, [siblingFiles, category]);
+  }, [siblingFiles, isAudioCategory]);
 
   const downloadLinkMutation = useMutation({
     mutationFn: async () => {
@@ -372,7 +359,7 @@ export default function ItemDetailScreen() {
       {audiobookTracks.length > 1 && (
         <View style={styles.tracksSection}>
           <Text style={styles.sectionTitle}>
-            {category === 'audiobook' ? 'Chapters' : 'Tracks'} ({audiobookTracks.length})
+            {category === 'audiobook' ? 'Chapters' : category === 'podcast' ? 'Episodes' : 'Tracks'} ({audiobookTracks.length})
           </Text>
           {audiobookTracks.map((track, idx) => (
             <TouchableOpacity
@@ -404,7 +391,7 @@ export default function ItemDetailScreen() {
         </View>
       )}
 
-      {siblingFiles.length > 1 && category !== 'audiobook' && category !== 'music' && (
+      {siblingFiles.length > 1 && !isAudioCategory && (
         <View style={styles.tracksSection}>
           <Text style={styles.sectionTitle}>
             Related Files ({siblingFiles.length})
@@ -0,0 +1,386 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { Tv, CheckCircle, Circle, ExternalLink } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { LibraryItem, ShowEpisode, ShowSeason } from '@/types/torbox';
+import { formatBytes, truncateMiddle } from '@/utils/formatters';
+import { formatEpisodeCode, formatReleaseTags } from '@/utils/releaseName';
+import { countWatchedEpisodes, getNextEpisode } from '@/utils/showGroups';
+import { useLibrary } from '@/hooks/useLibrary';
+import { useWatchedEpisodes } from '@/hooks/useWatchedEpisodes';
+
+interface SeasonSection {
+  season: ShowSeason;
+  data: ShowEpisode[];
+}
+
+const SOURCE_LABELS: Record<string, string> = { torrent: 'Torrent', usenet: 'Usenet', web: 'Web' };
+
+export default function ShowDetailScreen() {
+  const params = useLocalSearchParams<{ showId: string; title: string }>();
+  const router = useRouter();
+  const { showGroups } = useLibrary();
+  const { watched, setEpisodesWatched } = useWatchedEpisodes();
+
+  const show = useMemo(() => showGroups.find(group => group.id === params.showId) ?? null, [showGroups, params.showId]);
+  const sections = useMemo((): SeasonSection[] => show?.seasons.map(season => ({ season, data: season.episodes })) ?? [], [show]);
+  const nextEpisode = useMemo(() => show ? getNextEpisode(show, watched) : null, [show, watched]);
+  const watchedCount = useMemo(() => show ? countWatchedEpisodes(show, watched) : 0, [show, watched]);
+
+  const handleOpenFile = useCallback((file: LibraryItem) => {
+    router.push({
+      pathname: '/item/[id]' as any,
+      params: {
+        id: file.id,
+        sourceId: String(file.sourceId),
+        fileId: String(file.fileId),
+        source: file.source,
+        fileName: file.fileName,
+        parentName: file.parentName,
+        fileSize: String(file.fileSize),
+        category: file.category,
+        extension: file.extension,
+      },
+    });
+  }, [router]);
+
+  const handleToggleSeason = useCallback((season: ShowSeason) => {
+    const keys = season.episodes.map(episode => episode.key);
+    const allWatched = keys.every(key => watched[key]);
+    void setEpisodesWatched(keys, !allWatched);
+  }, [watched, setEpisodesWatched]);
+
+  const renderEpisode = useCallback(({ item }: { item: ShowEpisode }) => {
+    const isWatched = !!watched[item.key];
+    const best = item.files[0];
+    const tags = formatReleaseTags(best.release);
+    const sources = [...new Set(item.files.map(file => SOURCE_LABELS[file.source] ?? file.source))];
+    return (
+      <TouchableOpacity
+        style={[styles.episodeRow, nextEpisode?.key === item.key && styles.episodeRowNext]}
+        onPress={() => handleOpenFile(best)}
+        activeOpacity={0.7}
+        testID={`episode-${item.key}`}
+      >
+        <TouchableOpacity
+          onPress={() => setEpisodesWatched([item.key], !isWatched)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          testID={`episode-watched-${item.key}`}
+        >
+          {isWatched ? (
+            <CheckCircle size={22} color={Colors.statusComplete} />
+          ) : (
+            <Circle size={22} color={Colors.textTertiary} />
+          )}
+        </TouchableOpacity>
+        <View style={styles.episodeInfo}>
+          <Text style={[styles.episodeCode, isWatched && styles.episodeWatched]}>
+            {formatEpisodeCode(item.season, item.episode)}
+          </Text>
+          <Text style={styles.episodeMeta} numberOfLines={1}>
+            {[tags || `.${best.extension.toUpperCase()}`, formatBytes(best.fileSize)].join(' · ')}
+          </Text>
+          {item.files.length > 1 && (
+            <Text style={styles.episodeCopies} numberOfLines={1}>
+              {item.files.length} copies · {sources.join(', ')}
+            </Text>
+          )}
+        </View>
+        <ExternalLink size={16} color={Colors.categoryTv} />
+      </TouchableOpacity>
+    );
+  }, [watched, nextEpisode, handleOpenFile, setEpisodesWatched]);
+
+  const renderSectionHeader = useCallback(({ section }: { section: SeasonSection }) => {
+    const seasonWatched = section.season.episodes.filter(episode => watched[episode.key]).length;
+    const allWatched = seasonWatched === section.season.episodes.length;
+    return (
+      <View style={styles.seasonHeader}>
+        <View>
+          <Text style={styles.seasonTitle}>{section.season.season === 0 ? 'Specials' : `Season ${section.season.season}`}</Text>
+          <Text style={styles.seasonMeta}>
+            {seasonWatched}/{section.season.episodes.length} watched · {formatBytes(section.season.totalSize)}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.seasonAction} onPress={() => handleToggleSeason(section.season)}>
+          <Text style={styles.seasonActionText}>{allWatched ? 'Mark unwatched' : 'Mark watched'}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }, [watched, handleToggleSeason]);
+
+  const title = show?.title ?? params.title ?? '';
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: truncateMiddle(title, 24) }} />
+      <SectionList
+        sections={sections}
+        renderItem={renderEpisode}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={(item) => item.key}
+        contentContainerStyle={styles.listContent}
+        stickySectionHeadersEnabled={false}
+        ListHeaderComponent={
+          show ? (
+            <View>
+              <View style={styles.heroCard}>
+                <View style={styles.heroIconWrap}>
+                  <Tv size={40} color={Colors.categoryTv} />
+                </View>
+                <Text style={styles.heroTitle} numberOfLines={3}>
+                  {show.year !== undefined ? `${show.title} (${show.year})` : show.title}
+                </Text>
+                <View style={styles.heroMeta}>
+                  <Text style={styles.heroMetaText}>{show.episodeCount} episodes</Text>
+                  <Text style={styles.heroDot}>·</Text>
+                  <Text style={styles.heroMetaText}>{watchedCount} watched</Text>
+                  <Text style={styles.heroDot}>·</Text>
+                  <Text style={styles.heroMetaText}>{formatBytes(show.totalSize)}</Text>
+                </View>
+                <Text style={styles.heroSubMeta}>
+                  From {show.downloadCount} {show.downloadCount === 1 ? 'download' : 'downloads'}
+                </Text>
+              </View>
+
+              {nextEpisode && (
+                <View style={styles.nextCard}>
+                  <View style={styles.nextInfo}>
+                    <Text style={styles.nextLabel}>Up next</Text>
+                    <Text style={styles.nextTitle}>{formatEpisodeCode(nextEpisode.season, nextEpisode.episode)}</Text>
+                    <Text style={styles.nextMeta} numberOfLines={1}>{truncateMiddle(nextEpisode.files[0].parentName, 40)}</Text>
+                  </View>
+                  <TouchableOpacity style={styles.nextBtn} onPress={() => handleOpenFile(nextEpisode.files[0])} testID="show-next-episode-btn">
+                    <Text style={styles.nextBtnText}>Open</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.nextBtnSecondary} onPress={() => setEpisodesWatched([nextEpisode.key], true)}>
+                    <CheckCircle size={18} color={Colors.statusComplete} />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          ) : null
+        }
+        ListFooterComponent={
+          show && show.extras.length > 0 ? (
+            <View>
+              <View style={styles.seasonHeader}>
+                <View>
+                  <Text style={styles.seasonTitle}>Other files</Text>
+                  <Text style={styles.seasonMeta}>{show.extras.length} without an episode number</Text>
+                </View>
+              </View>
+              {show.extras.map(file => (
+                <TouchableOpacity key={file.id} style={styles.episodeRow} onPress={() => handleOpenFile(file)} activeOpacity={0.7}>
+                  <View style={styles.episodeInfo}>
+                    <Text style={styles.extraName} numberOfLines={1}>{file.fileName}</Text>
+                    <Text style={styles.episodeMeta}>{formatBytes(file.fileSize)}</Text>
+                  </View>
+                  <ExternalLink size={16} color={Colors.categoryTv} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : null
+        }
+        ListEmptyComponent={
+          !show ? (
+            <View style={styles.empty}>
+              <Text style={styles.emptyText}>This show is no longer in your library</Text>
+            </View>
+          ) : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  heroCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 18,
+    marginTop: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    alignItems: 'center',
+  },
+  heroIconWrap: {
+    width: 78,
+    height: 78,
+    borderRadius: 16,
+    backgroundColor: Colors.categoryTv + '18',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.categoryTv + '30',
+  },
+  heroTitle: {
+    color: Colors.text,
+    fontSize: 20,
+    fontWeight: '800' as const,
+    textAlign: 'center' as const,
+    lineHeight: 26,
+    marginBottom: 8,
+  },
+  heroMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  heroMetaText: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  heroDot: {
+    color: Colors.textTertiary,
+    fontSize: 13,
+  },
+  heroSubMeta: {
+    color: Colors.textTertiary,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  nextCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.categoryTv + '10',
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.categoryTv + '30',
+    gap: 10,
+  },
+  nextInfo: {
+    flex: 1,
+  },
+  nextLabel: {
+    color: Colors.categoryTv,
+    fontSize: 11,
+    fontWeight: '700' as const,
+    textTransform: 'uppercase' as const,
+  },
+  nextTitle: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '700' as const,
+    marginTop: 2,
+  },
+  nextMeta: {
+    color: Colors.textTertiary,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  nextBtn: {
+    backgroundColor: Colors.categoryTv,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+  },
+  nextBtnText: {
+    color: Colors.background,
+    fontSize: 13,
+    fontWeight: '700' as const,
+  },
+  nextBtnSecondary: {
+    backgroundColor: Colors.surface,
+    borderRadius: 10,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  seasonHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  seasonTitle: {
+    color: Colors.text,
+    fontSize: 17,
+    fontWeight: '700' as const,
+  },
+  seasonMeta: {
+    color: Colors.textTertiary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  seasonAction: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  seasonActionText: {
+    color: Colors.primary,
+    fontSize: 12,
+    fontWeight: '600' as const,
+  },
+  episodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 11,
+    paddingHorizontal: 10,
+    marginBottom: 2,
+    gap: 12,
+  },
+  episodeRowNext: {
+    backgroundColor: Colors.categoryTv + '10',
+  },
+  episodeInfo: {
+    flex: 1,
+  },
+  episodeCode: {
+    color: Colors.text,
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  episodeWatched: {
+    color: Colors.textTertiary,
+  },
+  episodeMeta: {
+    color: Colors.textTertiary,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  episodeCopies: {
+    color: Colors.accent,
+    fontSize: 11,
+    fontWeight: '600' as const,
+    marginTop: 2,
+  },
+  extraName: {
+    color: Colors.text,
+    fontSize: 14,
+    fontWeight: '500' as const,
+  },
+  empty: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: Colors.textTertiary,
+    fontSize: 14,
+  },
+});
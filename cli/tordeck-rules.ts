@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+// Headless runner for exported automation rules. Uses the same engine as the app; state that the app keeps
+// in AsyncStorage (run history, ledger, snapshot, queued deletions, tags) lives in a JSON state file instead.
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import type { DownloadSource, TorBoxRule, TorBoxRuleExecution } from '../types/torbox';
+import { TORBOX_API_BASE_URL, TorBoxAPI } from '../core/torbox-api';
+import { AutomationLedger, AutomationRuntime, AutomationState, getNextRuleRun, runAutomationTick } from '../core/automation';
+import { PortableRule, parseRulesImport } from '../core/ruleFormat';
+
+const DEFAULT_TICK_SECONDS = 30;
+const STATE_FILE_VERSION = 1;
+
+const USAGE = `Usage: tordeck-rules run --config <rules.json> [options]
+
+Runs rules exported from TorDeck (Automations > Export) against a TorBox account.
+
+Options:
+  --config <path>     Rules export file (required)
+  --token <token>     TorBox API token (defaults to $TORBOX_API_TOKEN)
+  --state <path>      Run history, ledger and tags (default: <config>.state.json)
+  --api-url <url>     API base URL, e.g. a local mock server (default: ${TORBOX_API_BASE_URL})
+  --tick <seconds>    How often due rules are checked (default: ${DEFAULT_TICK_SECONDS})
+  --once              Evaluate due rules once and exit
+  -h, --help          Show this help`;
+
+type RuleRunState = Pick<TorBoxRule, 'enabled' | 'lastRunAt' | 'lastResult' | 'lastStepResults' | 'runCount' | 'itemsToday' | 'createdAt'>;
+
+interface CliState extends Omit<AutomationState, 'rules'> {
+  version: number;
+  rules: Record<string, RuleRunState>;
+  tags: Record<string, string[]>;
+}
+
+interface CliOptions {
+  config: string;
+  token: string;
+  statePath: string;
+  apiUrl: string;
+  tickSeconds: number;
+  once: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help' || rest.includes('-h') || rest.includes('--help')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (command !== 'run') throw new Error(`Unknown command "${command}".`);
+
+  const values: Record<string, string> = {};
+  let once = false;
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--once') {
+      once = true;
+      continue;
+    }
+    if (!['--config', '--token', '--state', '--api-url', '--tick'].includes(arg)) throw new Error(`Unknown option "${arg}".`);
+    const value = rest[++i];
+    if (value === undefined || value.startsWith('--')) throw new Error(`${arg} needs a value.`);
+    values[arg.slice(2)] = value;
+  }
+
+  if (!values.config) throw new Error('--config is required.');
+  const token = values.token ?? process.env.TORBOX_API_TOKEN ?? '';
+  if (!token) throw new Error('Pass --token or set TORBOX_API_TOKEN.');
+  const tickSeconds = values.tick === undefined ? DEFAULT_TICK_SECONDS : Number(values.tick);
+  if (!Number.isFinite(tickSeconds) || tickSeconds < 1) throw new Error('--tick must be at least 1 second.');
+  return {
+    config: values.config,
+    token,
+    statePath: values.state ?? `${values.config.replace(/\.json$/i, '')}.state.json`,
+    apiUrl: (values['api-url'] ?? TORBOX_API_BASE_URL).replace(/\/+$/, ''),
+    tickSeconds,
+    once,
+  };
+}
+
+// Ids must stay free of ':' because ledger keys are "<ruleId>:<source>:<id>".
+const toRuleId = (name: string, taken: Set<string>) => {
+  const base = `cli_${name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'rule'}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  taken.add(id);
+  return id;
+};
+
+function loadRules(configPath: string, saved: Partial<Record<string, RuleRunState>>): TorBoxRule[] {
+  const { rules, errors } = parseRulesImport(readFileSync(configPath, 'utf8'));
+  errors.forEach(error => console.warn(`[RulesCLI] Skipped ${error}`));
+  if (!rules.length) throw new Error(`No usable rules in ${configPath}.`);
+  const taken = new Set<string>();
+  const now = new Date().toISOString();
+  // Unlike the app's import, rules start enabled: the config file is the user's explicit choice to run them.
+  return rules.map((portable: PortableRule) => {
+    const id = toRuleId(portable.name, taken);
+    return { ...portable, id, isCustom: true, enabled: true, lastRunAt: null, lastResult: null, runCount: 0, createdAt: now, ...saved[id] };
+  });
+}
+
+function loadState(statePath: string): CliState {
+  const empty: CliState = { version: STATE_FILE_VERSION, rules: {}, snapshot: null, ledger: { acted: {}, entries: [] }, metrics: {}, pendingDeletions: [], tags: {} };
+  if (!existsSync(statePath)) return empty;
+  const parsed = JSON.parse(readFileSync(statePath, 'utf8')) as Partial<CliState>;
+  if (typeof parsed.version === 'number' && parsed.version > STATE_FILE_VERSION) throw new Error(`${statePath} was written by a newer tordeck-rules.`);
+  const ledger: Partial<AutomationLedger> = parsed.ledger ?? {};
+  return { ...empty, ...parsed, ledger: { acted: ledger.acted ?? {}, entries: ledger.entries ?? [] } };
+}
+
+function saveState(statePath: string, state: CliState) {
+  // Write-then-rename so a crash mid-write never leaves a truncated state file.
+  const temp = `${statePath}.tmp`;
+  writeFileSync(temp, JSON.stringify(state, null, 2));
+  renameSync(temp, statePath);
+}
+
+const describeExecution = (execution: TorBoxRuleExecution) => `${execution.outcome.padEnd(7)} ${execution.action} ${execution.source}:${execution.sourceId} "${execution.itemName}"${execution.message ? ` (${execution.message})` : ''}`;
+
+export async function runRulesCli(argv: string[]) {
+  const options = parseArgs(argv);
+  let state = loadState(options.statePath);
+  let rules = loadRules(options.config, state.rules);
+  const api = new TorBoxAPI({ baseUrl: options.apiUrl });
+  api.setToken(options.token);
+
+  const runtime: AutomationRuntime = {
+    api,
+    notify: async (title, message) => console.log(`[RulesCLI] ${title}: ${message.replace(/\n/g, ' | ')}`),
+    addTag: async (source: DownloadSource, sourceId: number, tag: string) => {
+      const key = `${source}:${sourceId}`;
+      const existing = state.tags[key] ?? [];
+      if (existing.some(t => t.toLowerCase() === tag.toLowerCase())) return false;
+      state = { ...state, tags: { ...state.tags, [key]: [...existing, tag] } };
+      return true;
+    },
+  };
+
+  const persist = () => {
+    const runState = Object.fromEntries(rules.map(({ id, enabled, lastRunAt, lastResult, lastStepResults, runCount, itemsToday, createdAt }) => [id, { enabled, lastRunAt, lastResult, lastStepResults, runCount, itemsToday, createdAt }]));
+    state = { ...state, rules: runState };
+    saveState(options.statePath, state);
+  };
+
+  const tick = async () => {
+    const result = await runAutomationTick(() => ({ ...state, rules }), { trigger: 'cli', runtime });
+    if (!result) return;
+    const knownIds = new Set(state.ledger.entries.map(entry => entry.id));
+    if (result.rules) rules = result.rules;
+    state = { ...state, snapshot: result.snapshot, metrics: result.metrics, ledger: result.ledger ?? state.ledger, pendingDeletions: result.pendingDeletions ?? state.pendingDeletions };
+    for (const [ruleId, message] of Object.entries(result.results)) {
+      console.log(`[RulesCLI] ${rules.find(rule => rule.id === ruleId)?.name ?? ruleId}: ${message}`);
+    }
+    [...state.ledger.entries].reverse().filter(entry => !knownIds.has(entry.id)).forEach(entry => console.log(`[RulesCLI]   ${describeExecution(entry)}`));
+    persist();
+  };
+
+  console.log(`[RulesCLI] Loaded ${rules.length} rule(s) from ${options.config}; state in ${options.statePath}`);
+  const now = Date.now();
+  for (const rule of rules) {
+    const next = getNextRuleRun(rule, now);
+    console.log(`[RulesCLI]   ${rule.id}: ${rule.enabled ? (next === null ? 'event rule' : `next run ${new Date(next).toISOString()}`) : 'disabled'}`);
+  }
+
+  if (options.once) {
+    await tick();
+    return;
+  }
+
+  let stopping = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const stop = () => {
+    if (stopping) return;
+    stopping = true;
+    if (timer) clearTimeout(timer);
+    persist();
+    console.log('[RulesCLI] Stopped');
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  const loop = async () => {
+    try {
+      await tick();
+    } catch (err) {
+      console.error('[RulesCLI] Tick failed:', err instanceof Error ? err.message : err);
+    }
+    if (!stopping) timer = setTimeout(loop, options.tickSeconds * 1000);
+  };
+  await loop();
+}
+
+// Only run when executed directly, so tests can import runRulesCli.
+if (require.main === module) {
+  runRulesCli(process.argv.slice(2)).catch(err => {
+    console.error(`[RulesCLI] ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  });
+}
@@ -1,27 +1,11 @@
 import React, { useCallback } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import {
-  Headphones,
-  Music,
-  Film,
-  BookOpen,
-  Gamepad2,
-  File,
-} from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { MediaCategory } from '@/types/torbox';
 import { CATEGORY_META } from '@/constants/categories';
+import { CATEGORY_ICONS } from '@/constants/categoryIcons';
 import { formatBytes } from '@/utils/formatters';
 
-const ICONS: Record<MediaCategory, React.ComponentType<{ size: number; color: string }>> = {
-  audiobook: Headphones,
-  music: Music,
-  video: Film,
-  ebook: BookOpen,
-  games: Gamepad2,
-  other: File,
-};
-
 interface CategoryCardProps {
   category: MediaCategory;
   count: number;
@@ -31,7 +15,7 @@ interface CategoryCardProps {
 
 function CategoryCardInner({ category, count, totalBytes, onPress }: CategoryCardProps) {
   const meta = CATEGORY_META[category];
-  const Icon = ICONS[category];
+  const Icon = CATEGORY_ICONS[category];
 
   const handlePress = useCallback(() => {
     onPress(category);
@@ -4,6 +4,7 @@ import { ChevronDown, ChevronRight, FolderArchive, Gauge, HardDriveDownload, Tim
 import Colors from '@/constants/colors';
 import { formatBytes, formatSpeed, formatEta, formatTimeAgo, formatProgress } from '@/utils/formatters';
 import { getDownloadStatusInfo } from '@/utils/downloadStatus';
+import { formatReleaseTags, formatReleaseTitle, hasReleaseTags, parseReleaseName } from '@/utils/releaseName';
 
 interface DownloadCardProps {
   id: number;
@@ -43,6 +44,11 @@ function DownloadCardInner(props: DownloadCardProps) {
     [downloadState, downloadFinished]
   );
 
+  const release = useMemo(() => parseReleaseName(name), [name]);
+  const isRelease = hasReleaseTags(release);
+  const title = isRelease ? formatReleaseTitle(release) : name;
+  const releaseTags = isRelease ? formatReleaseTags(release) : '';
+
   const isLiveTransfer = !downloadFinished;
   const StatusIcon = statusInfo.icon;
 
@@ -80,7 +86,7 @@ function DownloadCardInner(props: DownloadCardProps) {
     >
       <View style={styles.header}>
         <View style={[styles.statusDot, { backgroundColor: statusInfo.color }]} />
-        <Text style={styles.name} numberOfLines={expanded ? 3 : 2}>{name}</Text>
+        <Text style={styles.name} numberOfLines={expanded ? 3 : 2}>{title}</Text>
         {expandable ? (
           <ChevronDown
             size={16}
@@ -96,6 +102,12 @@ function DownloadCardInner(props: DownloadCardProps) {
         )}
       </View>
 
+      {releaseTags ? (
+        <Text style={styles.releaseTags} numberOfLines={1}>
+          {releaseTags}{release.group ? ` · ${release.group}` : ''}
+        </Text>
+      ) : null}
+
       <View style={styles.metaRow}>
         <StatusIcon size={14} color={statusInfo.color} />
         <Text style={[styles.statusText, { color: statusInfo.color }]}>{statusInfo.label}</Text>
@@ -138,6 +150,9 @@ function DownloadCardInner(props: DownloadCardProps) {
 
       {expandable && expanded && (
         <View style={styles.expandedBlock}>
+          {isRelease && (
+            <Text style={styles.expandedLabel}>Name: <Text style={styles.expandedValue}>{name}</Text></Text>
+          )}
           <Text style={styles.expandedLabel}>Raw state: <Text style={styles.expandedValue}>{downloadState || '—'}</Text></Text>
           <Text style={styles.expandedLabel}>Created: <Text style={styles.expandedValue}>{new Date(createdAt).toLocaleString()}</Text></Text>
         </View>
@@ -185,6 +200,14 @@ const styles = StyleSheet.create({
   chevronExpanded: {
     transform: [{ rotate: '180deg' }],
   },
+  releaseTags: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '500' as const,
+    marginTop: -4,
+    marginBottom: 8,
+    marginLeft: 18,
+  },
   metaRow: {
     flexDirection: 'row',
     alignItems: 'center',
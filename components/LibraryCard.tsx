@@ -1,39 +1,33 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { useRouter } from 'expo-router';
-import {
-  Headphones,
-  Music,
-  Film,
-  BookOpen,
-  Gamepad2,
-  File,
-} from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import { CATEGORY_META } from '@/constants/categories';
+import { CATEGORY_ICONS } from '@/constants/categoryIcons';
 import { LibraryItem, MediaCategory } from '@/types/torbox';
 import { formatBytes, truncateMiddle } from '@/utils/formatters';
-
-const ICONS: Record<MediaCategory, React.ComponentType<{ size: number; color: string }>> = {
-  audiobook: Headphones,
-  music: Music,
-  video: Film,
-  ebook: BookOpen,
-  games: Gamepad2,
-  other: File,
-};
+import { formatReleaseTags, formatReleaseTitle, hasReleaseTags } from '@/utils/releaseName';
 
 interface LibraryCardProps {
   item: LibraryItem;
   returnCategory?: MediaCategory;
+  accountLabel?: string;
+  onPress?: (item: LibraryItem) => void;
 }
 
-function LibraryCardInner({ item, returnCategory }: LibraryCardProps) {
+function LibraryCardInner({ item, returnCategory, accountLabel, onPress }: LibraryCardProps) {
   const router = useRouter();
   const meta = CATEGORY_META[item.category];
-  const Icon = ICONS[item.category];
+  const Icon = CATEGORY_ICONS[item.category];
+  const isRelease = hasReleaseTags(item.release);
+  const title = useMemo(() => isRelease ? formatReleaseTitle(item.release) : item.fileName, [isRelease, item.release, item.fileName]);
+  const releaseTags = useMemo(() => isRelease ? formatReleaseTags(item.release) : '', [isRelease, item.release]);
 
   const handlePress = useCallback(() => {
+    if (onPress) {
+      onPress(item);
+      return;
+    }
     router.push({
       pathname: '/item/[id]' as any,
       params: {
@@ -50,7 +44,7 @@ function LibraryCardInner({ item, returnCategory }: LibraryCardProps) {
         returnCategory,
       },
     });
-  }, [router, item, returnCategory]);
+  }, [router, item, returnCategory, onPress]);
 
   return (
     <TouchableOpacity
@@ -64,10 +58,10 @@ function LibraryCardInner({ item, returnCategory }: LibraryCardProps) {
       </View>
       <View style={styles.info}>
         <Text style={styles.fileName} numberOfLines={1}>
-          {truncateMiddle(item.fileName, 40)}
+          {truncateMiddle(title, 40)}
         </Text>
         <Text style={styles.parentName} numberOfLines={1}>
-          {truncateMiddle(item.parentName, 36)}
+          {releaseTags || truncateMiddle(item.parentName, 36)}
         </Text>
         <View style={styles.metaRow}>
           <View style={[styles.badge, { backgroundColor: meta.color + '25' }]}>
@@ -75,6 +69,9 @@ function LibraryCardInner({ item, returnCategory }: LibraryCardProps) {
           </View>
           <Text style={styles.size}>{formatBytes(item.fileSize)}</Text>
           <Text style={styles.ext}>.{item.extension}</Text>
+          {accountLabel && (
+            <Text style={styles.account} numberOfLines={1}>{accountLabel}</Text>
+          )}
         </View>
       </View>
     </TouchableOpacity>
@@ -142,4 +139,10 @@ const styles = StyleSheet.create({
     fontWeight: '500' as const,
     textTransform: 'uppercase' as const,
   },
+  account: {
+    flexShrink: 1,
+    color: Colors.accent,
+    fontSize: 11,
+    fontWeight: '600' as const,
+  },
 });
@@ -0,0 +1,145 @@
+import React, { useCallback, useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Tv, ChevronRight } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { ShowGroup } from '@/types/torbox';
+import { useWatchedEpisodes } from '@/hooks/useWatchedEpisodes';
+import { formatBytes, truncateMiddle } from '@/utils/formatters';
+import { formatEpisodeCode } from '@/utils/releaseName';
+import { countWatchedEpisodes, getNextEpisode } from '@/utils/showGroups';
+
+interface ShowGroupCardProps {
+  show: ShowGroup;
+}
+
+function ShowGroupCardInner({ show }: ShowGroupCardProps) {
+  const router = useRouter();
+  const { watched } = useWatchedEpisodes();
+  const nextEpisode = useMemo(() => getNextEpisode(show, watched), [show, watched]);
+  const watchedCount = useMemo(() => countWatchedEpisodes(show, watched), [show, watched]);
+
+  const handlePress = useCallback(() => {
+    router.push({
+      pathname: '/show-detail' as any,
+      params: { showId: show.id, title: show.title },
+    });
+  }, [router, show]);
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={handlePress}
+      activeOpacity={0.7}
+      testID={`show-group-${show.id}`}
+    >
+      <View style={styles.artBox}>
+        <Tv size={28} color={Colors.categoryTv} />
+      </View>
+      <View style={styles.info}>
+        <Text style={styles.title} numberOfLines={2}>
+          {truncateMiddle(show.year !== undefined ? `${show.title} (${show.year})` : show.title, 60)}
+        </Text>
+        <View style={styles.metaRow}>
+          <Text style={styles.metaText}>{show.seasons.length} {show.seasons.length === 1 ? 'season' : 'seasons'}</Text>
+          <Text style={styles.dot}>·</Text>
+          <Text style={styles.metaText}>{show.episodeCount} {show.episodeCount === 1 ? 'episode' : 'episodes'}</Text>
+          <Text style={styles.dot}>·</Text>
+          <Text style={styles.metaText}>{formatBytes(show.totalSize)}</Text>
+        </View>
+        {show.episodeCount > 0 && (
+          <View style={styles.badgeRow}>
+            {nextEpisode ? (
+              <View style={styles.nextBadge}>
+                <Text style={styles.nextBadgeText}>Up next: {formatEpisodeCode(nextEpisode.season, nextEpisode.episode)}</Text>
+              </View>
+            ) : (
+              <View style={styles.watchedBadge}>
+                <Text style={styles.watchedBadgeText}>All watched</Text>
+              </View>
+            )}
+            {watchedCount > 0 && nextEpisode && (
+              <Text style={styles.metaText}>{watchedCount}/{show.episodeCount} watched</Text>
+            )}
+          </View>
+        )}
+      </View>
+      <ChevronRight size={20} color={Colors.textTertiary} />
+    </TouchableOpacity>
+  );
+}
+
+export default React.memo(ShowGroupCardInner);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  artBox: {
+    width: 54,
+    height: 54,
+    borderRadius: 14,
+    backgroundColor: Colors.categoryTv + '14',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    color: Colors.text,
+    fontSize: 15,
+    fontWeight: '700' as const,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+  dot: {
+    color: Colors.textTertiary,
+    fontSize: 12,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  nextBadge: {
+    backgroundColor: Colors.categoryTv + '20',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  nextBadgeText: {
+    color: Colors.categoryTv,
+    fontSize: 10,
+    fontWeight: '700' as const,
+  },
+  watchedBadge: {
+    backgroundColor: Colors.statusComplete + '20',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  watchedBadgeText: {
+    color: Colors.statusComplete,
+    fontSize: 10,
+    fontWeight: '700' as const,
+  },
+});
@@ -3,10 +3,15 @@ import Colors from '@/constants/colors';
 
 export const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'm4b', 'aac', 'flac', 'ogg', 'wma', 'wav', 'opus'];
 export const ALWAYS_AUDIOBOOK_EXTENSIONS = ['m4b'];
+// Formats whose duration can be read from the file headers.
+export const DURATION_PROBE_EXTENSIONS = ['mp3', 'm4a', 'flac'];
 export const VIDEO_EXTENSIONS = ['mp4', 'mkv', 'avi', 'mov', 'webm', 'wmv', 'flv', 'ts', 'm4v'];
-export const EBOOK_EXTENSIONS = ['epub', 'mobi', 'azw', 'azw3', 'djvu', 'cbr', 'cbz'];
+export const EBOOK_EXTENSIONS = ['epub', 'mobi', 'azw', 'azw3', 'djvu'];
+export const COMICS_EXTENSIONS = ['cbz', 'cbr', 'cb7', 'cbt'];
+export const SOFTWARE_EXTENSIONS = ['exe', 'msi', 'dmg', 'pkg', 'apk', 'xapk', 'appimage', 'deb', 'rpm', 'iso'];
 export const DOCUMENT_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt', 'rtf', 'odt', 'xls', 'xlsx', 'ppt', 'pptx', 'csv'];
-export const ARCHIVE_EXTENSIONS = ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz', 'iso'];
+export const ARCHIVE_EXTENSIONS = ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'];
+export const PODCAST_KEYWORDS = ['podcast'];
 export const GAMES_MIN_SIZE_GB = 10;
 
 export const DEFAULT_CLASSIFICATION_CONFIG: ClassificationConfig = {
@@ -14,19 +19,28 @@ export const DEFAULT_CLASSIFICATION_CONFIG: ClassificationConfig = {
   audiobookMinDurationMinutes: 60,
   audiobookMultiTrackMinSizeMB: 250,
   audiobookKeywords: ['audiobook', 'audible', 'chapter', 'book', 'narrated', 'narrator', 'unabridged', 'abridged'],
+  extensionRules: [],
+  nameRules: [],
 };
 
 export const CATEGORY_META: Record<MediaCategory, { label: string; icon: string; color: string }> = {
   audiobook: { label: 'Audiobooks', icon: 'Headphones', color: Colors.categoryAudiobook },
+  podcast: { label: 'Podcasts', icon: 'Podcast', color: Colors.categoryPodcast },
   music: { label: 'Music', icon: 'Music', color: Colors.categoryMusic },
-  video: { label: 'Video', icon: 'Film', color: Colors.categoryVideo },
+  movie: { label: 'Movies', icon: 'Film', color: Colors.categoryMovie },
+  tv: { label: 'TV Shows', icon: 'Tv', color: Colors.categoryTv },
   ebook: { label: 'eBooks', icon: 'BookOpen', color: Colors.categoryEbook },
+  comics: { label: 'Comics', icon: 'BookImage', color: Colors.categoryComics },
   games: { label: 'Games', icon: 'Gamepad2', color: Colors.categoryGames },
+  software: { label: 'Software', icon: 'Package', color: Colors.categorySoftware },
   other: { label: 'Other', icon: 'File', color: Colors.categoryOther },
 };
 
-export const ALL_CATEGORIES: MediaCategory[] = ['audiobook', 'music', 'video', 'ebook', 'games', 'other'];
+export const ALL_CATEGORIES: MediaCategory[] = ['audiobook', 'podcast', 'music', 'movie', 'tv', 'ebook', 'comics', 'games', 'software', 'other'];
 
-export const DISPLAY_CATEGORIES: MediaCategory[] = ['audiobook', 'music', 'video', 'ebook', 'games'];
+export const DISPLAY_CATEGORIES: MediaCategory[] = ALL_CATEGORIES.filter(category => category !== 'other');
+
+// Categories that were renamed; stored overrides and rules that use the old name are read as the new one.
+export const LEGACY_CATEGORY_ALIASES: Record<string, MediaCategory> = { video: 'movie' };
 
 export const PLAYBACK_SPEEDS = [0.75, 1, 1.25, 1.5, 1.75, 2, 2.5];
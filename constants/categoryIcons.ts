@@ -0,0 +1,27 @@
+import React from 'react';
+import {
+  Headphones,
+  Podcast,
+  Music,
+  Film,
+  Tv,
+  BookOpen,
+  BookImage,
+  Gamepad2,
+  Package,
+  File,
+} from 'lucide-react-native';
+import { MediaCategory } from '@/types/torbox';
+
+export const CATEGORY_ICONS: Record<MediaCategory, React.ComponentType<{ size: number; color: string }>> = {
+  audiobook: Headphones,
+  podcast: Podcast,
+  music: Music,
+  movie: Film,
+  tv: Tv,
+  ebook: BookOpen,
+  comics: BookImage,
+  games: Gamepad2,
+  software: Package,
+  other: File,
+};
@@ -24,9 +24,13 @@ const Colors = {
   statusComplete: '#60A5FA',
   categoryAudiobook: '#A78BFA',
   categoryMusic: '#F472B6',
-  categoryVideo: '#60A5FA',
+  categoryPodcast: '#C084FC',
+  categoryMovie: '#60A5FA',
+  categoryTv: '#38BDF8',
   categoryEbook: '#FBBF24',
+  categoryComics: '#FACC15',
   categoryGames: '#FB923C',
+  categorySoftware: '#34D399',
   categoryOther: '#64748B',
 };
 
@@ -0,0 +1,819 @@
+// Platform-agnostic rule engine shared by the app and the Node CLI: relative imports only, and every
+// side effect (API calls, notifications, tags) goes through an injected AutomationRuntime.
+import type {
+  TorBoxRule,
+  TorBoxRulePreset,
+  TorBoxRuleCondition,
+  TorBoxRuleAction,
+  TorBoxRuleConditionField,
+  TorBoxRuleOperator,
+  TorBoxRuleScope,
+  TorBoxRuleTrigger,
+  TorBoxRuleExecution,
+  TorBoxRuleConditionGroup,
+  TorBoxRuleConditionNode,
+  TorBoxRuleConditionLeaf,
+  TorBoxRuleActionStep,
+  TorBoxRuleStepResult,
+  TorBoxPendingDeletion,
+  TorBoxRuleSchedule,
+  DownloadSource,
+} from '../types/torbox';
+import type { TorBoxAPI } from './torbox-api';
+import { formatBytes } from '../utils/formatters';
+import { getCachedRegex, parseRegexValue } from '../utils/regex';
+import { getNextScheduleMatch, isWithinSchedule } from '../utils/schedule';
+
+export const MAX_TAG_LENGTH = 32;
+export const MAX_LEDGER_ENTRIES = 300;
+const METRICS_WINDOW_MS = 15 * 60_000;
+const MAX_METRIC_SAMPLES = 40;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+export const DEFAULT_UNDO_WINDOW_MINUTES = 10;
+export const MAX_UNDO_WINDOW_MINUTES = 24 * 60;
+export const DANGEROUS_RULE_DEFAULT_LIMITS = { maxItemsPerRun: 5, maxItemsPerDay: 20 };
+
+type AutomationSource = 'torrent' | 'usenet' | 'web';
+export interface AutomationTarget {
+  source: AutomationSource;
+  sourceId: number;
+  name: string;
+  progress: number;
+  eta: number;
+  downloadSpeed: number;
+  downloadState: string;
+  peers: number;
+  ratio: number;
+  availability: number;
+  createdAt: string;
+  tracker: string | null;
+  stalledMinutes: number;
+  uploadStalledMinutes: number;
+  averageDownloadSpeed: number;
+  uploaded: number;
+  fileIds: number[];
+  size: number;
+}
+
+interface SnapshotEntry {
+  state: string;
+  progress: number;
+}
+export type AutomationSnapshot = Record<string, SnapshotEntry>;
+
+// Local per-download history sampled on every poll; TorBox only reports instantaneous speed and a generic updated_at.
+interface MetricsEntry {
+  samples: { at: number; speed: number }[];
+  lastProgress: number;
+  progressChangedAt: number;
+  lastUploaded: number;
+  uploadChangedAt: number;
+}
+export type AutomationMetrics = Record<string, MetricsEntry>;
+
+// `acted` is the idempotency index (ruleId:source:sourceId -> executedAt); `entries` is the capped timeline.
+export interface AutomationLedger {
+  acted: Record<string, string>;
+  entries: TorBoxRuleExecution[];
+}
+
+export interface RulePreviewCondition {
+  field: TorBoxRuleConditionField;
+  operator: TorBoxRuleOperator;
+  expected: string;
+  actual: number | string;
+}
+
+export interface RulePreviewMatch {
+  source: AutomationSource;
+  sourceId: number;
+  name: string;
+  alreadyActed: boolean;
+  conditions: RulePreviewCondition[];
+}
+
+export interface RulePreview {
+  ruleId: string;
+  ruleName: string;
+  evaluatedAt: string;
+  scannedCount: number;
+  matches: RulePreviewMatch[];
+  note: string | null;
+}
+
+export interface ActionOutcome {
+  summary: string;
+  error: string | null;
+  executions: TorBoxRuleExecution[];
+  stepResults: TorBoxRuleStepResult[];
+  affectedCount: number;
+  queuedDeletions: AutomationTarget[];
+}
+
+// Everything a tick reads; the provider keeps it in refs, the background task loads it from storage.
+export interface AutomationState {
+  rules: TorBoxRule[];
+  snapshot: AutomationSnapshot | null;
+  ledger: AutomationLedger;
+  metrics: AutomationMetrics;
+  pendingDeletions: TorBoxPendingDeletion[];
+}
+
+export type AutomationNotifier = (title: string, message: string) => Promise<void>;
+
+// The app wires these to torboxApi, in-app notifications and AsyncStorage tags; the CLI to its own client, the console and a state file.
+export interface AutomationRuntime {
+  api: TorBoxAPI;
+  notify: AutomationNotifier;
+  addTag: (source: DownloadSource, sourceId: number, tag: string) => Promise<unknown>;
+}
+
+export interface AutomationTickOptions {
+  trigger: 'manual' | 'poll' | 'background' | 'cli';
+  forceRuleId?: string;
+  runtime: AutomationRuntime;
+}
+
+// Rules, ledger and pending deletions are null when the tick left them unchanged.
+export interface AutomationTickResult {
+  results: Record<string, string>;
+  rules: TorBoxRule[] | null;
+  ledger: AutomationLedger | null;
+  pendingDeletions: TorBoxPendingDeletion[] | null;
+  snapshot: AutomationSnapshot | null;
+  metrics: AutomationMetrics;
+}
+
+type RuleLimitFields = Pick<TorBoxRule, 'maxItemsPerRun' | 'maxItemsPerDay' | 'undoWindowMinutes'>;
+
+export const TORBOX_RULE_PRESETS: TorBoxRulePreset[] = [
+  { id: 'pause_stalled_downloads', name: 'Pause stalled downloads', description: 'Pauses active items stalled for more than 20 minutes.', checkIntervalMinutes: 10, conditions: [{ field: 'download_stalled_time', operator: 'greater_than', value: '20' }], action: 'pause_download', category: 'transfer' },
+  { id: 'resume_when_progress_seen', name: 'Resume paused downloads', description: 'Resumes paused downloads automatically.', checkIntervalMinutes: 10, conditions: [{ field: 'status', operator: 'equals', value: 'paused' }], action: 'resume_download', category: 'transfer' },
+  { id: 'reannounce_stalled_torrents', name: 'Reannounce stalled torrents', description: 'Reannounces stalled torrents to refresh trackers.', checkIntervalMinutes: 15, conditions: [{ field: 'download_stalled_time', operator: 'greater_than', value: '15' }], action: 'reannounce_torrent', scope: 'torrent', category: 'maintenance' },
+  { id: 'completed_notify', name: 'Notify on completion', description: 'Creates a local notification once when an item reaches 100%.', checkIntervalMinutes: 0, conditions: [], trigger: 'progress_crossed', triggerValue: '100', action: 'notify_user', category: 'completion' },
+  { id: 'notify_errors', name: 'Notify on failed downloads', description: 'Creates a local notification once when a download enters error state.', checkIntervalMinutes: 0, conditions: [], trigger: 'status_changed', triggerValue: 'error', action: 'notify_user', category: 'transfer' },
+  { id: 'completed_get_link', name: 'Auto-generate download link', description: 'Requests a download link when item completes.', checkIntervalMinutes: 10, conditions: [{ field: 'progress', operator: 'equals', value: '100' }], action: 'request_download_link', category: 'completion' },
+  { id: 'stream_ready_media', name: 'Create stream links for completed media', description: 'Requests stream links for completed items.', checkIntervalMinutes: 15, conditions: [{ field: 'progress', operator: 'equals', value: '100' }], action: 'create_stream', category: 'playback' },
+  { id: 'delete_very_old_completed', name: 'Delete very old completed', description: 'Deletes completed downloads older than 60 days. DANGEROUS.', checkIntervalMinutes: 1440, conditions: [{ field: 'age', operator: 'greater_than', value: '60' }, { field: 'progress', operator: 'equals', value: '100' }], action: 'delete_download', isDangerous: true, category: 'completion' },
+  { id: 'auto_delete_old_failed', name: 'Auto-delete old failed downloads', description: 'Deletes failed downloads older than 7 days. DANGEROUS.', checkIntervalMinutes: 1440, conditions: [{ field: 'status', operator: 'equals', value: 'error' }, { field: 'age', operator: 'greater_than', value: '7' }], action: 'delete_download', isDangerous: true, category: 'completion' },
+  { id: 'pause_high_eta_downloads', name: 'Pause very long ETA downloads', description: 'Pauses items with ETA above 2 days (172800s).', checkIntervalMinutes: 20, conditions: [{ field: 'eta', operator: 'greater_than', value: '172800' }], action: 'pause_download', category: 'transfer' },
+  { id: 'resume_stalled_items', name: 'Resume stalled transfers', description: 'Resumes stalled transfers to kick progress.', checkIntervalMinutes: 15, conditions: [{ field: 'status', operator: 'contains', value: 'stalled' }], action: 'resume_download', category: 'transfer' },
+  { id: 'notify_slow_downloads', name: 'Notify on slow downloads', description: 'Sends notification when download speed drops below 10KB/s.', checkIntervalMinutes: 10, conditions: [{ field: 'current_download_speed', operator: 'less_than', value: '10240' }, { field: 'status', operator: 'contains', value: 'download' }], action: 'notify_user', category: 'transfer' },
+  { id: 'generate_links_for_cached', name: 'Generate links for cached items', description: 'Requests download links for cached/completed items.', checkIntervalMinutes: 30, conditions: [{ field: 'status', operator: 'contains', value: 'cached' }], action: 'request_download_link', category: 'completion' },
+  { id: 'stream_ready_cached', name: 'Create stream links for cached items', description: 'Builds stream links for cached/completed files.', checkIntervalMinutes: 30, conditions: [{ field: 'status', operator: 'contains', value: 'cached' }], action: 'create_stream', category: 'playback' },
+  { id: 'notify_torrent_tracker_issues', name: 'Notify tracker-related stalls', description: 'Notifies when torrent tracker field contains warning text.', checkIntervalMinutes: 15, conditions: [{ field: 'tracker', operator: 'contains', value: 'error' }], action: 'notify_user', scope: 'torrent', category: 'maintenance' },
+];
+
+export const PRESET_CATEGORIES = [
+  { key: 'transfer', label: 'Downloads & Transfers' },
+  { key: 'completion', label: 'Completion & Cleanup' },
+  { key: 'maintenance', label: 'Torrent Maintenance' },
+  { key: 'playback', label: 'Playback' },
+];
+
+export const CONDITION_FIELD_LABELS: Record<string, string> = {
+  progress: 'Progress (%)', eta: 'ETA (seconds)', current_download_speed: 'Current Download Speed (bytes/s)', average_download_speed: 'Average Download Speed (bytes/s)',
+  download_stalled_time: 'Download Stalled Time (minutes)', upload_stalled_time: 'Upload Stalled Time (minutes)', seeding_ratio: 'Seeding Ratio', peers: 'Peers', age: 'Age (days)', tracker: 'Tracker', availability: 'Availability', status: 'Download Status', download_type: 'Download Type', name_contains: 'Name Contains', size: 'Size (bytes)',
+};
+
+export const CONDITION_FIELDS: TorBoxRuleConditionField[] = ['progress', 'eta', 'current_download_speed', 'average_download_speed', 'download_stalled_time', 'upload_stalled_time', 'seeding_ratio', 'peers', 'age', 'tracker', 'availability', 'status', 'download_type', 'name_contains', 'size'];
+
+export const OPERATOR_LABELS: Record<string, string> = {
+  equals: '=', not_equals: '!=', greater_than: '>', less_than: '<', greater_than_or_equal: '>=', less_than_or_equal: '<=', contains: 'contains',
+  not_contains: 'not contains', starts_with: 'starts with', ends_with: 'ends with', matches_regex: 'matches', in_list: 'in list',
+};
+export const OPERATORS: TorBoxRuleOperator[] = ['equals', 'not_equals', 'greater_than', 'less_than', 'greater_than_or_equal', 'less_than_or_equal', 'contains', 'not_contains', 'starts_with', 'ends_with', 'matches_regex', 'in_list'];
+const TEXT_OPERATORS = new Set<TorBoxRuleOperator>(['contains', 'not_contains', 'starts_with', 'ends_with', 'matches_regex', 'in_list']);
+
+export const ACTION_LABELS: Record<string, string> = {
+  delete_download: 'Delete Download', pause_download: 'Pause Download', resume_download: 'Resume Download', reannounce_torrent: 'Reannounce Torrent', request_download_link: 'Request Download Link', create_stream: 'Create Stream Link', notify_user: 'Notify (Local)', call_webhook: 'Call Webhook', add_tag: 'Add Tag',
+};
+export const ACTION_PAST_LABELS: Record<TorBoxRuleAction, string> = {
+  delete_download: 'deleted', pause_download: 'paused', resume_download: 'resumed', reannounce_torrent: 'reannounced', request_download_link: 'requested a link for', create_stream: 'created a stream for', notify_user: 'notified about', call_webhook: 'sent a webhook for', add_tag: 'tagged',
+};
+export const ALL_ACTIONS: TorBoxRuleAction[] = ['delete_download', 'pause_download', 'resume_download', 'reannounce_torrent', 'request_download_link', 'create_stream', 'notify_user', 'call_webhook', 'add_tag'];
+export const SUPPORTED_ACTION_SET = new Set<TorBoxRuleAction>(ALL_ACTIONS);
+
+export const SCOPE_LABELS: Record<TorBoxRuleScope, string> = { all: 'All Downloads', torrent: 'Torrents Only', usenet: 'Usenet Only', web: 'Web Downloads Only' };
+
+export const TRIGGER_LABELS: Record<TorBoxRuleTrigger, string> = { interval: 'On every check', status_changed: 'When status changes to', first_seen: 'When an item is first seen', progress_crossed: 'When progress crosses (%)' };
+export const ALL_TRIGGERS: TorBoxRuleTrigger[] = ['interval', 'status_changed', 'first_seen', 'progress_crossed'];
+export const isEventTrigger = (trigger: TorBoxRuleTrigger | undefined) => !!trigger && trigger !== 'interval';
+
+const isActionSupportedForScope = (action: TorBoxRuleAction, scope: TorBoxRuleScope) => !(action === 'reannounce_torrent' && scope !== 'torrent');
+
+export const PARAMETER_ACTIONS = new Set<TorBoxRuleAction>(['notify_user', 'call_webhook', 'add_tag']);
+export const NOTIFY_TEMPLATE_PLACEHOLDERS = ['name', 'size', 'progress', 'status', 'source'] as const;
+
+// notify_user's template is optional; webhook and tag actions cannot run without their value.
+export const validateActionValue = (action: TorBoxRuleAction, rawValue: string | undefined): string | null => {
+  const value = rawValue?.trim() ?? '';
+  switch (action) {
+    case 'call_webhook':
+      if (!value) return 'Webhook URL is required.';
+      return /^https?:\/\/[^\s/]+\S*$/i.test(value) ? null : 'Webhook URL must start with http:// or https://.';
+    case 'add_tag':
+      if (!value) return 'Tag name is required.';
+      return value.length > MAX_TAG_LENGTH ? `Tags can be at most ${MAX_TAG_LENGTH} characters.` : null;
+    case 'notify_user': {
+      const unknown = Array.from(value.matchAll(/\{(\w+)\}/g)).map(m => m[1]).find(key => !(NOTIFY_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(key));
+      return unknown ? `Unknown placeholder {${unknown}}. Use ${NOTIFY_TEMPLATE_PLACEHOLDERS.map(k => `{${k}}`).join(', ')}.` : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const MAX_ACTION_STEPS = 5;
+
+// Legacy rules only have `action`/`actionValue`, which is a one-step chain that stops on failure.
+export const getRuleActionSteps = (rule: Pick<TorBoxRule, 'action' | 'actionValue' | 'actionSteps'>): TorBoxRuleActionStep[] =>
+  rule.actionSteps?.length ? rule.actionSteps : [{ action: rule.action, actionValue: rule.actionValue, onFailure: 'stop' }];
+
+export const isRuleSupportedForScope = (rule: TorBoxRule) => getRuleActionSteps(rule).every(step => isActionSupportedForScope(step.action, rule.scope ?? 'all'));
+
+export const validateActionSteps = (steps: TorBoxRuleActionStep[], scope: TorBoxRuleScope): string | null => {
+  if (!steps.length) return 'Add at least one action.';
+  if (steps.length > MAX_ACTION_STEPS) return `Rules can chain at most ${MAX_ACTION_STEPS} actions.`;
+  for (const [index, step] of steps.entries()) {
+    const prefix = steps.length > 1 ? `Step ${index + 1}: ` : '';
+    if (!SUPPORTED_ACTION_SET.has(step.action)) return `${prefix}Unsupported automation action: ${step.action}`;
+    if (!isActionSupportedForScope(step.action, scope)) return `${prefix}${ACTION_LABELS[step.action]} is not supported for the selected scope.`;
+    const valueError = validateActionValue(step.action, step.actionValue);
+    if (valueError) return `${prefix}${valueError}`;
+    // Later steps would only fail against an item that no longer exists.
+    if (step.action === 'delete_download' && index < steps.length - 1) return 'Delete Download must be the last step.';
+  }
+  return null;
+};
+
+export const describeStepResults = (results: TorBoxRuleStepResult[]) => results.map((result, index) => {
+  const parts = [`${result.succeeded} ok`];
+  if (result.failed) parts.push(`${result.failed} failed`);
+  if (result.skipped) parts.push(`${result.skipped} skipped`);
+  if (result.halted) parts.push(`${result.halted} halted`);
+  return `${index + 1}. ${ACTION_LABELS[result.action] ?? result.action}: ${parts.join(', ')}`;
+});
+
+// Dangerous rules always get a blast radius and an undo window, including ones saved before limits existed.
+export const getRuleLimits = (rule: RuleLimitFields & Pick<TorBoxRule, 'isDangerous'>) => ({
+  maxItemsPerRun: rule.maxItemsPerRun ?? (rule.isDangerous ? DANGEROUS_RULE_DEFAULT_LIMITS.maxItemsPerRun : null),
+  maxItemsPerDay: rule.maxItemsPerDay ?? (rule.isDangerous ? DANGEROUS_RULE_DEFAULT_LIMITS.maxItemsPerDay : null),
+  undoWindowMinutes: rule.isDangerous ? rule.undoWindowMinutes ?? DEFAULT_UNDO_WINDOW_MINUTES : 0,
+});
+
+export const validateRuleLimits = (limits: RuleLimitFields): string | null => {
+  const isPositiveInt = (value: number | undefined) => value === undefined || (Number.isInteger(value) && value >= 1);
+  if (!isPositiveInt(limits.maxItemsPerRun)) return 'Max items per run must be a whole number of at least 1.';
+  if (!isPositiveInt(limits.maxItemsPerDay)) return 'Max items per day must be a whole number of at least 1.';
+  if (limits.maxItemsPerRun !== undefined && limits.maxItemsPerDay !== undefined && limits.maxItemsPerRun > limits.maxItemsPerDay) return 'Max items per run cannot be higher than max items per day.';
+  if (!isPositiveInt(limits.undoWindowMinutes) || (limits.undoWindowMinutes ?? 0) > MAX_UNDO_WINDOW_MINUTES) return `The undo window must be between 1 and ${MAX_UNDO_WINDOW_MINUTES} minutes.`;
+  return null;
+};
+
+export const getLocalDay = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const getItemsActedToday = (rule: Pick<TorBoxRule, 'itemsToday'>, now: number) => (rule.itemsToday?.day === getLocalDay(now) ? rule.itemsToday.count : 0);
+
+// Caps are checked against everything that matched before any action runs, so a breach changes nothing.
+const getCapBreach = (rule: TorBoxRule, matchedCount: number, now: number): string | null => {
+  const limits = getRuleLimits(rule);
+  if (limits.maxItemsPerRun !== null && matchedCount > limits.maxItemsPerRun) return `${matchedCount} items matched, over its limit of ${limits.maxItemsPerRun} per run`;
+  const today = getItemsActedToday(rule, now);
+  if (limits.maxItemsPerDay !== null && today + matchedCount > limits.maxItemsPerDay) return `${matchedCount} more items would pass its limit of ${limits.maxItemsPerDay} per day (${today} already today)`;
+  return null;
+};
+
+export function createRuleFromPreset(preset: TorBoxRulePreset): TorBoxRule {
+  return { id: `rule_${preset.id}_${Date.now()}`, name: preset.name, enabled: false, checkIntervalMinutes: preset.checkIntervalMinutes, conditions: preset.conditions.map(c => ({ ...c })), action: preset.action, actionValue: preset.actionValue, scope: preset.scope ?? 'all', trigger: preset.trigger ?? 'interval', triggerValue: preset.triggerValue, isDangerous: preset.isDangerous, isCustom: false, lastRunAt: null, lastResult: null, runCount: 0, createdAt: new Date().toISOString() };
+}
+
+// Accepts `[a, b, c]` or `a, b, c`; comparison is case-insensitive.
+export const parseListValue = (raw: string): string[] =>
+  raw.trim().replace(/^\[/, '').replace(/\]$/, '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+
+export const validateConditionValue = (condition: Pick<TorBoxRuleCondition, 'operator' | 'value'>): string | null => {
+  if (!condition.value?.trim()) return null;
+  if (condition.operator === 'matches_regex') {
+    try {
+      parseRegexValue(condition.value);
+    } catch (err) {
+      return `Invalid regex ${condition.value}: ${err instanceof Error ? err.message : 'could not be parsed'}`;
+    }
+  }
+  if (condition.operator === 'in_list' && parseListValue(condition.value).length === 0) {
+    return 'List must contain at least one comma-separated value.';
+  }
+  return null;
+};
+
+const compareText = (left: string, rightRaw: string, operator: TorBoxRuleOperator): boolean => {
+  const l = left.toLowerCase();
+  const right = rightRaw.trim().toLowerCase();
+  switch (operator) {
+    case 'contains': return l.includes(right);
+    case 'not_contains': return !l.includes(right);
+    case 'starts_with': return l.startsWith(right);
+    case 'ends_with': return l.endsWith(right);
+    case 'in_list': return parseListValue(rightRaw).includes(l.trim());
+    case 'matches_regex': return getCachedRegex(rightRaw)?.test(left) ?? false;
+    default: return false;
+  }
+};
+
+export const compareValues = (left: number | string, rightRaw: string, operator: TorBoxRuleOperator): boolean => {
+  if (TEXT_OPERATORS.has(operator)) return compareText(String(left), rightRaw, operator);
+  const rightNum = Number(rightRaw);
+  const leftNum = typeof left === 'number' ? left : Number(left);
+  const right = Number.isFinite(rightNum) ? rightNum : rightRaw.toLowerCase();
+  const l = Number.isFinite(leftNum) && typeof right === 'number' ? leftNum : String(left).toLowerCase();
+  switch (operator) {
+    case 'equals': return l === right;
+    case 'not_equals': return l !== right;
+    case 'greater_than': return Number(l) > Number(right);
+    case 'less_than': return Number(l) < Number(right);
+    case 'greater_than_or_equal': return Number(l) >= Number(right);
+    case 'less_than_or_equal': return Number(l) <= Number(right);
+    default: return false;
+  }
+};
+
+// TorBox reports progress as a 0-1 fraction; rule conditions are written in percent.
+const toPercent = (progress: number) => (progress <= 1 ? progress * 100 : progress);
+
+export const toTargets = async (api: TorBoxAPI): Promise<AutomationTarget[]> => {
+  const [torrents, usenet, web] = await Promise.all([api.getTorrents(), api.getUsenet(), api.getWebDownloads()]);
+  const now = Date.now();
+  return [
+    ...torrents.map(t => ({ source: 'torrent' as const, sourceId: t.id, name: t.name, progress: toPercent(t.progress), eta: t.eta, downloadSpeed: t.download_speed, downloadState: t.download_state, peers: t.peers ?? 0, ratio: t.ratio ?? 0, availability: t.availability ?? 0, createdAt: t.created_at, tracker: t.tracker, uploaded: t.total_uploaded ?? 0, fileIds: (t.files ?? []).map(f => f.id), size: t.size, ...withoutHistory(t.updated_at, t.download_speed, now) })),
+    ...usenet.map(u => ({ source: 'usenet' as const, sourceId: u.id, name: u.name, progress: toPercent(u.progress), eta: u.eta, downloadSpeed: u.download_speed, downloadState: u.download_state, peers: 0, ratio: 0, availability: 0, createdAt: u.created_at, tracker: null, uploaded: 0, fileIds: (u.files ?? []).map(f => f.id), size: u.size, ...withoutHistory(u.updated_at, u.download_speed, now) })),
+    ...web.map(w => ({ source: 'web' as const, sourceId: w.webdownload_id ?? w.web_id ?? w.id, name: w.name, progress: toPercent(w.progress), eta: w.eta, downloadSpeed: w.download_speed, downloadState: w.download_state, peers: 0, ratio: 0, availability: 0, createdAt: w.created_at, tracker: null, uploaded: 0, fileIds: (w.files ?? []).map(f => f.id), size: w.size, ...withoutHistory(w.updated_at, w.download_speed, now) })),
+  ];
+};
+
+// Until an item has been sampled, stall times fall back to "minutes since updated_at" and the average to the current speed.
+function withoutHistory(updatedAt: string, speed: number, now: number) {
+  const stalledMinutes = Math.max(0, Math.floor((now - new Date(updatedAt).getTime()) / 60000));
+  return { stalledMinutes, uploadStalledMinutes: stalledMinutes, averageDownloadSpeed: speed };
+}
+
+const sampleMetrics = (previous: AutomationMetrics, targets: AutomationTarget[], now: number): AutomationMetrics => {
+  const next: AutomationMetrics = {};
+  for (const target of targets) {
+    const prev = previous[getTargetKey(target)];
+    const fallbackChangedAt = now - target.stalledMinutes * 60000;
+    next[getTargetKey(target)] = {
+      samples: [...(prev?.samples ?? []), { at: now, speed: target.downloadSpeed }].filter(s => now - s.at <= METRICS_WINDOW_MS).slice(-MAX_METRIC_SAMPLES),
+      lastProgress: target.progress,
+      progressChangedAt: !prev ? fallbackChangedAt : target.progress > prev.lastProgress ? now : prev.progressChangedAt,
+      lastUploaded: target.uploaded,
+      uploadChangedAt: !prev ? fallbackChangedAt : target.uploaded !== prev.lastUploaded ? now : prev.uploadChangedAt,
+    };
+  }
+  return next;
+};
+
+const applyMetrics = (targets: AutomationTarget[], metrics: AutomationMetrics, now: number): AutomationTarget[] => targets.map(target => {
+  const entry = metrics[getTargetKey(target)];
+  if (!entry?.samples.length) return target;
+  return {
+    ...target,
+    averageDownloadSpeed: Math.round(entry.samples.reduce((sum, s) => sum + s.speed, 0) / entry.samples.length),
+    // A finished download has nothing left to advance, so it never counts as stalled.
+    stalledMinutes: target.progress >= 100 ? 0 : Math.max(0, Math.floor((now - entry.progressChangedAt) / 60000)),
+    uploadStalledMinutes: Math.max(0, Math.floor((now - entry.uploadChangedAt) / 60000)),
+  };
+});
+
+const getFieldValue = (target: AutomationTarget, field: TorBoxRuleConditionField): number | string => {
+  const ageDays = Math.floor((Date.now() - new Date(target.createdAt).getTime()) / 86400000);
+  const fieldMap: Record<TorBoxRuleConditionField, number | string> = {
+    progress: target.progress, eta: target.eta, current_download_speed: target.downloadSpeed, average_download_speed: target.averageDownloadSpeed, download_stalled_time: target.stalledMinutes, upload_stalled_time: target.uploadStalledMinutes,
+    seeding_ratio: target.ratio, peers: target.peers, age: ageDays, tracker: target.tracker ?? '', availability: target.availability, status: target.downloadState, download_type: target.source, name_contains: target.name, size: target.size,
+  };
+  return fieldMap[field];
+};
+
+const matchesScope = (rule: TorBoxRule, target: AutomationTarget) => !rule.scope || rule.scope === 'all' || target.source === rule.scope;
+
+export const MAX_CONDITION_DEPTH = 3;
+
+// Legacy rules only have the flat `conditions` list, which is an implicit AND group.
+export const getRuleConditionTree = (rule: Pick<TorBoxRule, 'conditions' | 'conditionTree'>): TorBoxRuleConditionGroup =>
+  rule.conditionTree ?? { kind: 'group', logic: 'and', children: rule.conditions.map(c => ({ ...c, kind: 'condition' as const })) };
+
+export const flattenConditionTree = (node: TorBoxRuleConditionNode): TorBoxRuleConditionLeaf[] =>
+  node.kind === 'group' ? node.children.flatMap(flattenConditionTree) : [node];
+
+// Blank leaves are ignored, and a group with nothing left to check is neutral (true) even when negated.
+const evaluateConditionNode = (node: TorBoxRuleConditionNode, target: AutomationTarget): boolean | null => {
+  if (node.kind === 'condition') {
+    if (!node.value?.trim()) return null;
+    const result = compareValues(getFieldValue(target, node.field), node.value, node.operator);
+    return node.negate ? !result : result;
+  }
+  const results = node.children.map(child => evaluateConditionNode(child, target)).filter((r): r is boolean => r !== null);
+  if (!results.length) return null;
+  const result = node.logic === 'or' ? results.some(Boolean) : results.every(Boolean);
+  return node.negate ? !result : result;
+};
+
+export const describeConditionNode = (node: TorBoxRuleConditionNode, isRoot = true): string => {
+  if (node.kind === 'condition') {
+    const text = `${CONDITION_FIELD_LABELS[node.field] ?? node.field} ${OPERATOR_LABELS[node.operator] ?? node.operator} ${node.value || '(any)'}`;
+    return node.negate ? `NOT ${text}` : text;
+  }
+  const parts = node.children.map(child => describeConditionNode(child, false));
+  if (!parts.length) return node.negate ? 'NOT (nothing)' : '(always)';
+  const joined = parts.join(node.logic === 'or' ? ' OR ' : ' AND ');
+  const wrapped = isRoot && !node.negate ? joined : `(${joined})`;
+  return node.negate ? `NOT ${wrapped}` : wrapped;
+};
+
+export const getConditionDepth = (node: TorBoxRuleConditionNode): number =>
+  node.kind === 'group' ? 1 + Math.max(0, ...node.children.map(getConditionDepth)) : 0;
+
+export const matchesRule = (rule: TorBoxRule, target: AutomationTarget): boolean => {
+  if (!matchesScope(rule, target)) return false;
+  return evaluateConditionNode(getRuleConditionTree(rule), target) ?? true;
+};
+
+const getTargetKey = (target: AutomationTarget) => `${target.source}:${target.sourceId}`;
+
+const buildSnapshot = (targets: AutomationTarget[]): AutomationSnapshot => {
+  const snapshot: AutomationSnapshot = {};
+  for (const target of targets) snapshot[getTargetKey(target)] = { state: target.downloadState.toLowerCase(), progress: target.progress };
+  return snapshot;
+};
+
+// Event triggers compare against the previous tick's snapshot. Without one (first run) nothing fires,
+// and an item missing from a known snapshot counts as new with no status and 0% progress.
+const matchesTrigger = (rule: TorBoxRule, target: AutomationTarget, previous: AutomationSnapshot | null): boolean => {
+  const trigger = rule.trigger ?? 'interval';
+  if (trigger === 'interval') return true;
+  if (!previous) return false;
+  const before = previous[getTargetKey(target)];
+  switch (trigger) {
+    case 'first_seen': return !before;
+    case 'status_changed': {
+      const state = target.downloadState.toLowerCase();
+      if (before?.state === state) return false;
+      const wanted = rule.triggerValue?.trim().toLowerCase();
+      return !wanted || state.includes(wanted);
+    }
+    case 'progress_crossed': {
+      const threshold = Number(rule.triggerValue?.trim() || '100');
+      if (!Number.isFinite(threshold)) return false;
+      return (before?.progress ?? 0) < threshold && target.progress >= threshold;
+    }
+    default: return false;
+  }
+};
+
+// First cron match after the rule last ran (or was created), so sparse background or CLI ticks
+// still catch a matching minute that fell between them; several missed minutes collapse into one run.
+const getPendingCronMatch = (rule: TorBoxRule, schedule: TorBoxRuleSchedule): number | null => {
+  const since = rule.lastRunAt ? new Date(rule.lastRunAt).getTime() : new Date(rule.createdAt).getTime();
+  return Number.isFinite(since) ? getNextScheduleMatch(schedule, since + 60_000) : null;
+};
+
+// A window gates whatever the rule would otherwise do; a cron schedule replaces the interval and
+// is due once any matching minute has passed since the last run.
+const isRuleDue = (rule: TorBoxRule, now: number): boolean => {
+  const schedule = rule.schedule;
+  if (isEventTrigger(rule.trigger)) return !schedule || isWithinSchedule(schedule, new Date(now));
+  const last = rule.lastRunAt ? new Date(rule.lastRunAt).getTime() : 0;
+  if (schedule?.kind === 'cron') {
+    const match = getPendingCronMatch(rule, schedule);
+    return match !== null && match <= now;
+  }
+  const intervalMs = Math.max(1, rule.checkIntervalMinutes) * 60_000;
+  return now - last >= intervalMs && (!schedule || isWithinSchedule(schedule, new Date(now)));
+};
+
+// Event rules have no next run; they react whenever a change is seen (inside their window, if any).
+export const getNextRuleRun = (rule: TorBoxRule, now: number): number | null => {
+  if (!rule.enabled || isEventTrigger(rule.trigger)) return null;
+  const last = rule.lastRunAt ? new Date(rule.lastRunAt).getTime() : 0;
+  const schedule = rule.schedule;
+  if (schedule?.kind === 'cron') {
+    const match = getPendingCronMatch(rule, schedule);
+    return match === null ? null : Math.max(now, match);
+  }
+  const intervalDue = Math.max(now, last + Math.max(1, rule.checkIntervalMinutes) * 60_000);
+  return schedule ? getNextScheduleMatch(schedule, intervalDue) : intervalDue;
+};
+
+const METRIC_FIELDS = new Set<TorBoxRuleConditionField>(['average_download_speed', 'download_stalled_time', 'upload_stalled_time']);
+
+// Rules reading sampled metrics keep the poll going every tick so their history stays dense between runs.
+const usesMetrics = (rule: TorBoxRule) => flattenConditionTree(getRuleConditionTree(rule)).some(cond => METRIC_FIELDS.has(cond.field));
+
+const getLedgerKey = (ruleId: string, target: { source: AutomationSource; sourceId: number }) => `${ruleId}:${target.source}:${target.sourceId}`;
+
+const renderNotifyTemplate = (template: string, target: AutomationTarget) => {
+  const values: Record<(typeof NOTIFY_TEMPLATE_PLACEHOLDERS)[number], string> = {
+    name: target.name, size: formatBytes(target.size), progress: `${Math.round(target.progress)}%`, status: target.downloadState, source: target.source,
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key as keyof typeof values] ?? match);
+};
+
+async function postWebhook(url: string, rule: TorBoxRule, target: AutomationTarget): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        event: 'automation.rule_matched',
+        rule: { id: rule.id, name: rule.name },
+        item: { source: target.source, id: target.sourceId, name: target.name, status: target.downloadState, progress: target.progress, size: target.size, downloadSpeed: target.downloadSpeed, createdAt: target.createdAt },
+        sentAt: new Date().toISOString(),
+      }),
+      signal: controller.signal,
+    });
+    if (!response.ok) throw new Error(`Webhook responded with HTTP ${response.status}`);
+  } catch (err) {
+    if (controller.signal.aborted) throw new Error('Webhook timed out');
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Returns false when the action does not apply to this item (e.g. reannounce on usenet, no files to link).
+async function applyActionToTarget(rule: TorBoxRule, step: TorBoxRuleActionStep, target: AutomationTarget, runtime: AutomationRuntime): Promise<boolean> {
+  const { api } = runtime;
+  const action = step.action;
+  switch (action) {
+    case 'pause_download':
+    case 'resume_download': {
+      const operation = action === 'pause_download' ? 'pause' : 'resume';
+      if (target.source === 'torrent') await api.controlTorrent(target.sourceId, operation);
+      if (target.source === 'usenet') await api.controlUsenet(target.sourceId, operation);
+      if (target.source === 'web') await api.controlWebDownload(target.sourceId, operation);
+      return true;
+    }
+    case 'reannounce_torrent':
+      if (target.source !== 'torrent') return false;
+      await api.controlTorrent(target.sourceId, 'reannounce');
+      return true;
+    case 'delete_download':
+      await api.deleteItem(target.source, target.sourceId);
+      return true;
+    case 'request_download_link': {
+      const fileId = target.fileIds[0];
+      if (!fileId) return false;
+      await api.getDownloadLink(target.source, target.sourceId, fileId);
+      return true;
+    }
+    case 'create_stream': {
+      const fileId = target.fileIds[0];
+      if (!fileId) return false;
+      await api.getStreamLink(target.source, target.sourceId, fileId);
+      return true;
+    }
+    case 'notify_user':
+      return true;
+    case 'call_webhook':
+      await postWebhook(step.actionValue!.trim(), rule, target);
+      return true;
+    case 'add_tag':
+      await runtime.addTag(target.source, target.sourceId, step.actionValue!.trim());
+      return true;
+    default:
+      return false;
+  }
+}
+
+const formatNotifyMessage = (template: string | undefined, targets: AutomationTarget[]) => {
+  const trimmed = template?.trim();
+  const more = targets.length > 3 ? ` and ${targets.length - 3} more` : '';
+  return trimmed
+    ? `${targets.slice(0, 3).map(t => renderNotifyTemplate(trimmed, t)).join('\n')}${more ? `\n…${more}` : ''}`
+    : `${targets.slice(0, 3).map(t => t.name).join(', ')}${more}`;
+};
+
+// Pipeline runner: each item goes through every step in order before the next item starts, so a
+// failing "stop" step only halts the rest of that item's chain.
+export async function executeAction(rule: TorBoxRule, targets: AutomationTarget[], runtime: AutomationRuntime): Promise<ActionOutcome> {
+  const { notify } = runtime;
+  const steps = getRuleActionSteps(rule);
+  const stepResults: TorBoxRuleStepResult[] = steps.map(step => ({ action: step.action, succeeded: 0, failed: 0, skipped: 0, halted: 0 }));
+  if (!targets.length) return { summary: 'No matching downloads found.', error: null, executions: [], stepResults, affectedCount: 0, queuedDeletions: [] };
+  const stepsError = validateActionSteps(steps, rule.scope ?? 'all');
+  if (stepsError) throw new Error(stepsError);
+  const executions: TorBoxRuleExecution[] = [];
+  const succeededByStep: AutomationTarget[][] = steps.map(() => []);
+  const affected = new Set<string>();
+  const queuedDeletions: AutomationTarget[] = [];
+  const { undoWindowMinutes } = getRuleLimits(rule);
+  let failed = 0;
+
+  for (const target of targets) {
+    for (const [index, step] of steps.entries()) {
+      const record = (outcome: TorBoxRuleExecution['outcome'], message: string | null) => executions.push({
+        id: `exec_${Date.now()}_${executions.length}`, ruleId: rule.id, ruleName: rule.name, action: step.action, source: target.source, sourceId: target.sourceId, itemName: target.name, executedAt: new Date().toISOString(), outcome, message,
+      });
+      try {
+        if (step.action === 'delete_download' && undoWindowMinutes > 0) {
+          queuedDeletions.push(target);
+          stepResults[index].succeeded++;
+          affected.add(getTargetKey(target));
+          record('queued', `Deletes in ${undoWindowMinutes} min unless undone`);
+        } else if (await applyActionToTarget(rule, step, target, runtime)) {
+          stepResults[index].succeeded++;
+          succeededByStep[index].push(target);
+          affected.add(getTargetKey(target));
+          record('success', null);
+        } else {
+          stepResults[index].skipped++;
+        }
+      } catch (err) {
+        failed++;
+        stepResults[index].failed++;
+        record('failed', err instanceof Error ? err.message : 'Action failed');
+        if (step.onFailure === 'stop') {
+          for (const later of stepResults.slice(index + 1)) later.halted++;
+          break;
+        }
+      }
+    }
+  }
+
+  let notified = false;
+  for (const [index, step] of steps.entries()) {
+    if (step.action !== 'notify_user' || !succeededByStep[index].length) continue;
+    await notify(rule.name, formatNotifyMessage(step.actionValue, succeededByStep[index]));
+    notified = true;
+  }
+  if (queuedDeletions.length > 0) {
+    await notify('Deletions queued', `${rule.name} will delete ${queuedDeletions.length} item${queuedDeletions.length === 1 ? '' : 's'} in ${undoWindowMinutes} min. Undo from Automations.`);
+  } else if (affected.size > 0 && !notified) {
+    await notify('Automation ran', `${rule.name} processed ${affected.size} item${affected.size === 1 ? '' : 's'}.`);
+  }
+
+  const stepText = steps.length > 1 ? ` ${describeStepResults(stepResults).join(' · ')}` : '';
+  if (failed > 0 && affected.size === 0) {
+    const lastError = executions[executions.length - 1]?.message ?? 'Action failed';
+    return { summary: lastError, error: `${lastError}${stepText}`, executions, stepResults, affectedCount: 0, queuedDeletions };
+  }
+  const failedText = failed > 0 && steps.length === 1 ? ` ${failed} failed.` : '';
+  const queuedText = queuedDeletions.length > 0 ? ` ${queuedDeletions.length} queued for deletion (undo within ${undoWindowMinutes} min).` : '';
+  return {
+    summary: affected.size > 0 ? `Processed ${affected.size} item${affected.size === 1 ? '' : 's'}.${queuedText}${failedText}${stepText}` : 'No supported items matched this action.',
+    error: null,
+    executions,
+    stepResults,
+    affectedCount: affected.size,
+    queuedDeletions,
+  };
+}
+
+// Shared by every caller in this process (provider timer, background task), so two ticks never evaluate at the same time.
+let tickInFlight = false;
+
+/**
+ * Fetches downloads once and runs every due rule against that snapshot. `getState` is read again
+ * after the network work so edits made meanwhile (new rules, undone deletions) are kept.
+ * Returns null when another tick is running or nothing is due.
+ */
+export async function runAutomationTick(getState: () => AutomationState, options: AutomationTickOptions): Promise<AutomationTickResult | null> {
+  if (tickInFlight) return null;
+  const { trigger, forceRuleId, runtime } = options;
+  const { api, notify } = runtime;
+  const initial = getState();
+  const now = Date.now();
+  const due = initial.rules.filter(rule => rule.id === forceRuleId || (rule.enabled && isRuleDue(rule, now)));
+  const dueDeletions = initial.pendingDeletions.filter(entry => new Date(entry.executeAt).getTime() <= now);
+  if (!due.length && !dueDeletions.length && !initial.rules.some(rule => rule.enabled && usesMetrics(rule))) return null;
+
+  tickInFlight = true;
+  const results: Record<string, string> = {};
+  const updates = new Map<string, Partial<TorBoxRule>>();
+  const newExecutions: TorBoxRuleExecution[] = [];
+  const newPending: TorBoxPendingDeletion[] = [];
+  const finishedPendingIds = new Set<string>();
+  let ledgerChanged = false;
+  let snapshot = initial.snapshot;
+  let metrics = initial.metrics;
+  const acted = { ...initial.ledger.acted };
+  try {
+    let deletedCount = 0;
+    for (const entry of dueDeletions) {
+      // Skip anything undone while earlier deletions in this batch were running.
+      if (!getState().pendingDeletions.some(p => p.id === entry.id)) continue;
+      finishedPendingIds.add(entry.id);
+      let message: string | null = null;
+      try {
+        await api.deleteItem(entry.source, entry.sourceId);
+        deletedCount++;
+      } catch (err) {
+        message = err instanceof Error ? err.message : 'Delete failed';
+      }
+      newExecutions.push({ id: `exec_${Date.now()}_${newExecutions.length}`, ruleId: entry.ruleId, ruleName: entry.ruleName, action: 'delete_download', source: entry.source, sourceId: entry.sourceId, itemName: entry.itemName, executedAt: new Date().toISOString(), outcome: message ? 'failed' : 'success', message });
+    }
+    if (deletedCount > 0) {
+      console.log(`[Automations] Deleted ${deletedCount} queued item(s) after their undo window`);
+      await notify('Automation deletions', `Deleted ${deletedCount} queued item${deletedCount === 1 ? '' : 's'}.`);
+    }
+
+    const fetched = await toTargets(api);
+    const sampledAt = Date.now();
+    metrics = sampleMetrics(initial.metrics, fetched, sampledAt);
+    const targets = applyMetrics(fetched, metrics, sampledAt);
+    const previous = initial.snapshot;
+    const current = buildSnapshot(targets);
+    snapshot = current;
+
+    // Items that no longer exist can never be acted on again, so their ledger keys are dropped.
+    for (const key of Object.keys(acted)) {
+      if (!current[key.slice(key.indexOf(':') + 1)]) {
+        delete acted[key];
+        ledgerChanged = true;
+      }
+    }
+
+    for (const rule of due) {
+      const isForced = rule.id === forceRuleId;
+      const label = isForced && trigger === 'manual' ? 'Manual run' : trigger === 'background' ? 'Background run' : trigger === 'cli' ? 'CLI run' : 'Scheduled run';
+      if (!isRuleSupportedForScope(rule)) {
+        results[rule.id] = 'Unsupported scope/action combination.';
+        updates.set(rule.id, { lastResult: results[rule.id], enabled: false });
+        continue;
+      }
+      try {
+        const matched = targets.filter(item => !acted[getLedgerKey(rule.id, item)] && matchesRule(rule, item) && matchesTrigger(rule, item, previous));
+        // Event rules with nothing to react to stay quiet instead of logging an empty run every tick.
+        if (!matched.length && isEventTrigger(rule.trigger) && !isForced) continue;
+        const breach = getCapBreach(rule, matched.length, now);
+        if (breach) {
+          results[rule.id] = `Failed: Rule disabled, ${breach}. Nothing was changed.`;
+          updates.set(rule.id, { enabled: false, lastRunAt: new Date().toISOString(), lastResult: `Disabled: ${breach}. Nothing was changed.` });
+          console.warn(`[Automations] ${rule.name} disabled: ${breach}`);
+          await notify('Automation disabled', `${rule.name} was turned off: ${breach}. Nothing was changed.`);
+          continue;
+        }
+        const outcome = await executeAction(rule, matched, runtime);
+        results[rule.id] = outcome.error ? `Failed: ${outcome.error}` : outcome.summary;
+        for (const execution of outcome.executions) {
+          newExecutions.push(execution);
+          if (execution.outcome === 'success' || execution.outcome === 'queued') acted[getLedgerKey(rule.id, execution)] = execution.executedAt;
+        }
+        const queuedAt = new Date();
+        const { undoWindowMinutes } = getRuleLimits(rule);
+        outcome.queuedDeletions.forEach((target, index) => newPending.push({
+          id: `pending_${queuedAt.getTime()}_${newPending.length + index}`, ruleId: rule.id, ruleName: rule.name, source: target.source, sourceId: target.sourceId, itemName: target.name, queuedAt: queuedAt.toISOString(), executeAt: new Date(queuedAt.getTime() + undoWindowMinutes * 60_000).toISOString(),
+        }));
+        updates.set(rule.id, { lastRunAt: new Date().toISOString(), runCount: rule.runCount + 1, lastResult: outcome.error ? results[rule.id] : `${label}: ${results[rule.id]}`, lastStepResults: outcome.stepResults, itemsToday: { day: getLocalDay(now), count: getItemsActedToday(rule, now) + outcome.affectedCount } });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Execution failed';
+        results[rule.id] = `Failed: ${message}`;
+        updates.set(rule.id, { lastRunAt: new Date().toISOString(), runCount: rule.runCount + 1, lastResult: `Failed: ${message}` });
+      }
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Execution failed';
+    console.error('[Automations] Tick failed:', message);
+    if (forceRuleId) results[forceRuleId] = `Failed: ${message}`;
+  } finally {
+    tickInFlight = false;
+  }
+
+  const latest = getState();
+  return {
+    results,
+    rules: updates.size > 0 ? latest.rules.map(r => (updates.has(r.id) ? { ...r, ...updates.get(r.id) } : r)) : null,
+    ledger: newExecutions.length > 0 || ledgerChanged ? { acted, entries: [...newExecutions.reverse(), ...latest.ledger.entries].slice(0, MAX_LEDGER_ENTRIES) } : null,
+    pendingDeletions: finishedPendingIds.size > 0 || newPending.length > 0 ? [...latest.pendingDeletions.filter(entry => !finishedPendingIds.has(entry.id)), ...newPending] : null,
+    snapshot,
+    metrics,
+  };
+}
+
+// Dry run: evaluates conditions against a fresh fetch without calling any action or advancing the shared snapshot.
+export async function buildRulePreview(rule: TorBoxRule, state: Pick<AutomationState, 'ledger' | 'metrics'>, api: TorBoxAPI): Promise<RulePreview> {
+  const fetched = await toTargets(api);
+  const sampledAt = Date.now();
+  // The fresh sample is folded in for this preview only; stored history advances on polls.
+  const targets = applyMetrics(fetched, sampleMetrics(state.metrics, fetched, sampledAt), sampledAt);
+  const activeConditions = flattenConditionTree(getRuleConditionTree(rule)).filter(cond => cond.value?.trim());
+  const matches = targets
+    .filter(target => matchesRule(rule, target))
+    .map(target => ({
+      source: target.source,
+      sourceId: target.sourceId,
+      name: target.name,
+      alreadyActed: !!state.ledger.acted[getLedgerKey(rule.id, target)],
+      conditions: activeConditions.map(cond => ({ field: cond.field, operator: cond.operator, expected: cond.value, actual: getFieldValue(target, cond.field) })),
+    }));
+  const note = isEventTrigger(rule.trigger)
+    ? `Event rule: these items match the conditions, but the action only fires when "${TRIGGER_LABELS[rule.trigger!]}${rule.triggerValue ? ` ${rule.triggerValue}` : ''}" happens.`
+    : null;
+  console.log(`[Automations] Preview of ${rule.name}: ${matches.length}/${targets.length} items match`);
+  return { ruleId: rule.id, ruleName: rule.name, evaluatedAt: new Date().toISOString(), scannedCount: targets.filter(target => matchesScope(rule, target)).length, matches, note };
+}
@@ -0,0 +1,198 @@
+import type {
+  TorBoxRule,
+  TorBoxRuleActionStep,
+  TorBoxRuleConditionGroup,
+  TorBoxRuleSchedule,
+  TorBoxRuleScope,
+  TorBoxRuleTrigger,
+} from '../types/torbox';
+import {
+  ALL_ACTIONS,
+  ALL_TRIGGERS,
+  CONDITION_FIELDS,
+  MAX_CONDITION_DEPTH,
+  OPERATORS,
+  getRuleActionSteps,
+  isEventTrigger,
+  validateActionSteps,
+  validateConditionValue,
+  validateRuleLimits,
+} from './automation';
+import { validateSchedule } from '../utils/schedule';
+
+export const RULES_EXPORT_FORMAT = 'tordeck-automation-rules';
+export const RULES_EXPORT_VERSION = 1;
+
+const SCOPES: TorBoxRuleScope[] = ['all', 'torrent', 'usenet', 'web'];
+
+// Only the definition travels; ids, run history and enabled state are local to each install.
+export type PortableRule = Pick<TorBoxRule, 'name' | 'checkIntervalMinutes' | 'conditions' | 'conditionTree' | 'action' | 'actionValue' | 'actionSteps' | 'scope' | 'trigger' | 'triggerValue' | 'schedule' | 'maxItemsPerRun' | 'maxItemsPerDay' | 'undoWindowMinutes' | 'isDangerous'>;
+
+export interface RulesExportDocument {
+  format: typeof RULES_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  rules: PortableRule[];
+}
+
+export interface RulesImportResult {
+  rules: PortableRule[];
+  errors: string[];
+}
+
+export function buildRulesExport(rules: TorBoxRule[]): RulesExportDocument {
+  return {
+    format: RULES_EXPORT_FORMAT,
+    version: RULES_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    rules: rules.map(rule => ({
+      name: rule.name,
+      checkIntervalMinutes: rule.checkIntervalMinutes,
+      conditions: rule.conditions,
+      conditionTree: rule.conditionTree,
+      action: rule.action,
+      actionValue: rule.actionValue,
+      actionSteps: rule.actionSteps,
+      scope: rule.scope,
+      trigger: rule.trigger,
+      triggerValue: rule.triggerValue,
+      schedule: rule.schedule,
+      maxItemsPerRun: rule.maxItemsPerRun,
+      maxItemsPerDay: rule.maxItemsPerDay,
+      undoWindowMinutes: rule.undoWindowMinutes,
+      isDangerous: rule.isDangerous,
+    })),
+  };
+}
+
+export function serializeRulesExport(rules: TorBoxRule[]): string {
+  return JSON.stringify(buildRulesExport(rules), null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+const isOptionalNumber = (value: unknown) => value === undefined || value === null || typeof value === 'number';
+
+function validateConditionNode(node: unknown, depth: number): string | null {
+  if (!isRecord(node)) return 'condition entries must be objects';
+  if (node.kind === 'group') {
+    if (depth > MAX_CONDITION_DEPTH) return `condition groups can be nested at most ${MAX_CONDITION_DEPTH} levels deep`;
+    if (node.logic !== 'and' && node.logic !== 'or') return 'condition groups need logic "and" or "or"';
+    if (!Array.isArray(node.children)) return 'condition groups need a children list';
+    for (const child of node.children) {
+      const error = validateConditionNode(child, depth + 1);
+      if (error) return error;
+    }
+    return null;
+  }
+  // Rule evaluation treats every node that is not a condition as a group, so leaves must say what they are.
+  if (node.kind !== 'condition') return node.kind === undefined ? 'condition tree entries need kind "condition" or "group"' : `unknown condition kind "${String(node.kind)}"`;
+  if (!CONDITION_FIELDS.includes(node.field as never)) return `unknown condition field "${String(node.field)}"`;
+  if (!OPERATORS.includes(node.operator as never)) return `unknown operator "${String(node.operator)}"`;
+  if (typeof node.value !== 'string') return 'condition values must be strings';
+  return validateConditionValue({ operator: node.operator as TorBoxRule['conditions'][number]['operator'], value: node.value });
+}
+
+function parsePortableRule(raw: unknown): PortableRule {
+  if (!isRecord(raw)) throw new Error('not an object');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('missing name');
+  if (typeof raw.checkIntervalMinutes !== 'number' || !Number.isFinite(raw.checkIntervalMinutes) || raw.checkIntervalMinutes < 0) throw new Error('checkIntervalMinutes must be a non-negative number');
+  if (!Array.isArray(raw.conditions)) throw new Error('conditions must be a list');
+  for (const condition of raw.conditions) {
+    const error = validateConditionNode({ ...(isRecord(condition) ? condition : {}), kind: 'condition' }, 1);
+    if (error) throw new Error(error);
+  }
+  if (raw.conditionTree !== undefined && raw.conditionTree !== null) {
+    if (!isRecord(raw.conditionTree) || raw.conditionTree.kind !== 'group') throw new Error('conditionTree must be a group');
+    const error = validateConditionNode(raw.conditionTree, 1);
+    if (error) throw new Error(error);
+  }
+  if (!ALL_ACTIONS.includes(raw.action as never)) throw new Error(`unknown action "${String(raw.action)}"`);
+  if (!isOptionalString(raw.actionValue)) throw new Error('actionValue must be a string');
+  if (raw.actionSteps !== undefined && raw.actionSteps !== null && !Array.isArray(raw.actionSteps)) throw new Error('actionSteps must be a list');
+  const scope = (raw.scope ?? 'all') as TorBoxRuleScope;
+  if (!SCOPES.includes(scope)) throw new Error(`unknown scope "${String(raw.scope)}"`);
+  const trigger = raw.trigger ?? 'interval';
+  if (!ALL_TRIGGERS.includes(trigger as never)) throw new Error(`unknown trigger "${String(raw.trigger)}"`);
+  if (!isOptionalString(raw.triggerValue)) throw new Error('triggerValue must be a string');
+
+  let schedule: TorBoxRuleSchedule | undefined;
+  if (raw.schedule !== undefined && raw.schedule !== null) {
+    const rawSchedule = raw.schedule;
+    if (!isRecord(rawSchedule) || (rawSchedule.kind !== 'window' && rawSchedule.kind !== 'cron')) throw new Error('schedule needs kind "window" or "cron"');
+    if (![rawSchedule.start, rawSchedule.end, rawSchedule.cron, rawSchedule.timezone].every(isOptionalString)) throw new Error('schedule values must be strings');
+    if (rawSchedule.days !== undefined && !Array.isArray(rawSchedule.days)) throw new Error('schedule days must be a list');
+    schedule = {
+      kind: rawSchedule.kind,
+      days: rawSchedule.days as number[] | undefined,
+      start: (rawSchedule.start as string | null) ?? undefined,
+      end: (rawSchedule.end as string | null) ?? undefined,
+      cron: (rawSchedule.cron as string | null) ?? undefined,
+      timezone: (rawSchedule.timezone as string | null) ?? undefined,
+    };
+    const scheduleError = validateSchedule(schedule);
+    if (scheduleError) throw new Error(scheduleError);
+    if (schedule.kind === 'cron' && isEventTrigger(trigger as TorBoxRuleTrigger)) throw new Error('event triggers can only be limited by a time window, not a cron schedule');
+  }
+
+  if (![raw.maxItemsPerRun, raw.maxItemsPerDay, raw.undoWindowMinutes].every(isOptionalNumber)) throw new Error('limits must be numbers');
+  const limits = {
+    maxItemsPerRun: (raw.maxItemsPerRun as number | null) ?? undefined,
+    maxItemsPerDay: (raw.maxItemsPerDay as number | null) ?? undefined,
+    undoWindowMinutes: (raw.undoWindowMinutes as number | null) ?? undefined,
+  };
+  const limitsError = validateRuleLimits(limits);
+  if (limitsError) throw new Error(limitsError);
+
+  const actionSteps = Array.isArray(raw.actionSteps) && raw.actionSteps.length > 0
+    ? raw.actionSteps.map((step): TorBoxRuleActionStep => {
+      if (!isRecord(step) || !isOptionalString(step.actionValue)) throw new Error('invalid action step');
+      return { action: step.action as TorBoxRuleActionStep['action'], actionValue: (step.actionValue as string | null) ?? undefined, onFailure: step.onFailure === 'continue' ? 'continue' : 'stop' };
+    })
+    : undefined;
+  const rule: PortableRule = {
+    name: raw.name.trim(),
+    checkIntervalMinutes: raw.checkIntervalMinutes,
+    conditions: raw.conditions.map(c => ({ field: c.field, operator: c.operator, value: c.value })),
+    conditionTree: (raw.conditionTree ?? undefined) as TorBoxRuleConditionGroup | undefined,
+    action: raw.action as TorBoxRule['action'],
+    actionValue: (raw.actionValue as string | null) ?? undefined,
+    actionSteps,
+    scope,
+    trigger: trigger as TorBoxRule['trigger'],
+    triggerValue: (raw.triggerValue as string | null) ?? undefined,
+    schedule,
+    ...limits,
+  };
+  const stepsError = validateActionSteps(getRuleActionSteps(rule), scope);
+  if (stepsError) throw new Error(stepsError);
+  // Never trust the file's own flag: anything that can delete is dangerous.
+  rule.isDangerous = getRuleActionSteps(rule).some(step => step.action === 'delete_download');
+  return rule;
+}
+
+/** Throws for document-level problems; rule-level problems are collected so valid rules can still be imported. */
+export function parseRulesImport(text: string): RulesImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== RULES_EXPORT_FORMAT) throw new Error('This is not a TorDeck automation rules export.');
+  if (typeof parsed.version !== 'number' || parsed.version < 1) throw new Error('The export is missing a valid version.');
+  if (parsed.version > RULES_EXPORT_VERSION) throw new Error(`This export was made by a newer version of TorDeck (format v${parsed.version}). Update the app to import it.`);
+  if (!Array.isArray(parsed.rules)) throw new Error('The export has no rules list.');
+
+  const rules: PortableRule[] = [];
+  const errors: string[] = [];
+  parsed.rules.forEach((raw: unknown, index: number) => {
+    try {
+      rules.push(parsePortableRule(raw));
+    } catch (err) {
+      const name = isRecord(raw) && typeof raw.name === 'string' ? ` ("${raw.name}")` : '';
+      errors.push(`Rule ${index + 1}${name}: ${err instanceof Error ? err.message : 'invalid rule'}`);
+    }
+  });
+  return { rules, errors };
+}
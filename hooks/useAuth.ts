@@ -1,48 +1,106 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import createContextHook from '@nkzw/create-context-hook';
 import { useMutation } from '@tanstack/react-query';
-import { torboxApi } from '@/services/torbox-api';
-import { TorBoxUser } from '@/types/torbox';
+import { torboxApi, createTorBoxApi, TorBoxAPI } from '@/services/torbox-api';
+import { TorBoxAccount, TorBoxUser } from '@/types/torbox';
+import { PRIMARY_ACCOUNT_ID, createAccountId, getAccountStorageKey } from '@/utils/accountStorage';
 
 const TOKEN_KEY = 'torbox_api_token';
+const ACCOUNTS_KEY = 'torbox_accounts';
+const ACTIVE_ACCOUNT_KEY = 'torbox_active_account';
 
-async function storeToken(token: string): Promise<void> {
+async function storeToken(accountId: string, token: string): Promise<void> {
+  const key = getAccountStorageKey(TOKEN_KEY, accountId);
   if (Platform.OS === 'web') {
-    await AsyncStorage.setItem(TOKEN_KEY, token);
+    await AsyncStorage.setItem(key, token);
   } else {
-    await SecureStore.setItemAsync(TOKEN_KEY, token);
+    await SecureStore.setItemAsync(key, token);
   }
 }
 
-async function getStoredToken(): Promise<string | null> {
+async function getStoredToken(accountId: string): Promise<string | null> {
+  const key = getAccountStorageKey(TOKEN_KEY, accountId);
   if (Platform.OS === 'web') {
-    return AsyncStorage.getItem(TOKEN_KEY);
+    return AsyncStorage.getItem(key);
   }
-  return SecureStore.getItemAsync(TOKEN_KEY);
+  return SecureStore.getItemAsync(key);
 }
 
-async function removeStoredToken(): Promise<void> {
+async function removeStoredToken(accountId: string): Promise<void> {
+  const key = getAccountStorageKey(TOKEN_KEY, accountId);
   if (Platform.OS === 'web') {
-    await AsyncStorage.removeItem(TOKEN_KEY);
+    await AsyncStorage.removeItem(key);
   } else {
-    await SecureStore.deleteItemAsync(TOKEN_KEY);
+    await SecureStore.deleteItemAsync(key);
   }
 }
 
+async function loadAccounts(): Promise<TorBoxAccount[]> {
+  try {
+    const stored = await AsyncStorage.getItem(ACCOUNTS_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((a): a is TorBoxAccount => !!a && typeof a.id === 'string') : [];
+  } catch (err) {
+    console.warn('[Auth] Failed to load accounts:', err);
+    return [];
+  }
+}
+
+async function saveAccounts(accounts: TorBoxAccount[]): Promise<void> {
+  await AsyncStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+}
+
+// Headless callers (background tasks) restore the active account without mounting AuthProvider.
+export async function getActiveAccountSession(): Promise<{ accountId: string; token: string } | null> {
+  const storedAccounts = await loadAccounts();
+  const storedActiveId = await AsyncStorage.getItem(ACTIVE_ACCOUNT_KEY);
+  const accountId = storedAccounts.find(a => a.id === storedActiveId)?.id ?? storedAccounts[0]?.id ?? PRIMARY_ACCOUNT_ID;
+  const token = await getStoredToken(accountId);
+  return token ? { accountId, token } : null;
+}
+
 export const [AuthProvider, useAuth] = createContextHook(() => {
   const [token, setToken] = useState<string | null>(null);
   const [user, setUser] = useState<TorBoxUser | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [accounts, setAccounts] = useState<TorBoxAccount[]>([]);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
+  const accountApisRef = useRef<Map<string, TorBoxAPI>>(new Map());
+
+  const persistAccounts = useCallback(async (next: TorBoxAccount[]) => {
+    setAccounts(next);
+    try {
+      await saveAccounts(next);
+    } catch (err) {
+      console.error('[Auth] Failed to save accounts:', err);
+    }
+  }, []);
 
   useEffect(() => {
     let cancelled = false;
     (async () => {
       try {
-        const stored = await getStoredToken();
+        let storedAccounts = await loadAccounts();
+        if (storedAccounts.length === 0) {
+          // Upgrade path: a token saved by the single-account build becomes the primary profile.
+          const legacyToken = await getStoredToken(PRIMARY_ACCOUNT_ID);
+          if (legacyToken) {
+            storedAccounts = [{ id: PRIMARY_ACCOUNT_ID, label: 'Personal', email: null, addedAt: new Date().toISOString() }];
+            await saveAccounts(storedAccounts);
+          }
+        }
+        if (cancelled) return;
+        setAccounts(storedAccounts);
+
+        const storedActiveId = await AsyncStorage.getItem(ACTIVE_ACCOUNT_KEY);
+        const active = storedAccounts.find(a => a.id === storedActiveId) ?? storedAccounts[0];
+        if (!active) return;
+
+        const stored = await getStoredToken(active.id);
         if (stored && !cancelled) {
           console.log('[Auth] Found stored token, validating...');
           torboxApi.setToken(stored);
@@ -51,12 +109,14 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
             if (!cancelled) {
               setToken(stored);
               setUser(userData);
+              setActiveAccountId(active.id);
               setIsConnected(true);
               console.log('[Auth] Token validated, user:', userData.email);
             }
           } catch {
             console.log('[Auth] Stored token invalid, clearing');
-            await removeStoredToken();
+            await removeStoredToken(active.id);
+            torboxApi.setToken('');
           }
         }
       } catch (err) {
@@ -87,41 +147,145 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
   }, [isConnected, token, refreshUser]);
 
   const connectMutation = useMutation({
-    mutationFn: async (apiToken: string) => {
-      torboxApi.setToken(apiToken);
-      const userData = await torboxApi.getUser();
-      await storeToken(apiToken);
-      return { token: apiToken, user: userData };
+    mutationFn: async ({ token: apiToken, label }: { token: string; label?: string }) => {
+      const probe = createTorBoxApi(apiToken);
+      const userData = await probe.getUser();
+      const existing = accounts.find(a => a.email && a.email === userData.email);
+      const accountId = existing?.id ?? (accounts.length === 0 ? PRIMARY_ACCOUNT_ID : createAccountId());
+      await storeToken(accountId, apiToken);
+      const account: TorBoxAccount = {
+        id: accountId,
+        label: label?.trim() || existing?.label || (accounts.length === 0 ? 'Personal' : userData.email),
+        email: userData.email,
+        addedAt: existing?.addedAt ?? new Date().toISOString(),
+      };
+      return { token: apiToken, user: userData, account };
     },
-    onSuccess: (data) => {
+    onSuccess: async (data) => {
+      torboxApi.setToken(data.token);
+      accountApisRef.current.delete(data.account.id);
+      const next = accounts.some(a => a.id === data.account.id)
+        ? accounts.map(a => a.id === data.account.id ? data.account : a)
+        : [...accounts, data.account];
+      await persistAccounts(next);
+      await AsyncStorage.setItem(ACTIVE_ACCOUNT_KEY, data.account.id);
       setToken(data.token);
       setUser(data.user);
+      setActiveAccountId(data.account.id);
       setIsConnected(true);
       console.log('[Auth] Connected as:', data.user.email);
     },
     onError: (err) => {
       console.error('[Auth] Connect error:', err);
-      torboxApi.setToken('');
     },
   });
 
-  const disconnect = useCallback(async () => {
-    await removeStoredToken();
+  const { mutateAsync: connectAsync } = connectMutation;
+
+  const connect = useCallback((apiToken: string) => connectAsync({ token: apiToken }), [connectAsync]);
+
+  const addAccount = useCallback((apiToken: string, label?: string) => connectAsync({ token: apiToken, label }), [connectAsync]);
+
+  const resetSession = useCallback(() => {
     torboxApi.setToken('');
     setToken(null);
     setUser(null);
+    setActiveAccountId(null);
     setIsConnected(false);
-    console.log('[Auth] Disconnected');
   }, []);
 
+  const switchAccount = useCallback(async (accountId: string) => {
+    if (accountId === activeAccountId) return;
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) throw new Error('Account not found.');
+    const stored = await getStoredToken(accountId);
+    if (!stored) throw new Error(`No token saved for "${account.label}". Remove and re-add the account.`);
+
+    const userData = await createTorBoxApi(stored).getUser();
+    torboxApi.setToken(stored);
+    await AsyncStorage.setItem(ACTIVE_ACCOUNT_KEY, accountId);
+    setToken(stored);
+    setUser(userData);
+    setActiveAccountId(accountId);
+    setIsConnected(true);
+    console.log('[Auth] Switched to account:', account.label);
+  }, [accounts, activeAccountId]);
+
+  const renameAccount = useCallback(async (accountId: string, label: string) => {
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    await persistAccounts(accounts.map(a => a.id === accountId ? { ...a, label: trimmed } : a));
+  }, [accounts, persistAccounts]);
+
+  const removeAccount = useCallback(async (accountId: string) => {
+    await removeStoredToken(accountId);
+    accountApisRef.current.delete(accountId);
+    const remaining = accounts.filter(a => a.id !== accountId);
+    await persistAccounts(remaining);
+    console.log('[Auth] Removed account:', accountId);
+
+    if (accountId !== activeAccountId) return;
+    const fallback = remaining[0];
+    if (!fallback) {
+      await AsyncStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+      resetSession();
+      return;
+    }
+    const stored = await getStoredToken(fallback.id);
+    if (!stored) {
+      resetSession();
+      return;
+    }
+    torboxApi.setToken(stored);
+    await AsyncStorage.setItem(ACTIVE_ACCOUNT_KEY, fallback.id);
+    setToken(stored);
+    setActiveAccountId(fallback.id);
+    setIsConnected(true);
+    try {
+      setUser(await torboxApi.getUser());
+    } catch (err) {
+      console.warn('[Auth] Failed to load user for fallback account:', err);
+    }
+  }, [accounts, activeAccountId, persistAccounts, resetSession]);
+
+  const disconnect = useCallback(async () => {
+    if (activeAccountId) {
+      await removeAccount(activeAccountId);
+    } else {
+      resetSession();
+    }
+    console.log('[Auth] Disconnected');
+  }, [activeAccountId, removeAccount, resetSession]);
+
+  const getAccountApi = useCallback(async (accountId: string): Promise<TorBoxAPI | null> => {
+    if (accountId === activeAccountId) return torboxApi;
+    const cached = accountApisRef.current.get(accountId);
+    if (cached) return cached;
+    const stored = await getStoredToken(accountId);
+    if (!stored) return null;
+    const api = createTorBoxApi(stored);
+    accountApisRef.current.set(accountId, api);
+    return api;
+  }, [activeAccountId]);
+
+  const activeAccount = accounts.find(a => a.id === activeAccountId) ?? null;
+
   return {
     token,
     user,
     isLoading,
     isConnected,
-    connect: connectMutation.mutateAsync,
+    accounts,
+    activeAccount,
+    activeAccountId,
+    connect,
+    addAccount,
     isConnecting: connectMutation.isPending,
     connectError: connectMutation.error?.message ?? null,
+    switchAccount,
+    renameAccount,
+    removeAccount,
+    getAccountApi,
     disconnect,
     refreshUser,
   };
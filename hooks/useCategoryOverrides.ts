@@ -2,36 +2,55 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import createContextHook from '@nkzw/create-context-hook';
 import { MediaCategory, CategoryOverride } from '@/types/torbox';
+import { useAuth } from '@/hooks/useAuth';
+import { getAccountStorageKey } from '@/utils/accountStorage';
+import { toMediaCategory } from '@/utils/classification';
 
 const OVERRIDES_KEY = 'category_overrides';
 
+// Overrides saved before a category was renamed are mapped to its new name; unknown categories are dropped.
+function parseStoredOverrides(stored: string | null): Record<string, CategoryOverride> {
+  const parsed: Record<string, CategoryOverride> = stored ? JSON.parse(stored) : {};
+  const result: Record<string, CategoryOverride> = {};
+  for (const [itemId, override] of Object.entries(parsed)) {
+    const overrideCategory = toMediaCategory(override.overrideCategory);
+    if (!overrideCategory) continue;
+    result[itemId] = { ...override, overrideCategory, originalCategory: toMediaCategory(override.originalCategory) ?? 'other' };
+  }
+  return result;
+}
+
 export const [CategoryOverrideProvider, useCategoryOverrides] = createContextHook(() => {
   const [overrides, setOverrides] = useState<Record<string, CategoryOverride>>({});
   const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const { activeAccountId } = useAuth();
+  const storageKey = getAccountStorageKey(OVERRIDES_KEY, activeAccountId);
 
   useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
     (async () => {
       try {
-        const stored = await AsyncStorage.getItem(OVERRIDES_KEY);
-        if (stored) {
-          setOverrides(JSON.parse(stored));
-          console.log('[CategoryOverrides] Loaded overrides');
-        }
+        const stored = await AsyncStorage.getItem(storageKey);
+        if (cancelled) return;
+        setOverrides(parseStoredOverrides(stored));
+        console.log('[CategoryOverrides] Loaded overrides');
       } catch (err) {
         console.error('[CategoryOverrides] Load error:', err);
       } finally {
-        setIsLoaded(true);
+        if (!cancelled) setIsLoaded(true);
       }
     })();
-  }, []);
+    return () => { cancelled = true; };
+  }, [storageKey]);
 
   const persistOverrides = useCallback(async (newOverrides: Record<string, CategoryOverride>) => {
     try {
-      await AsyncStorage.setItem(OVERRIDES_KEY, JSON.stringify(newOverrides));
+      await AsyncStorage.setItem(storageKey, JSON.stringify(newOverrides));
     } catch (err) {
       console.error('[CategoryOverrides] Save error:', err);
     }
-  }, []);
+  }, [storageKey]);
 
   const setOverride = useCallback(async (itemId: string, originalCategory: MediaCategory, newCategory: MediaCategory) => {
     const updated = { ...overrides };
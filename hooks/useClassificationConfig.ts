@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { ClassificationConfig } from '@/types/torbox';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '@/constants/categories';
+import { sanitizeClassificationConfig } from '@/utils/classification';
+
+const CLASSIFICATION_CONFIG_KEY = 'classification_config';
+
+export const [ClassificationConfigProvider, useClassificationConfig] = createContextHook(() => {
+  const [config, setConfig] = useState<ClassificationConfig>(DEFAULT_CLASSIFICATION_CONFIG);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(CLASSIFICATION_CONFIG_KEY);
+        if (stored) {
+          setConfig(sanitizeClassificationConfig(JSON.parse(stored)));
+          console.log('[ClassificationConfig] Loaded config');
+        }
+      } catch (err) {
+        console.error('[ClassificationConfig] Load error:', err);
+      } finally {
+        setIsLoaded(true);
+      }
+    })();
+  }, []);
+
+  const persistConfig = useCallback(async (newConfig: ClassificationConfig) => {
+    setConfig(newConfig);
+    try {
+      await AsyncStorage.setItem(CLASSIFICATION_CONFIG_KEY, JSON.stringify(newConfig));
+      console.log('[ClassificationConfig] Saved config');
+    } catch (err) {
+      console.error('[ClassificationConfig] Save error:', err);
+    }
+  }, []);
+
+  const updateConfig = useCallback(async (updates: Partial<ClassificationConfig>) => {
+    await persistConfig(sanitizeClassificationConfig({ ...config, ...updates }));
+  }, [config, persistConfig]);
+
+  const resetConfig = useCallback(async () => {
+    await persistConfig(DEFAULT_CLASSIFICATION_CONFIG);
+    console.log('[ClassificationConfig] Reset to defaults');
+  }, [persistConfig]);
+
+  return {
+    config,
+    isLoaded,
+    updateConfig,
+    resetConfig,
+  };
+});
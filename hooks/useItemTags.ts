@@ -0,0 +1,69 @@
+import { useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DownloadSource } from '@/types/torbox';
+import { useAuth } from '@/hooks/useAuth';
+import { getAccountStorageKey } from '@/utils/accountStorage';
+
+const ITEM_TAGS_KEY = 'torbox_item_tags';
+
+type ItemTags = Record<string, string[]>;
+
+const getItemTagKey = (source: DownloadSource, sourceId: number) => `${source}:${sourceId}`;
+
+export async function getItemTags(accountId: string | null): Promise<ItemTags> {
+  try {
+    const stored = await AsyncStorage.getItem(getAccountStorageKey(ITEM_TAGS_KEY, accountId));
+    if (!stored) return {};
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (err) {
+    console.warn('[ItemTags] Failed to read tags:', err);
+    return {};
+  }
+}
+
+async function saveItemTags(accountId: string | null, tags: ItemTags): Promise<void> {
+  await AsyncStorage.setItem(getAccountStorageKey(ITEM_TAGS_KEY, accountId), JSON.stringify(tags));
+}
+
+// Tags are compared case-insensitively, so "Movies" and "movies" stay one label.
+export async function addItemTag(accountId: string | null, source: DownloadSource, sourceId: number, tag: string): Promise<boolean> {
+  const label = tag.trim();
+  if (!label) return false;
+  const tags = await getItemTags(accountId);
+  const key = getItemTagKey(source, sourceId);
+  const existing = tags[key] ?? [];
+  if (existing.some(t => t.toLowerCase() === label.toLowerCase())) return false;
+  await saveItemTags(accountId, { ...tags, [key]: [...existing, label] });
+  return true;
+}
+
+export async function removeItemTag(accountId: string | null, source: DownloadSource, sourceId: number, tag: string): Promise<void> {
+  const tags = await getItemTags(accountId);
+  const key = getItemTagKey(source, sourceId);
+  const remaining = (tags[key] ?? []).filter(t => t !== tag);
+  const next = { ...tags };
+  if (remaining.length) next[key] = remaining;
+  else delete next[key];
+  await saveItemTags(accountId, next);
+}
+
+export function useItemTags(source: DownloadSource, sourceId: number) {
+  const { activeAccountId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const tagsQuery = useQuery({
+    queryKey: ['item-tags', activeAccountId],
+    queryFn: () => getItemTags(activeAccountId),
+    staleTime: 0,
+  });
+
+  const removeTag = useCallback(async (tag: string) => {
+    await removeItemTag(activeAccountId, source, sourceId, tag);
+    await queryClient.invalidateQueries({ queryKey: ['item-tags', activeAccountId] });
+    console.log('[ItemTags] Removed tag:', tag, 'from', getItemTagKey(source, sourceId));
+  }, [activeAccountId, source, sourceId, queryClient]);
+
+  return { tags: tagsQuery.data?.[getItemTagKey(source, sourceId)] ?? [], removeTag };
+}
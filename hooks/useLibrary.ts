@@ -1,204 +1,38 @@
 import { useMemo, useCallback, useEffect, useRef } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
 import createContextHook from '@nkzw/create-context-hook';
 import { torboxApi } from '@/services/torbox-api';
-import { classifyFile, getFileExtension } from '@/utils/classification';
+import { buildActiveDownloads, buildLibraryItems } from '@/utils/libraryItems';
 import {
-  TorBoxItem,
-  TorBoxUsenetItem,
-  TorBoxWebItem,
   LibraryItem,
   MediaCategory,
   AppStats,
   DownloadSource,
-  ActiveDownload,
   AudiobookGroup,
+  ShowGroup,
+  ContentUploadFile,
+  TorBoxItem,
+  TorBoxUsenetItem,
+  TorBoxWebItem,
 } from '@/types/torbox';
 import { useAuth } from '@/hooks/useAuth';
 import { useCategoryOverrides } from '@/hooks/useCategoryOverrides';
+import { useClassificationConfig } from '@/hooks/useClassificationConfig';
+import { useMediaDurations } from '@/hooks/useMediaDurations';
+import { isDurationProbeCandidate } from '@/utils/classification';
+import { buildShowGroups } from '@/utils/showGroups';
 import { ALL_CATEGORIES } from '@/constants/categories';
 import { appendAppNotification } from '@/hooks/useAppNotifications';
 
-function buildLibraryItems(
-  torrents: TorBoxItem[],
-  usenet: TorBoxUsenetItem[],
-  webDl: TorBoxWebItem[]
-): LibraryItem[] {
-  const items: LibraryItem[] = [];
-
-  const getFileId = (file: { id?: number; file_id?: number }): number | null => {
-    const candidate = file.id ?? file.file_id;
-    return Number.isFinite(candidate) ? Number(candidate) : null;
-  };
-
-  const getWebDownloadId = (item: TorBoxWebItem): number => {
-    return item.webdownload_id ?? item.web_id ?? item.id;
-  };
-
-  for (const t of torrents) {
-    if (!t.files) continue;
-    for (const f of t.files) {
-      const fileId = getFileId(f);
-      if (fileId === null) continue;
-
-      items.push({
-        id: `torrent-${t.id}-${fileId}`,
-        sourceId: t.id,
-        fileId,
-        source: 'torrent',
-        parentName: t.name,
-        fileName: f.short_name || f.name,
-        fileSize: f.size,
-        category: classifyFile(f, t.files, undefined, t.name),
-        extension: getFileExtension(f.name),
-        mimetype: f.mimetype,
-        md5: f.md5,
-        s3Path: f.s3_path,
-        createdAt: t.created_at,
-        isComplete: t.download_finished,
-      });
-    }
-  }
-
-  for (const u of usenet) {
-    if (!u.files) continue;
-    for (const f of u.files) {
-      const fileId = getFileId(f);
-      if (fileId === null) continue;
-
-      items.push({
-        id: `usenet-${u.id}-${fileId}`,
-        sourceId: u.id,
-        fileId,
-        source: 'usenet',
-        parentName: u.name,
-        fileName: f.short_name || f.name,
-        fileSize: f.size,
-        category: classifyFile(f, u.files, undefined, u.name),
-        extension: getFileExtension(f.name),
-        mimetype: f.mimetype,
-        md5: f.md5,
-        s3Path: f.s3_path,
-        createdAt: u.created_at,
-        isComplete: u.download_finished,
-      });
-    }
-  }
-
-  for (const w of webDl) {
-    const webId = getWebDownloadId(w);
-    if (!w.files) continue;
-    for (const f of w.files) {
-      const fileId = getFileId(f);
-      if (fileId === null) continue;
-
-      items.push({
-        id: `web-${webId}-${fileId}`,
-        sourceId: webId,
-        fileId,
-        source: 'web',
-        parentName: w.name,
-        fileName: f.short_name || f.name,
-        fileSize: f.size,
-        category: classifyFile(f, w.files, undefined, w.name),
-        extension: getFileExtension(f.name),
-        mimetype: f.mimetype,
-        md5: f.md5,
-        s3Path: f.s3_path,
-        createdAt: w.created_at,
-        isComplete: w.download_finished,
-      });
-    }
-  }
-
-  return items;
-}
-
-function shouldShowInDownloads(downloadState: string, downloadFinished: boolean): boolean {
-  const state = downloadState.toLowerCase();
-  if (!downloadFinished) return true;
-  if (state === 'error' || state === 'failed' || state === 'stalled') return true;
-  return false;
-}
-
-function buildActiveDownloads(
-  torrents: TorBoxItem[],
-  usenet: TorBoxUsenetItem[],
-  webDl: TorBoxWebItem[]
-): ActiveDownload[] {
-  const items: ActiveDownload[] = [];
-
-  for (const t of torrents) {
-    if (shouldShowInDownloads(t.download_state, t.download_finished)) {
-      items.push({
-        id: t.id,
-        name: t.name,
-        size: t.size,
-        progress: t.progress,
-        downloadSpeed: t.download_speed,
-        uploadSpeed: t.upload_speed,
-        eta: t.eta,
-        downloadFinished: t.download_finished,
-        downloadState: t.download_state,
-        createdAt: t.created_at,
-        source: 'torrent',
-        filesCount: t.files?.length ?? 0,
-        seeds: t.seeds,
-        peers: t.peers,
-      });
-    }
-  }
-
-  for (const u of usenet) {
-    if (shouldShowInDownloads(u.download_state, u.download_finished)) {
-      items.push({
-        id: u.id,
-        name: u.name,
-        size: u.size,
-        progress: u.progress,
-        downloadSpeed: u.download_speed,
-        uploadSpeed: 0,
-        eta: u.eta,
-        downloadFinished: u.download_finished,
-        downloadState: u.download_state,
-        createdAt: u.created_at,
-        source: 'usenet',
-        filesCount: u.files?.length ?? 0,
-      });
-    }
-  }
-
-  for (const w of webDl) {
-    const webId = w.webdownload_id ?? w.web_id ?? w.id;
-    if (shouldShowInDownloads(w.download_state, w.download_finished)) {
-      items.push({
-        id: webId,
-        name: w.name,
-        size: w.size,
-        progress: w.progress,
-        downloadSpeed: w.download_speed,
-        uploadSpeed: 0,
-        eta: w.eta,
-        downloadFinished: w.download_finished,
-        downloadState: w.download_state,
-        createdAt: w.created_at,
-        source: 'web',
-        filesCount: w.files?.length ?? 0,
-      });
-    }
-  }
-
-  items.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-  return items;
-}
-
 export const [LibraryProvider, useLibrary] = createContextHook(() => {
-  const { isConnected } = useAuth();
+  const { isConnected, activeAccountId } = useAuth();
   const { getEffectiveCategory } = useCategoryOverrides();
+  const { config: classificationConfig } = useClassificationConfig();
+  const { durations, probeDurations } = useMediaDurations(activeAccountId);
   const queryClient = useQueryClient();
 
   const torrentsQuery = useQuery({
-    queryKey: ['torrents'],
+    queryKey: ['torrents', activeAccountId],
     queryFn: () => torboxApi.getTorrents(),
     enabled: isConnected,
     refetchInterval: 120000,
@@ -207,7 +41,7 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
   });
 
   const usenetQuery = useQuery({
-    queryKey: ['usenet'],
+    queryKey: ['usenet', activeAccountId],
     queryFn: () => torboxApi.getUsenet(),
     enabled: isConnected,
     refetchInterval: 120000,
@@ -216,7 +50,7 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
   });
 
   const webQuery = useQuery({
-    queryKey: ['webdl'],
+    queryKey: ['webdl', activeAccountId],
     queryFn: () => torboxApi.getWebDownloads(),
     enabled: isConnected,
     refetchInterval: 120000,
@@ -229,16 +63,22 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
   const webDl = useMemo(() => webQuery.data ?? [], [webQuery.data]);
 
   const rawLibraryItems = useMemo(
-    () => buildLibraryItems(torrents, usenet, webDl),
-    [torrents, usenet, webDl]
+    () => buildLibraryItems(torrents, usenet, webDl, classificationConfig, durations),
+    [torrents, usenet, webDl, classificationConfig, durations]
   );
 
+  useEffect(() => {
+    if (!isConnected) return;
+    probeDurations(rawLibraryItems.filter(item => isDurationProbeCandidate(item, classificationConfig)));
+  }, [isConnected, rawLibraryItems, classificationConfig, probeDurations]);
+
   const libraryItems = useMemo(
     () => rawLibraryItems.map(item => ({
       ...item,
       category: getEffectiveCategory(item.id, item.category),
+      accountId: activeAccountId ?? undefined,
     })),
-    [rawLibraryItems, getEffectiveCategory]
+    [rawLibraryItems, getEffectiveCategory, activeAccountId]
   );
 
   const activeDownloads = useMemo(
@@ -247,6 +87,11 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
   );
   const previousCompletionMapRef = useRef<Map<string, boolean>>(new Map());
 
+  useEffect(() => {
+    // A different account's lists are not "newly completed" items.
+    previousCompletionMapRef.current = new Map();
+  }, [activeAccountId]);
+
   useEffect(() => {
     const currentMap = new Map<string, boolean>();
     const completedNow: string[] = [];
@@ -342,6 +187,26 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
     },
   });
 
+  const addTorrentFileMutation = useMutation({
+    mutationFn: async (file: ContentUploadFile) => {
+      await torboxApi.addTorrentFile(file);
+    },
+    onSuccess: () => {
+      console.log('[Library] Torrent file uploaded, refetching...');
+      queryClient.invalidateQueries({ queryKey: ['torrents'] });
+    },
+  });
+
+  const addNzbFileMutation = useMutation({
+    mutationFn: async (file: ContentUploadFile) => {
+      await torboxApi.addUsenetFile(file);
+    },
+    onSuccess: () => {
+      console.log('[Library] NZB file uploaded, refetching...');
+      queryClient.invalidateQueries({ queryKey: ['usenet'] });
+    },
+  });
+
   const audiobookGroups = useMemo((): AudiobookGroup[] => {
     const audiobooks = libraryItems.filter(item => item.category === 'audiobook');
     const groupMap = new Map<string, LibraryItem[]>();
@@ -375,6 +240,8 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
     return groups;
   }, [libraryItems]);
 
+  const showGroups = useMemo((): ShowGroup[] => buildShowGroups(libraryItems), [libraryItems]);
+
   const stats = useMemo((): AppStats => {
     const countsByCategory = {} as Record<MediaCategory, number>;
     const downloadsByCategory = {} as Record<MediaCategory, number>;
@@ -444,6 +311,7 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
   return {
     libraryItems,
     audiobookGroups,
+    showGroups,
     torrents,
     usenet,
     webDl,
@@ -462,6 +330,10 @@ export const [LibraryProvider, useLibrary] = createContextHook(() => {
     isAddingWeb: addWebMutation.isPending,
     addNzb: addNzbMutation.mutateAsync,
     isAddingNzb: addNzbMutation.isPending,
+    addTorrentFile: addTorrentFileMutation.mutateAsync,
+    isAddingTorrentFile: addTorrentFileMutation.isPending,
+    addNzbFile: addNzbFileMutation.mutateAsync,
+    isAddingNzbFile: addNzbFileMutation.isPending,
   };
 });
 
@@ -477,9 +349,84 @@ export function useFilteredLibrary(search: string, category?: MediaCategory) {
       filtered = filtered.filter(
         item =>
           item.fileName.toLowerCase().includes(q) ||
-          item.parentName.toLowerCase().includes(q)
+          item.parentName.toLowerCase().includes(q) ||
+          item.release.title.toLowerCase().includes(q)
       );
     }
     return filtered;
   }, [libraryItems, search, category]);
 }
+
+export function useMergedLibrary(enabled: boolean) {
+  const { accounts, activeAccountId, getAccountApi } = useAuth();
+  const { libraryItems } = useLibrary();
+  const { config: classificationConfig } = useClassificationConfig();
+  const otherAccounts = useMemo(
+    () => accounts.filter(account => account.id !== activeAccountId),
+    [accounts, activeAccountId]
+  );
+
+  const accountQueries = useQueries({
+    queries: otherAccounts.map(account => ({
+      queryKey: ['account-library', account.id],
+      // Raw lists are cached so a classification change reclassifies without refetching.
+      queryFn: async (): Promise<[TorBoxItem[], TorBoxUsenetItem[], TorBoxWebItem[]]> => {
+        const api = await getAccountApi(account.id);
+        if (!api) return [[], [], []];
+        return Promise.all([api.getTorrents(), api.getUsenet(), api.getWebDownloads()]);
+      },
+      enabled,
+      refetchInterval: 120000,
+      staleTime: 60000,
+      refetchOnWindowFocus: false,
+    })),
+  });
+
+  const items = useMemo(() => {
+    const merged: LibraryItem[] = [...libraryItems];
+    otherAccounts.forEach((account, index) => {
+      const data = accountQueries[index]?.data;
+      if (!data) return;
+      // Ids are only unique within an account, so other accounts' items are namespaced.
+      merged.push(...buildLibraryItems(...data, classificationConfig).map(item => ({
+        ...item,
+        id: `${account.id}:${item.id}`,
+        accountId: account.id,
+      })));
+    });
+    return merged.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }, [libraryItems, otherAccounts, accountQueries, classificationConfig]);
+
+  const failedAccountIds = useMemo(
+    () => otherAccounts.filter((_, index) => accountQueries[index]?.isError).map(account => account.id),
+    [otherAccounts, accountQueries]
+  );
+
+  return {
+    items,
+    isLoading: accountQueries.some(query => query.isLoading),
+    isFetching: accountQueries.some(query => query.isFetching),
+    failedAccountIds,
+  };
+}
+
+export function useCachedAvailability(hashes: string[]) {
+  const normalized = useMemo(
+    () => Array.from(new Set(hashes.map(hash => hash.toLowerCase()))).sort(),
+    [hashes]
+  );
+
+  const query = useQuery({
+    queryKey: ['checkcached', normalized],
+    queryFn: () => torboxApi.checkCached(normalized),
+    enabled: normalized.length > 0,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    cachedByHash: query.data ?? null,
+    isChecking: query.isFetching,
+    checkError: query.error instanceof Error ? query.error.message : null,
+  };
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { torboxApi } from '@/services/torbox-api';
+import { LibraryItem } from '@/types/torbox';
+import { getAccountStorageKey } from '@/utils/accountStorage';
+import { probeMediaDuration } from '@/utils/mediaProbe';
+
+const DURATIONS_KEY = 'media_durations';
+// Each probe requests a stream link, so they run one at a time with a pause in between.
+const PROBE_INTERVAL_MS = 1000;
+
+// Durations in seconds by library item id; null marks a file whose headers could not be read.
+export function useMediaDurations(accountId: string | null) {
+  const [durations, setDurations] = useState<Record<string, number | null>>({});
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const storageKey = getAccountStorageKey(DURATIONS_KEY, accountId);
+  const storageKeyRef = useRef<string>(storageKey);
+  const durationsRef = useRef<Record<string, number | null>>({});
+  const queueRef = useRef<LibraryItem[]>([]);
+  const seenRef = useRef<Set<string>>(new Set());
+  const isRunningRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    storageKeyRef.current = storageKey;
+    queueRef.current = [];
+    seenRef.current = new Set();
+    durationsRef.current = {};
+    setDurations({});
+    setIsLoaded(false);
+    (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(storageKey);
+        if (cancelled) return;
+        durationsRef.current = stored ? JSON.parse(stored) : {};
+        setDurations(durationsRef.current);
+        console.log('[MediaDurations] Loaded', Object.keys(durationsRef.current).length, 'durations');
+      } catch (err) {
+        console.error('[MediaDurations] Load error:', err);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [storageKey]);
+
+  const runQueue = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    try {
+      while (queueRef.current.length > 0) {
+        const item = queueRef.current.shift()!;
+        const key = storageKeyRef.current;
+        let duration: number | null;
+        try {
+          const url = await torboxApi.getStreamLink(item.source, item.sourceId, item.fileId);
+          duration = await probeMediaDuration(url);
+        } catch (err) {
+          // Link failures are not cached, so the file is tried again next session.
+          console.warn('[MediaDurations] Link error:', item.fileName, err);
+          continue;
+        }
+        // The account changed while probing; the queue has already been reset.
+        if (key !== storageKeyRef.current) continue;
+        console.log('[MediaDurations] Probed', item.fileName, duration === null ? 'unreadable' : `${Math.round(duration)}s`);
+        durationsRef.current = { ...durationsRef.current, [item.id]: duration };
+        setDurations(durationsRef.current);
+        try {
+          await AsyncStorage.setItem(key, JSON.stringify(durationsRef.current));
+        } catch (err) {
+          console.error('[MediaDurations] Save error:', err);
+        }
+        await new Promise(resolve => setTimeout(resolve, PROBE_INTERVAL_MS));
+      }
+    } finally {
+      isRunningRef.current = false;
+    }
+  }, []);
+
+  const probeDurations = useCallback((items: LibraryItem[]) => {
+    if (!isLoaded) return;
+    const pending = items.filter(item => !(item.id in durationsRef.current) && !seenRef.current.has(item.id));
+    if (pending.length === 0) return;
+    for (const item of pending) seenRef.current.add(item.id);
+    queueRef.current.push(...pending);
+    console.log('[MediaDurations] Queued', pending.length, 'files for probing');
+    void runQueue();
+  }, [isLoaded, runQueue]);
+
+  return { durations, isLoaded, probeDurations };
+}
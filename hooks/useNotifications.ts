@@ -9,7 +9,7 @@ import { getAppNotifications } from '@/hooks/useAppNotifications';
 const DISMISSED_NOTIFICATIONS_KEY = '@tordeck_dismissed_notifications';
 
 export function useNotifications() {
-  const { isConnected } = useAuth();
+  const { isConnected, activeAccountId } = useAuth();
   const [dismissedIds, setDismissedIds] = useState<string[]>([]);
 
   useEffect(() => {
@@ -31,7 +31,7 @@ export function useNotifications() {
   }, []);
 
   const notificationsQuery = useQuery({
-    queryKey: ['notifications'],
+    queryKey: ['notifications', activeAccountId],
     queryFn: async () => {
       const [remote, local] = await Promise.all([
         isConnected ? torboxApi.getNotifications() : Promise.resolve([]),
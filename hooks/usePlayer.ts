@@ -15,6 +15,9 @@ import {
   isIosAvFoundationDecodeError,
   TRANSCODE_ENABLED,
 } from '@/services/mediaTranscode';
+import { useAuth } from '@/hooks/useAuth';
+import { getAccountStorageKey } from '@/utils/accountStorage';
+import { fetchRange, PROBE_WINDOW_BYTES } from '@/utils/mediaProbe';
 
 const PROGRESS_KEY_PREFIX = 'playback_progress_';
 const RECENTLY_PLAYED_KEY = 'recently_played_items';
@@ -22,19 +25,19 @@ const PLAYER_STATS_KEY = 'player_stats';
 const METADATA_CACHE_PREFIX = 'media_metadata_';
 const MAX_RECENT = 30;
 
-async function loadProgress(fileId: string): Promise<PlaybackProgress | null> {
+async function loadProgress(fileId: string, accountId: string | null): Promise<PlaybackProgress | null> {
   try {
-    const stored = await AsyncStorage.getItem(PROGRESS_KEY_PREFIX + fileId);
+    const stored = await AsyncStorage.getItem(getAccountStorageKey(PROGRESS_KEY_PREFIX + fileId, accountId));
     return stored ? JSON.parse(stored) : null;
   } catch {
     return null;
   }
 }
 
-async function saveProgress(progress: PlaybackProgress): Promise<void> {
+async function saveProgress(progress: PlaybackProgress, accountId: string | null): Promise<void> {
   try {
     await AsyncStorage.setItem(
-      PROGRESS_KEY_PREFIX + progress.fileId,
+      getAccountStorageKey(PROGRESS_KEY_PREFIX + progress.fileId, accountId),
       JSON.stringify(progress)
     );
   } catch (err) {
@@ -42,18 +45,18 @@ async function saveProgress(progress: PlaybackProgress): Promise<void> {
   }
 }
 
-async function loadRecentlyPlayed(): Promise<RecentlyPlayed[]> {
+async function loadRecentlyPlayed(accountId: string | null): Promise<RecentlyPlayed[]> {
   try {
-    const stored = await AsyncStorage.getItem(RECENTLY_PLAYED_KEY);
+    const stored = await AsyncStorage.getItem(getAccountStorageKey(RECENTLY_PLAYED_KEY, accountId));
     return stored ? JSON.parse(stored) : [];
   } catch {
     return [];
   }
 }
 
-async function addToRecentlyPlayed(item: LibraryItem, posMillis: number, durMillis: number): Promise<void> {
+async function addToRecentlyPlayed(item: LibraryItem, posMillis: number, durMillis: number, accountId: string | null): Promise<void> {
   try {
-    const recent = await loadRecentlyPlayed();
+    const recent = await loadRecentlyPlayed(accountId);
     const filtered = recent.filter(r => r.item.id !== item.id);
     filtered.unshift({
       item,
@@ -62,7 +65,7 @@ async function addToRecentlyPlayed(item: LibraryItem, posMillis: number, durMill
       durationMillis: durMillis,
     });
     const trimmed = filtered.slice(0, MAX_RECENT);
-    await AsyncStorage.setItem(RECENTLY_PLAYED_KEY, JSON.stringify(trimmed));
+    await AsyncStorage.setItem(getAccountStorageKey(RECENTLY_PLAYED_KEY, accountId), JSON.stringify(trimmed));
     console.log('[Player] Added to recently played:', item.fileName);
   } catch (err) {
     console.error('[Player] Failed to save recently played:', err);
@@ -136,33 +139,12 @@ interface ProbeResult {
 
 async function probeRemoteMedia(url: string): Promise<ProbeResult | null> {
   try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { Range: 'bytes=0-4095' },
-    });
-
-    const status = res.status;
-    const contentType = res.headers.get('content-type') || '';
-    const acceptRanges = res.headers.get('accept-ranges') || '';
-    const contentRange = res.headers.get('content-range') || '';
-    const contentLength = res.headers.get('content-length') || '';
-    const finalUrl = (res as unknown as { url?: string }).url || url;
-
-    let totalContentLength = 0;
-    const rangeMatch = contentRange.match(/bytes \d+-\d+\/(\d+)/);
-    if (rangeMatch) {
-      totalContentLength = parseInt(rangeMatch[1], 10);
-    }
+    const { status, contentType, acceptRanges, contentRange, contentLength, finalUrl, bytes, totalContentLength } = await fetchRange(url, 0, PROBE_WINDOW_BYTES - 1);
 
-    let firstBytesHex = '';
-    let firstBytes = new Uint8Array(0);
-    try {
-      const buf = await res.arrayBuffer();
-      firstBytes = new Uint8Array(buf).slice(0, 16);
-      firstBytesHex = Array.from(firstBytes)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join(' ');
-    } catch {}
+    const firstBytes = bytes.slice(0, 16);
+    const firstBytesHex = Array.from(firstBytes)
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join(' ');
 
     const ct = contentType.toLowerCase();
     const isBinaryMedia = !ct.includes('text/html') && !ct.includes('application/json') && status < 400;
@@ -303,16 +285,22 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
   const probeResultRef = useRef<ProbeResult | null>(null);
   const playLockRef = useRef<boolean>(false);
   const isPlayingRef = useRef<boolean>(false);
+  const { activeAccountId } = useAuth();
+  const accountIdRef = useRef<string | null>(activeAccountId);
 
   useEffect(() => {
     isPlayingRef.current = isPlaying;
   }, [isPlaying]);
 
   useEffect(() => {
-    loadRecentlyPlayed().then(items => {
+    accountIdRef.current = activeAccountId;
+    loadRecentlyPlayed(activeAccountId).then(items => {
       setRecentlyPlayed(items);
       console.log('[Player] Loaded recently played:', items.length);
     });
+  }, [activeAccountId]);
+
+  useEffect(() => {
     loadPlayerStats().then(stats => {
       setPlayerStats(stats);
       console.log('[Player] Loaded stats, total sessions:', stats.totalSessions);
@@ -320,10 +308,12 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
   }, []);
 
   const refreshRecentlyPlayed = useCallback(async () => {
-    const items = await loadRecentlyPlayed();
+    const items = await loadRecentlyPlayed(accountIdRef.current);
     setRecentlyPlayed(items);
   }, []);
 
+  const loadItemProgress = useCallback((fileId: string) => loadProgress(fileId, accountIdRef.current), []);
+
   const refreshStats = useCallback(async () => {
     const stats = await loadPlayerStats();
     setPlayerStats(stats);
@@ -414,7 +404,7 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
       isComplete,
       lastUpdated: new Date().toISOString(),
       trackIndex,
-    });
+    }, accountIdRef.current);
   }, [currentItem, trackIndex]);
 
   const trackIndexRef = useRef<number>(0);
@@ -817,7 +807,7 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
       const sound = await loadAudioWithRetry(streamUrl, currentItem, playbackRate, onPlaybackStatusUpdate);
       soundRef.current = sound;
 
-      const savedProgress = await loadProgress(currentItem.id);
+      const savedProgress = await loadProgress(currentItem.id, accountIdRef.current);
       if (savedProgress && savedProgress.positionMillis > 0 && !savedProgress.isComplete) {
         try {
           await sound.setPositionAsync(savedProgress.positionMillis);
@@ -948,7 +938,7 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
           return;
         }
 
-        if (isM4BType && !probe.hasFtyp) {
+        if (isM4BType && probe.firstBytesHex && !probe.hasFtyp) {
           console.warn('[Player][Probe] M4B/M4A file missing ftyp box in first 4KB. File may be encrypted, DRM, or not a valid MP4.');
         }
 
@@ -960,7 +950,7 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
       const sound = await loadAudioWithRetry(rawUrl, item, playbackRate, onPlaybackStatusUpdate);
       soundRef.current = sound;
 
-      const savedProgress = await loadProgress(item.id);
+      const savedProgress = await loadProgress(item.id, accountIdRef.current);
       if (savedProgress && savedProgress.positionMillis > 0 && !savedProgress.isComplete) {
         console.log('[Player] Resuming from:', savedProgress.positionMillis, 'ms');
         try {
@@ -978,8 +968,8 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
       await sound.playAsync();
       console.log('[Player] Playback started successfully');
 
-      addToRecentlyPlayed(item, 0, 0).then(() => {
-        loadRecentlyPlayed().then(recents => setRecentlyPlayed(recents));
+      addToRecentlyPlayed(item, 0, 0, accountIdRef.current).then(() => {
+        loadRecentlyPlayed(accountIdRef.current).then(recents => setRecentlyPlayed(recents));
       });
 
       saveIntervalRef.current = setInterval(() => {
@@ -1105,7 +1095,7 @@ export const [PlayerProvider, usePlayer] = createContextHook(() => {
     skipBackward,
     changeRate,
     stop,
-    loadProgress,
+    loadProgress: loadItemProgress,
     refreshRecentlyPlayed,
     refreshStats,
     requestTranscodeForCurrent,
@@ -7,12 +7,25 @@ const SETTINGS_KEY = 'app_settings';
 
 interface AppSettings {
   defaultTab: DefaultTab;
+  automationsPaused: boolean;
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
   defaultTab: '(library)',
+  automationsPaused: false,
 };
 
+// Used outside React (background tasks) where the provider is not mounted.
+export async function getStoredSettings(): Promise<AppSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (err) {
+    console.error('[Settings] Load error:', err);
+    return DEFAULT_SETTINGS;
+  }
+}
+
 export const [SettingsProvider, useSettings] = createContextHook(() => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isLoaded, setIsLoaded] = useState<boolean>(false);
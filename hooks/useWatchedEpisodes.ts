@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { useAuth } from '@/hooks/useAuth';
+import { getAccountStorageKey } from '@/utils/accountStorage';
+
+const WATCHED_EPISODES_KEY = 'watched_episodes';
+
+// Watched-at timestamps by episode key (see getEpisodeKey).
+export const [WatchedEpisodesProvider, useWatchedEpisodes] = createContextHook(() => {
+  const [watched, setWatched] = useState<Record<string, string>>({});
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const { activeAccountId } = useAuth();
+  const storageKey = getAccountStorageKey(WATCHED_EPISODES_KEY, activeAccountId);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+    (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(storageKey);
+        if (cancelled) return;
+        setWatched(stored ? JSON.parse(stored) : {});
+        console.log('[WatchedEpisodes] Loaded watched episodes');
+      } catch (err) {
+        console.error('[WatchedEpisodes] Load error:', err);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [storageKey]);
+
+  const persistWatched = useCallback(async (newWatched: Record<string, string>) => {
+    try {
+      await AsyncStorage.setItem(storageKey, JSON.stringify(newWatched));
+    } catch (err) {
+      console.error('[WatchedEpisodes] Save error:', err);
+    }
+  }, [storageKey]);
+
+  const setEpisodesWatched = useCallback(async (episodeKeys: string[], isWatched: boolean) => {
+    const updated = { ...watched };
+    const watchedAt = new Date().toISOString();
+    for (const key of episodeKeys) {
+      if (isWatched) {
+        updated[key] = updated[key] ?? watchedAt;
+      } else {
+        delete updated[key];
+      }
+    }
+    setWatched(updated);
+    await persistWatched(updated);
+    console.log('[WatchedEpisodes] Marked', episodeKeys.length, isWatched ? 'watched' : 'unwatched');
+  }, [watched, persistWatched]);
+
+  const isEpisodeWatched = useCallback((episodeKey: string) => !!watched[episodeKey], [watched]);
+
+  return {
+    watched,
+    isLoaded,
+    setEpisodesWatched,
+    isEpisodeWatched,
+  };
+});
@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+// Standalone mock TorBox API: `npm run mock-server -- --port 8787 --advance-on-poll`.
+import { MOCK_TORBOX_TOKEN, startMockTorBoxServer } from './torboxServer';
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const port = Number(readOption('--port') ?? 8787);
+  if (!Number.isInteger(port) || port < 0) throw new Error('--port must be a number.');
+  const token = readOption('--token') ?? MOCK_TORBOX_TOKEN;
+  const server = await startMockTorBoxServer({ port, token, advanceOnPoll: process.argv.includes('--advance-on-poll') });
+  console.log(`[MockTorBox] Listening on ${server.baseUrl} (token "${token}")`);
+  console.log(`[MockTorBox] App:  EXPO_PUBLIC_TORBOX_API_URL=${server.baseUrl} npm start`);
+  console.log(`[MockTorBox] CLI:  node dist/cli/cli/tordeck-rules.js run --config rules.json --token ${token} --api-url ${server.baseUrl}`);
+
+  const stop = () => {
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch(err => {
+  console.error(`[MockTorBox] ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+});
@@ -0,0 +1,378 @@
+// In-process stand-in for the TorBox API, for offline development and tests. Node only (uses `http`);
+// point TorBoxAPI at `server.baseUrl`, or run `npm run mock-server` and set EXPO_PUBLIC_TORBOX_API_URL.
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { DownloadSource, TorBoxFile, TorBoxItem, TorBoxUsenetItem, TorBoxUser, TorBoxWebItem } from '../types/torbox';
+
+export const MOCK_TORBOX_TOKEN = 'mock-token';
+const API_PREFIX = '/v1/api';
+const DEFAULT_MEDIA_BYTES = 256 * 1024;
+
+export interface MockNotification {
+  id: number;
+  title: string;
+  message: string;
+  created_at: string;
+  read?: boolean;
+}
+
+export interface MockTorBoxState {
+  user: TorBoxUser;
+  torrents: TorBoxItem[];
+  usenet: TorBoxUsenetItem[];
+  web: TorBoxWebItem[];
+  notifications: MockNotification[];
+}
+
+/**
+ * `status` answers with that HTTP status (429 also sends Retry-After); `malformed` answers 200 with
+ * invalid JSON, a payload of the wrong shape, or `success: false`; `delayMs` stalls before answering.
+ */
+export type MockFault =
+  | { status: number; body?: string }
+  | { malformed: 'invalid_json' | 'wrong_shape' | 'success_false' }
+  | { delayMs: number };
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  at: number;
+}
+
+export interface MockTorBoxServerOptions {
+  port?: number;
+  token?: string;
+  state?: Partial<MockTorBoxState>;
+  /** Advance the simulation one step every time a mylist endpoint is polled, so a running app sees progress. */
+  advanceOnPoll?: boolean;
+  /** Simulated seconds per step; downloading items gain `download_speed * stepSeconds` bytes each step. */
+  stepSeconds?: number;
+}
+
+type Transition = (state: MockTorBoxState) => void;
+
+interface FaultRule {
+  route: string | RegExp;
+  fault: MockFault;
+  remaining: number;
+}
+
+const SOURCE_LISTS: Record<DownloadSource, 'torrents' | 'usenet' | 'web'> = { torrent: 'torrents', usenet: 'usenet', web: 'web' };
+
+const createMockFiles = (id: number, name: string, size: number): TorBoxFile[] => [
+  { id: 1, md5: `md5-${id}`, s3_path: `${name}/${name}.mp4`, name: `${name}/${name}.mp4`, size, mimetype: 'video/mp4', short_name: `${name}.mp4` },
+];
+
+export function createMockTorrent(overrides: Partial<TorBoxItem> & Pick<TorBoxItem, 'id' | 'name'>): TorBoxItem {
+  const now = new Date().toISOString();
+  const size = overrides.size ?? 1_000_000_000;
+  return {
+    hash: `hash${overrides.id}`, size, active: true, created_at: now, updated_at: now, download_state: 'downloading', seeds: 10, peers: 5, ratio: 0, progress: 0, download_speed: 5_000_000, upload_speed: 0, eta: 200,
+    files: createMockFiles(overrides.id, overrides.name, size), download_path: null, availability: 1, download_finished: false, tracker: 'udp://tracker.mock:1337', total_uploaded: 0, total_downloaded: 0, cached: false, owner: 'mock',
+    seed_torrent: false, allow_zipped: true, long_term_seeding: false, tracker_message: null, inactive_check: 0, download_present: false, server: 1, torrent_file: false, expires_at: null,
+    ...overrides,
+  };
+}
+
+export function createMockUsenet(overrides: Partial<TorBoxUsenetItem> & Pick<TorBoxUsenetItem, 'id' | 'name'>): TorBoxUsenetItem {
+  const now = new Date().toISOString();
+  const size = overrides.size ?? 500_000_000;
+  return {
+    hash: `nzb${overrides.id}`, size, active: true, created_at: now, updated_at: now, download_state: 'downloading', progress: 0, download_speed: 5_000_000, eta: 100,
+    files: createMockFiles(overrides.id, overrides.name, size), download_path: null, download_finished: false, cached: false, owner: 'mock', download_present: false, server: 1, expires_at: null, auth_id: 'mock',
+    ...overrides,
+  };
+}
+
+export function createMockWebDownload(overrides: Partial<TorBoxWebItem> & Pick<TorBoxWebItem, 'id' | 'name'>): TorBoxWebItem {
+  const now = new Date().toISOString();
+  const size = overrides.size ?? 200_000_000;
+  return {
+    webdownload_id: overrides.id, hash: `web${overrides.id}`, size, active: true, created_at: now, updated_at: now, download_state: 'downloading', progress: 0, download_speed: 5_000_000, eta: 40,
+    files: createMockFiles(overrides.id, overrides.name, size), download_path: null, download_finished: false, cached: false, owner: 'mock', download_present: false, server: 1, expires_at: null,
+    ...overrides,
+  };
+}
+
+export const createMockUser = (overrides: Partial<TorBoxUser> = {}): TorBoxUser => ({
+  id: 1, email: 'mock@tordeck.local', plan: 2, total_downloaded: 0, total_downloaded_bytes: 0, customer: 'mock', server: 1, is_subscribed: true,
+  premium_expires_at: new Date(Date.now() + 30 * 86_400_000).toISOString(), cooldown_until: new Date(0).toISOString(), auth_id: 'mock', user_referral: 'mock', base_email: 'mock@tordeck.local',
+  ...overrides,
+});
+
+// A small, varied library: one finished torrent, one in progress, a paused usenet job and a web download.
+export const createDefaultMockState = (): MockTorBoxState => ({
+  user: createMockUser(),
+  torrents: [
+    createMockTorrent({ id: 1, name: 'Big.Buck.Bunny.2008.1080p', progress: 1, download_state: 'completed', download_finished: true, download_present: true, download_speed: 0, eta: 0, cached: true }),
+    createMockTorrent({ id: 2, name: 'Sintel.2010.720p', progress: 0.25, size: 800_000_000 }),
+  ],
+  usenet: [createMockUsenet({ id: 10, name: 'Tears.of.Steel.2012', progress: 0.5, download_state: 'paused', download_speed: 0 })],
+  web: [createMockWebDownload({ id: 20, name: 'Elephants.Dream.2006', progress: 0.1 })],
+  notifications: [{ id: 1, title: 'Welcome', message: 'This account is served by the TorDeck mock server.', created_at: new Date().toISOString() }],
+});
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class MockTorBoxServer {
+  state: MockTorBoxState;
+  readonly requests: MockRequest[] = [];
+  private server: Server | null = null;
+  private readonly token: string;
+  private readonly port: number;
+  private readonly advanceOnPoll: boolean;
+  private readonly stepSeconds: number;
+  private faults: FaultRule[] = [];
+  private transitions: Transition[][] = [];
+  private nextId = 1000;
+  private url = '';
+
+  constructor(options: MockTorBoxServerOptions = {}) {
+    this.state = { ...createDefaultMockState(), ...clone(options.state ?? {}) };
+    this.token = options.token ?? MOCK_TORBOX_TOKEN;
+    this.port = options.port ?? 0;
+    this.advanceOnPoll = options.advanceOnPoll ?? false;
+    this.stepSeconds = options.stepSeconds ?? 30;
+  }
+
+  /** Base URL to hand to TorBoxAPI, e.g. http://127.0.0.1:54321/v1/api. */
+  get baseUrl(): string {
+    if (!this.url) throw new Error('Mock TorBox server is not running.');
+    return `${this.url}${API_PREFIX}`;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) return this.baseUrl;
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        console.error('[MockTorBox] Handler failed:', err);
+        this.send(res, 500, { success: false, detail: 'Mock server error', data: null });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    this.url = '';
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /** Makes the next `times` requests whose path matches `route` (e.g. '/torrents/mylist') fail with `fault`. */
+  injectFault(route: string | RegExp, fault: MockFault, times: number = 1): void {
+    this.faults.push({ route, fault, remaining: times });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /** Queues a state change to apply after `steps` more calls to `advance()` (1 = on the next step). */
+  scheduleTransition(transition: Transition, steps: number = 1): void {
+    const index = Math.max(0, steps - 1);
+    (this.transitions[index] ??= []).push(transition);
+  }
+
+  /** Moves simulated time forward: downloading items gain progress and finish, then scheduled transitions run. */
+  advance(steps: number = 1): void {
+    for (let i = 0; i < steps; i++) {
+      const now = new Date().toISOString();
+      for (const item of [...this.state.torrents, ...this.state.usenet, ...this.state.web]) {
+        if (item.download_state !== 'downloading' || item.download_finished) continue;
+        item.progress = Math.min(1, item.progress + (item.download_speed * this.stepSeconds) / Math.max(1, item.size));
+        item.updated_at = now;
+        item.eta = item.download_speed > 0 ? Math.round(((1 - item.progress) * item.size) / item.download_speed) : 0;
+        if (item.progress >= 1) Object.assign(item, { download_state: 'completed', download_finished: true, download_present: true, download_speed: 0, eta: 0 });
+      }
+      for (const transition of this.transitions.shift() ?? []) transition(this.state);
+    }
+  }
+
+  reset(state?: Partial<MockTorBoxState>): void {
+    this.state = { ...createDefaultMockState(), ...clone(state ?? {}) };
+    this.requests.length = 0;
+    this.faults = [];
+    this.transitions = [];
+  }
+
+  private send(res: ServerResponse, status: number, payload: unknown, raw?: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    res.end(raw ?? JSON.stringify(payload));
+  }
+
+  private takeFault(path: string): MockFault | null {
+    const rule = this.faults.find(f => (typeof f.route === 'string' ? path === f.route || path.startsWith(`${f.route}?`) : f.route.test(path)));
+    if (!rule) return null;
+    if (--rule.remaining <= 0) this.faults = this.faults.filter(f => f !== rule);
+    return rule.fault;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    if (!chunks.length) return null;
+    const buffer = Buffer.concat(chunks);
+    const type = req.headers['content-type'] ?? '';
+    if (type.includes('multipart/form-data')) {
+      // Fields keep their text value; uploaded files are reduced to their file name.
+      const fields: Record<string, string> = {};
+      for (const match of buffer.toString('latin1').matchAll(/name="([^"]+)"(?:; filename="([^"]*)")?\r\n(?:[^\r\n]+\r\n)*\r\n([\s\S]*?)\r\n--/g)) {
+        fields[match[1]] = match[2] ?? match[3];
+      }
+      return fields;
+    }
+    try {
+      return JSON.parse(buffer.toString('utf8'));
+    } catch {
+      return buffer.toString('utf8');
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.url || 'http://127.0.0.1');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Authorization, Content-Type, Range', 'Access-Control-Allow-Methods': 'GET, POST, OPTIONS' });
+      res.end();
+      return;
+    }
+    if (url.pathname.startsWith('/files/')) {
+      this.serveMedia(req, res);
+      return;
+    }
+
+    const path = url.pathname.startsWith(API_PREFIX) ? url.pathname.slice(API_PREFIX.length) : url.pathname;
+    const query = Object.fromEntries(url.searchParams.entries());
+    const body = await this.readBody(req);
+    this.requests.push({ method: req.method ?? 'GET', path, query, body, at: Date.now() });
+
+    const auth = req.headers.authorization;
+    if (auth !== `Bearer ${this.token}` && query.token !== this.token) {
+      this.send(res, 401, { success: false, detail: 'Invalid API token', error: 'BAD_TOKEN', data: null });
+      return;
+    }
+
+    const fault = this.takeFault(`${path}${url.search}`);
+    if (fault && 'delayMs' in fault) await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+    if (fault && 'status' in fault) {
+      if (fault.status === 429) res.setHeader('Retry-After', '1');
+      this.send(res, fault.status, null, fault.body ?? JSON.stringify({ success: false, detail: `Injected ${fault.status}`, data: null }));
+      return;
+    }
+    if (fault && 'malformed' in fault) {
+      if (fault.malformed === 'invalid_json') this.send(res, 200, null, '{"success": true, "data": [');
+      else if (fault.malformed === 'wrong_shape') this.send(res, 200, { success: true, detail: '', data: { unexpected: true } });
+      else this.send(res, 200, { success: false, detail: 'Injected failure', data: null });
+      return;
+    }
+
+    if (path.endsWith('/mylist') && this.advanceOnPoll) this.advance();
+    const ok = (data: unknown) => this.send(res, 200, { success: true, detail: '', data });
+    const fail = (status: number, detail: string) => this.send(res, status, { success: false, detail, data: null });
+    const params = { ...query, ...(body && typeof body === 'object' ? body as Record<string, string> : {}) };
+
+    switch (path) {
+      case '/user/me': return ok(this.state.user);
+      case '/torrents/mylist': return ok(this.state.torrents);
+      case '/usenet/mylist': return ok(this.state.usenet);
+      case '/webdl/mylist': return ok(this.state.web);
+      case '/notifications/mylist': return ok(this.state.notifications);
+      case '/torrents/checkcached': return ok(Object.fromEntries((query.hash ?? '').split(',').filter(hash => this.state.torrents.some(t => t.hash === hash && t.cached)).map(hash => [hash, { hash }])));
+      case '/torrents/controltorrent': return this.control('torrent', Number(params.torrent_id), params.operation, ok, fail);
+      case '/usenet/controlusenetdownload': return this.control('usenet', Number(params.usenet_id), params.operation, ok, fail);
+      case '/webdl/controlwebdownload': return this.control('web', Number(params.webdl_id), params.operation, ok, fail);
+      case '/torrents/requestdl': return this.requestLink('torrent', Number(query.torrent_id), Number(query.file_id), ok, fail);
+      case '/usenet/requestdl': return this.requestLink('usenet', Number(query.usenet_id), Number(query.file_id), ok, fail);
+      case '/webdl/requestdl': return this.requestLink('web', Number(query.webdownload_id ?? query.web_id), Number(query.file_id), ok, fail);
+      case '/torrents/createtorrent': {
+        const name = String(params.magnet ?? params.file ?? 'New torrent').replace(/^magnet:.*?dn=([^&]+).*$/, (_, dn: string) => decodeURIComponent(dn));
+        const item = createMockTorrent({ id: this.nextId++, name });
+        this.state.torrents.push(item);
+        return ok({ torrent_id: item.id, hash: item.hash });
+      }
+      case '/usenet/createusenetdownload': {
+        const item = createMockUsenet({ id: this.nextId++, name: String(params.file ?? params.link ?? 'New usenet download'), original_url: params.link ?? null });
+        this.state.usenet.push(item);
+        return ok({ usenetdownload_id: item.id, hash: item.hash });
+      }
+      case '/webdl/createwebdownload': {
+        const item = createMockWebDownload({ id: this.nextId++, name: String(params.link ?? 'New web download').split('/').pop() || 'download', original_url: params.link ?? null });
+        this.state.web.push(item);
+        return ok({ webdownload_id: item.id, hash: item.hash });
+      }
+      default: return fail(404, `Unknown endpoint ${path}`);
+    }
+  }
+
+  private findItem(source: DownloadSource, id: number): TorBoxItem | TorBoxUsenetItem | TorBoxWebItem | undefined {
+    const list: (TorBoxItem | TorBoxUsenetItem | TorBoxWebItem)[] = this.state[SOURCE_LISTS[source]];
+    return list.find(item => item.id === id || (source === 'web' && (item as TorBoxWebItem).webdownload_id === id));
+  }
+
+  private control(source: DownloadSource, id: number, operation: string | undefined, ok: (data: unknown) => void, fail: (status: number, detail: string) => void): void {
+    const item = this.findItem(source, id);
+    if (!item) return fail(404, `No ${source} item ${id}`);
+    switch (operation) {
+      case 'delete':
+        if (source === 'torrent') this.state.torrents = this.state.torrents.filter(entry => entry !== item);
+        if (source === 'usenet') this.state.usenet = this.state.usenet.filter(entry => entry !== item);
+        if (source === 'web') this.state.web = this.state.web.filter(entry => entry !== item);
+        return ok(null);
+      case 'pause':
+        if (!item.download_finished) Object.assign(item, { download_state: 'paused', download_speed: 0, updated_at: new Date().toISOString() });
+        return ok(null);
+      case 'resume':
+        if (!item.download_finished) Object.assign(item, { download_state: 'downloading', download_speed: 5_000_000, updated_at: new Date().toISOString() });
+        return ok(null);
+      case 'reannounce':
+        return source === 'torrent' ? ok(null) : fail(400, 'Only torrents can be reannounced');
+      default:
+        return fail(400, `Unknown operation "${operation}"`);
+    }
+  }
+
+  private requestLink(source: DownloadSource, id: number, fileId: number, ok: (data: unknown) => void, fail: (status: number, detail: string) => void): void {
+    const item = this.findItem(source, id);
+    if (!item) return fail(404, `No ${source} item ${id}`);
+    if (!item.download_finished) return fail(400, 'Download is not finished yet');
+    if (!item.files.some(file => file.id === fileId)) return fail(404, `No file ${fileId}`);
+    ok(`${this.url}/files/${source}/${id}/${fileId}`);
+  }
+
+  // Links resolve to a silent byte stream with Range support, enough for players to open and seek.
+  private serveMedia(req: IncomingMessage, res: ServerResponse): void {
+    const total = DEFAULT_MEDIA_BYTES;
+    const match = /bytes=(\d*)-(\d*)/.exec(req.headers.range ?? '');
+    const start = match?.[1] ? Number(match[1]) : 0;
+    const end = match?.[2] ? Math.min(Number(match[2]), total - 1) : total - 1;
+    if (start > end) {
+      res.writeHead(416, { 'Content-Range': `bytes */${total}` });
+      res.end();
+      return;
+    }
+    res.writeHead(match ? 206 : 200, {
+      'Content-Type': 'video/mp4',
+      'Content-Length': end - start + 1,
+      'Accept-Ranges': 'bytes',
+      'Access-Control-Allow-Origin': '*',
+      ...(match ? { 'Content-Range': `bytes ${start}-${end}/${total}` } : {}),
+    });
+    res.end(req.method === 'HEAD' ? undefined : Buffer.alloc(end - start + 1));
+  }
+}
+
+export async function startMockTorBoxServer(options: MockTorBoxServerOptions = {}): Promise<MockTorBoxServer> {
+  const server = new MockTorBoxServer(options);
+  await server.start();
+  return server;
+}
@@ -0,0 +1,79 @@
+import { AppState, Platform } from 'react-native';
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import * as Notifications from 'expo-notifications';
+import { torboxApi } from '@/services/torbox-api';
+import type { AutomationNotifier } from '@/core/automation';
+import { loadAutomationState, notifyInApp, runAppAutomationTick, saveAutomationTickResult } from '@/services/automationEngine';
+import { getActiveAccountSession } from '@/hooks/useAuth';
+import { getStoredSettings } from '@/hooks/useSettings';
+
+export const AUTOMATION_TASK_NAME = 'tordeck-automation-rules';
+// A floor, not a schedule: iOS and Android decide when the task actually runs.
+const BACKGROUND_INTERVAL_MINUTES = 15;
+
+export const isBackgroundAutomationSupported = Platform.OS === 'ios' || Platform.OS === 'android';
+
+const notifyWithSystemNotification: AutomationNotifier = async (title, message) => {
+  await notifyInApp(title, message);
+  try {
+    await Notifications.scheduleNotificationAsync({ content: { title, body: message }, trigger: null });
+  } catch (err) {
+    console.warn('[AutomationTask] Failed to post system notification:', err);
+  }
+};
+
+export async function runBackgroundAutomations(): Promise<void> {
+  // While the app is open the provider's timer evaluates rules and owns the in-memory state.
+  if (AppState.currentState === 'active') return;
+  const settings = await getStoredSettings();
+  if (settings.automationsPaused) return;
+  const session = await getActiveAccountSession();
+  if (!session) return;
+  if (torboxApi.getToken() !== session.token) torboxApi.setToken(session.token);
+
+  const state = await loadAutomationState(session.accountId);
+  const outcome = await runAppAutomationTick(() => state, { trigger: 'background', accountId: session.accountId, notify: notifyWithSystemNotification });
+  if (!outcome) return;
+  await saveAutomationTickResult(session.accountId, outcome);
+  console.log(`[AutomationTask] Background run evaluated ${Object.keys(outcome.results).length} rule(s)`);
+}
+
+// Task definitions must run at module load so a cold headless start can find them.
+if (isBackgroundAutomationSupported) {
+  TaskManager.defineTask(AUTOMATION_TASK_NAME, async () => {
+    try {
+      await runBackgroundAutomations();
+      return BackgroundTask.BackgroundTaskResult.Success;
+    } catch (err) {
+      console.error('[AutomationTask] Background run failed:', err);
+      return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+  });
+}
+
+export async function syncBackgroundAutomations(enabled: boolean): Promise<void> {
+  if (!isBackgroundAutomationSupported) return;
+  try {
+    const registered = await TaskManager.isTaskRegisteredAsync(AUTOMATION_TASK_NAME);
+    if (!enabled) {
+      if (registered) {
+        await BackgroundTask.unregisterTaskAsync(AUTOMATION_TASK_NAME);
+        console.log('[AutomationTask] Unregistered background task');
+      }
+      return;
+    }
+    if (await BackgroundTask.getStatusAsync() === BackgroundTask.BackgroundTaskStatus.Restricted) {
+      console.warn('[AutomationTask] Background tasks are restricted on this device');
+      return;
+    }
+    if (!registered) {
+      await BackgroundTask.registerTaskAsync(AUTOMATION_TASK_NAME, { minimumInterval: BACKGROUND_INTERVAL_MINUTES });
+      console.log('[AutomationTask] Registered background task');
+    }
+    // Only prompts the first time; background runs report through system notifications.
+    await Notifications.requestPermissionsAsync();
+  } catch (err) {
+    console.warn('[AutomationTask] Failed to update background task:', err);
+  }
+}
@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TorBoxRule } from '@/types/torbox';
+import {
+  AutomationLedger,
+  AutomationNotifier,
+  AutomationRuntime,
+  AutomationState,
+  AutomationTickOptions,
+  AutomationTickResult,
+  RulePreview,
+  SUPPORTED_ACTION_SET,
+  buildRulePreview,
+  getRuleActionSteps,
+  runAutomationTick,
+} from '@/core/automation';
+import { torboxApi } from '@/services/torbox-api';
+import { appendAppNotification } from '@/hooks/useAppNotifications';
+import { addItemTag } from '@/hooks/useItemTags';
+import { getAccountStorageKey } from '@/utils/accountStorage';
+
+const RULES_STORAGE_KEY = 'torbox_automation_rules';
+const SNAPSHOT_STORAGE_KEY = 'torbox_automation_snapshot';
+const LEDGER_STORAGE_KEY = 'torbox_automation_ledger';
+const METRICS_STORAGE_KEY = 'torbox_automation_metrics';
+const PENDING_DELETIONS_STORAGE_KEY = 'torbox_automation_pending_deletions';
+
+export interface AppAutomationTickOptions extends Omit<AutomationTickOptions, 'runtime'> {
+  accountId: string | null;
+  notify?: AutomationNotifier;
+}
+
+export const notifyInApp: AutomationNotifier = async (title, message) => {
+  await appendAppNotification({ title, message });
+};
+
+export const createAppRuntime = (accountId: string | null, notify: AutomationNotifier = notifyInApp): AutomationRuntime => ({
+  api: torboxApi,
+  notify,
+  addTag: (source, sourceId, tag) => addItemTag(accountId, source, sourceId, tag),
+});
+
+export const getAutomationStorageKeys = (accountId: string | null) => ({
+  rules: getAccountStorageKey(RULES_STORAGE_KEY, accountId),
+  snapshot: getAccountStorageKey(SNAPSHOT_STORAGE_KEY, accountId),
+  ledger: getAccountStorageKey(LEDGER_STORAGE_KEY, accountId),
+  metrics: getAccountStorageKey(METRICS_STORAGE_KEY, accountId),
+  pendingDeletions: getAccountStorageKey(PENDING_DELETIONS_STORAGE_KEY, accountId),
+});
+
+export async function loadAutomationState(accountId: string | null): Promise<AutomationState> {
+  const keys = getAutomationStorageKeys(accountId);
+  const [stored, storedSnapshot, storedLedger, storedMetrics, storedPending] = await Promise.all([AsyncStorage.getItem(keys.rules), AsyncStorage.getItem(keys.snapshot), AsyncStorage.getItem(keys.ledger), AsyncStorage.getItem(keys.metrics), AsyncStorage.getItem(keys.pendingDeletions)]);
+  const parsed: TorBoxRule[] = stored ? JSON.parse(stored) : [];
+  const parsedLedger: Partial<AutomationLedger> = storedLedger ? JSON.parse(storedLedger) : {};
+  return {
+    rules: parsed.filter(rule => getRuleActionSteps(rule).every(step => SUPPORTED_ACTION_SET.has(step.action))),
+    snapshot: storedSnapshot ? JSON.parse(storedSnapshot) : null,
+    ledger: { acted: parsedLedger.acted ?? {}, entries: parsedLedger.entries ?? [] },
+    metrics: storedMetrics ? JSON.parse(storedMetrics) : {},
+    pendingDeletions: storedPending ? JSON.parse(storedPending) : [],
+  };
+}
+
+/** Runs the shared engine against the active account; snapshot and metrics are saved here, the rest by the caller. */
+export async function runAppAutomationTick(getState: () => AutomationState, options: AppAutomationTickOptions): Promise<AutomationTickResult | null> {
+  const { accountId, notify, ...tickOptions } = options;
+  const result = await runAutomationTick(getState, { ...tickOptions, runtime: createAppRuntime(accountId, notify) });
+  if (!result) return null;
+  const keys = getAutomationStorageKeys(accountId);
+  const writes: [string, string][] = [[keys.metrics, JSON.stringify(result.metrics)]];
+  if (result.snapshot) writes.push([keys.snapshot, JSON.stringify(result.snapshot)]);
+  AsyncStorage.multiSet(writes).catch(err => console.error('[Automations] Snapshot save error:', err));
+  return result;
+}
+
+export function buildAppRulePreview(rule: TorBoxRule, state: Pick<AutomationState, 'ledger' | 'metrics'>): Promise<RulePreview> {
+  return buildRulePreview(rule, state, torboxApi);
+}
+
+export async function saveAutomationTickResult(accountId: string | null, result: AutomationTickResult): Promise<void> {
+  const keys = getAutomationStorageKeys(accountId);
+  const writes: [string, string][] = [];
+  if (result.rules) writes.push([keys.rules, JSON.stringify(result.rules)]);
+  if (result.ledger) writes.push([keys.ledger, JSON.stringify(result.ledger)]);
+  if (result.pendingDeletions) writes.push([keys.pendingDeletions, JSON.stringify(result.pendingDeletions)]);
+  if (writes.length) await AsyncStorage.multiSet(writes);
+}
@@ -1,9 +1,13 @@
 export type MediaCategory =
   | 'audiobook'
+  | 'podcast'
   | 'music'
-  | 'video'
+  | 'movie'
+  | 'tv'
   | 'ebook'
+  | 'comics'
   | 'games'
+  | 'software'
   | 'other';
 
 export type DownloadSource = 'torrent' | 'usenet' | 'web';
@@ -87,6 +91,7 @@ export interface TorBoxUsenetItem {
   server: number;
   expires_at: string | null;
   auth_id: string;
+  original_url?: string | null;
 }
 
 export interface TorBoxWebItem {
@@ -111,6 +116,31 @@ export interface TorBoxWebItem {
   download_present: boolean;
   server: number;
   expires_at: string | null;
+  original_url?: string | null;
+}
+
+export interface TorBoxAccount {
+  id: string;
+  label: string;
+  email: string | null;
+  addedAt: string;
+}
+
+export type ReleaseResolution = '2160p' | '1080p' | '720p' | '576p' | '480p';
+export type ReleaseCodec = 'HEVC' | 'AVC' | 'AV1' | 'VP9' | 'XviD';
+
+// Tags parsed from a scene-style release name such as `Some.Show.S02E05.1080p.WEB-DL.x265-GRP`.
+export interface ReleaseInfo {
+  title: string;
+  year?: number;
+  season?: number;
+  episode?: number;
+  resolution?: ReleaseResolution;
+  source?: string;
+  codec?: ReleaseCodec;
+  audio?: string;
+  group?: string;
+  language?: string;
 }
 
 export interface LibraryItem {
@@ -128,6 +158,8 @@ export interface LibraryItem {
   s3Path: string;
   createdAt: string;
   isComplete: boolean;
+  release: ReleaseInfo;
+  accountId?: string;
 }
 
 export interface ActiveDownload {
@@ -194,11 +226,24 @@ export interface DownloadLinkResponse {
   data: string;
 }
 
+export interface ClassificationExtensionRule {
+  extension: string;
+  category: MediaCategory;
+}
+
+export interface ClassificationNameRule {
+  pattern: string;
+  category: MediaCategory;
+}
+
 export interface ClassificationConfig {
   audiobookMinFileSizeMB: number;
   audiobookMinDurationMinutes: number;
   audiobookMultiTrackMinSizeMB: number;
   audiobookKeywords: string[];
+  // Checked before the built-in rules; name rules win over extension rules.
+  extensionRules: ClassificationExtensionRule[];
+  nameRules: ClassificationNameRule[];
 }
 
 export interface AppStats {
@@ -227,6 +272,32 @@ export interface AudiobookGroup {
   isComplete: boolean;
 }
 
+// One episode of a show; `files` holds every copy in the library, across downloads and sources, best first.
+export interface ShowEpisode {
+  key: string;
+  season: number;
+  episode: number;
+  files: LibraryItem[];
+}
+
+export interface ShowSeason {
+  season: number;
+  episodes: ShowEpisode[];
+  totalSize: number;
+}
+
+export interface ShowGroup {
+  id: string;
+  title: string;
+  year?: number;
+  seasons: ShowSeason[];
+  extras: LibraryItem[];
+  episodeCount: number;
+  totalSize: number;
+  downloadCount: number;
+  createdAt: string;
+}
+
 export interface RecentlyPlayed {
   item: LibraryItem;
   playedAt: string;
@@ -236,7 +307,15 @@ export interface RecentlyPlayed {
 
 export type DefaultTab = '(library)' | 'downloads' | 'stats' | 'settings' | 'automations';
 
-export type AddContentType = 'magnet' | 'hash' | 'web' | 'nzb';
+export type AddContentType = 'magnet' | 'hash' | 'web' | 'nzb' | 'torrent_file' | 'nzb_file';
+
+export interface ContentUploadFile {
+  uri: string;
+  name: string;
+  mimeType: string | null;
+  size: number | null;
+  webFile?: File;
+}
 
 export interface PlayerSession {
   itemId: string;
@@ -321,7 +400,12 @@ export type TorBoxRuleOperator =
   | 'less_than'
   | 'greater_than_or_equal'
   | 'less_than_or_equal'
-  | 'contains';
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches_regex'
+  | 'in_list';
 
 export type TorBoxRuleAction =
   | 'delete_download'
@@ -330,7 +414,23 @@ export type TorBoxRuleAction =
   | 'reannounce_torrent'
   | 'request_download_link'
   | 'create_stream'
-  | 'notify_user';
+  | 'notify_user'
+  | 'call_webhook'
+  | 'add_tag';
+
+export interface TorBoxRuleActionStep {
+  action: TorBoxRuleAction;
+  actionValue?: string;
+  onFailure: 'stop' | 'continue';
+}
+
+export interface TorBoxRuleStepResult {
+  action: TorBoxRuleAction;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  halted: number;
+}
 
 export interface TorBoxRuleCondition {
   field: TorBoxRuleConditionField;
@@ -338,25 +438,85 @@ export interface TorBoxRuleCondition {
   value: string;
 }
 
+export interface TorBoxRuleConditionLeaf extends TorBoxRuleCondition {
+  kind: 'condition';
+  negate?: boolean;
+}
+
+export interface TorBoxRuleConditionGroup {
+  kind: 'group';
+  logic: 'and' | 'or';
+  negate?: boolean;
+  children: TorBoxRuleConditionNode[];
+}
+
+export type TorBoxRuleConditionNode = TorBoxRuleConditionLeaf | TorBoxRuleConditionGroup;
+
 export type TorBoxRuleScope = 'all' | 'torrent' | 'usenet' | 'web';
 
+export type TorBoxRuleTrigger = 'interval' | 'status_changed' | 'first_seen' | 'progress_crossed';
+
+export interface TorBoxRuleSchedule {
+  kind: 'window' | 'cron';
+  days?: number[];
+  start?: string;
+  end?: string;
+  cron?: string;
+  timezone?: string;
+}
+
 export interface TorBoxRule {
   id: string;
   name: string;
   enabled: boolean;
   checkIntervalMinutes: number;
   conditions: TorBoxRuleCondition[];
+  conditionTree?: TorBoxRuleConditionGroup;
   action: TorBoxRuleAction;
   actionValue?: string;
+  actionSteps?: TorBoxRuleActionStep[];
   scope?: TorBoxRuleScope;
+  trigger?: TorBoxRuleTrigger;
+  triggerValue?: string;
+  schedule?: TorBoxRuleSchedule;
+  maxItemsPerRun?: number;
+  maxItemsPerDay?: number;
+  undoWindowMinutes?: number;
+  itemsToday?: { day: string; count: number };
   isDangerous?: boolean;
   isCustom?: boolean;
   lastRunAt: string | null;
   lastResult: string | null;
+  lastStepResults?: TorBoxRuleStepResult[];
   runCount: number;
   createdAt: string;
 }
 
+export interface TorBoxRuleExecution {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  action: TorBoxRuleAction;
+  source: DownloadSource;
+  sourceId: number;
+  itemName: string;
+  executedAt: string;
+  outcome: 'success' | 'failed' | 'queued' | 'undone';
+  message: string | null;
+}
+
+// Deletions from dangerous rules wait here until `executeAt` so they can still be undone.
+export interface TorBoxPendingDeletion {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  source: DownloadSource;
+  sourceId: number;
+  itemName: string;
+  queuedAt: string;
+  executeAt: string;
+}
+
 export type TorBoxRulePresetId =
   | 'pause_stalled_downloads'
   | 'resume_when_progress_seen'
@@ -383,6 +543,8 @@ export interface TorBoxRulePreset {
   action: TorBoxRuleAction;
   actionValue?: string;
   scope?: TorBoxRuleScope;
+  trigger?: TorBoxRuleTrigger;
+  triggerValue?: string;
   isDangerous?: boolean;
   category: 'transfer' | 'completion' | 'playback' | 'maintenance';
 }
@@ -0,0 +1,12 @@
+export const PRIMARY_ACCOUNT_ID = 'primary';
+
+export function getAccountStorageKey(baseKey: string, accountId: string | null | undefined): string {
+  // The primary account keeps the original single-account keys so data saved
+  // before multi-account support is picked up without a migration step.
+  if (!accountId || accountId === PRIMARY_ACCOUNT_ID) return baseKey;
+  return `${baseKey}.${accountId}`;
+}
+
+export function createAccountId(): string {
+  return `acct_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
@@ -0,0 +1,144 @@
+import { AddContentType } from '@/types/torbox';
+
+export type BatchLineType = Extract<AddContentType, 'magnet' | 'hash' | 'web' | 'nzb'>;
+
+export type BatchEntryStatus = 'ready' | 'duplicate' | 'invalid' | 'skipped' | 'queued' | 'adding' | 'added' | 'failed';
+
+export interface BatchEntry {
+  lineNumber: number;
+  value: string;
+  type: BatchLineType | null;
+  key: string | null;
+  status: BatchEntryStatus;
+  message: string | null;
+}
+
+export interface BatchQueueOptions {
+  minIntervalMs: number;
+  getBackoffMs: () => number;
+  shouldContinue?: () => boolean;
+}
+
+export const BATCH_MIN_INTERVAL_MS = 1200;
+
+const HEX_HASH_REGEX = /^[a-f0-9]{40}$/i;
+const BASE32_HASH_REGEX = /^[a-z2-7]{32}$/i;
+const BTIH_REGEX = /xt=urn:btih:([a-z0-9]+)/i;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function base32ToHex(value: string): string | null {
+  let bits = '';
+  for (const char of value.toLowerCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) return null;
+    bits += index.toString(2).padStart(5, '0');
+  }
+  let hex = '';
+  for (let i = 0; i + 4 <= bits.length; i += 4) {
+    hex += parseInt(bits.slice(i, i + 4), 2).toString(16);
+  }
+  return hex;
+}
+
+export function normalizeInfoHash(value: string): string | null {
+  const trimmed = value.trim();
+  if (HEX_HASH_REGEX.test(trimmed)) return trimmed.toLowerCase();
+  if (BASE32_HASH_REGEX.test(trimmed)) return base32ToHex(trimmed);
+  return null;
+}
+
+export function detectBatchLineType(value: string): BatchLineType | null {
+  const trimmed = value.trim();
+  if (/^magnet:\?/i.test(trimmed)) return 'magnet';
+  if (normalizeInfoHash(trimmed)) return 'hash';
+  if (/^https?:\/\/\S+$/i.test(trimmed)) {
+    const path = trimmed.split(/[?#]/)[0].toLowerCase();
+    return path.endsWith('.nzb') || /[?&]t=get(&|$)/i.test(trimmed) ? 'nzb' : 'web';
+  }
+  return null;
+}
+
+export function getInfoHash(type: AddContentType, value: string): string | null {
+  if (type === 'hash') return normalizeInfoHash(value);
+  if (type === 'magnet') {
+    const match = value.match(BTIH_REGEX);
+    return match ? normalizeInfoHash(match[1]) : null;
+  }
+  return null;
+}
+
+// Only the scheme and host are case-insensitive; paths and queries (signed links, indexer ids) are kept as-is.
+// Split by hand because React Native's URL does not normalize the host.
+export function normalizeBatchUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  const match = trimmed.match(/^([a-z][a-z0-9+.-]*:\/\/[^/?#]*)(.*)$/i);
+  return match ? match[1].toLowerCase() + match[2] : trimmed;
+}
+
+function getEntryKey(type: BatchLineType, value: string): string | null {
+  if (type === 'hash' || type === 'magnet') return getInfoHash(type, value);
+  return normalizeBatchUrl(value);
+}
+
+// `existingKeys` holds info hashes of library torrents and normalized `original_url`s of web and usenet downloads.
+export function parseBatchInput(text: string, existingKeys: Set<string>): BatchEntry[] {
+  const seen = new Set<string>();
+  const entries: BatchEntry[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const value = rawLine.trim();
+    if (!value || value.startsWith('#')) return;
+
+    const lineNumber = index + 1;
+    const type = detectBatchLineType(value);
+    if (!type) {
+      entries.push({ lineNumber, value, type: null, key: null, status: 'invalid', message: 'Not a magnet, info hash, or URL' });
+      return;
+    }
+
+    const key = getEntryKey(type, value);
+    if (type === 'magnet' && !key) {
+      entries.push({ lineNumber, value, type, key: null, status: 'invalid', message: 'Magnet link has no btih info hash' });
+      return;
+    }
+
+    if (key && existingKeys.has(key)) {
+      entries.push({ lineNumber, value, type, key, status: 'duplicate', message: 'Already in your library' });
+      return;
+    }
+    if (key && seen.has(key)) {
+      entries.push({ lineNumber, value, type, key, status: 'duplicate', message: 'Duplicate of an earlier line' });
+      return;
+    }
+
+    if (key) seen.add(key);
+    entries.push({ lineNumber, value, type, key, status: 'ready', message: null });
+  });
+
+  return entries;
+}
+
+export async function runRateLimitedQueue<T>(
+  jobs: T[],
+  worker: (job: T, index: number) => Promise<void>,
+  options: BatchQueueOptions
+): Promise<void> {
+  let lastStartedAt = 0;
+
+  for (let i = 0; i < jobs.length; i++) {
+    if (options.shouldContinue && !options.shouldContinue()) {
+      console.log('[BatchAdd] Queue stopped early');
+      return;
+    }
+
+    const sinceLast = Date.now() - lastStartedAt;
+    const wait = Math.max(options.minIntervalMs - sinceLast, options.getBackoffMs(), 0);
+    if (i > 0 && wait > 0) {
+      await new Promise(r => setTimeout(r, wait));
+    }
+
+    lastStartedAt = Date.now();
+    await worker(jobs[i], i);
+  }
+}
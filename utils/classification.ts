@@ -1,26 +1,108 @@
-import { MediaCategory, TorBoxFile, ClassificationConfig } from '@/types/torbox';
+import { MediaCategory, TorBoxFile, ClassificationConfig, LibraryItem } from '@/types/torbox';
+import { getCachedRegex, parseRegexValue } from '@/utils/regex';
 import {
   AUDIO_EXTENSIONS,
   ALWAYS_AUDIOBOOK_EXTENSIONS,
   VIDEO_EXTENSIONS,
   EBOOK_EXTENSIONS,
+  COMICS_EXTENSIONS,
+  SOFTWARE_EXTENSIONS,
+  PODCAST_KEYWORDS,
   DOCUMENT_EXTENSIONS,
   ARCHIVE_EXTENSIONS,
   DEFAULT_CLASSIFICATION_CONFIG,
   GAMES_MIN_SIZE_GB,
+  ALL_CATEGORIES,
+  DURATION_PROBE_EXTENSIONS,
+  LEGACY_CATEGORY_ALIASES,
 } from '@/constants/categories';
 
+// Tokens end at any non-alphanumeric, as in utils/releaseName.ts; `\b` would treat `Show_S01E02` as one word.
+const TV_EPISODE_PATTERN = /(^|[^a-z0-9])(s\d{1,2}[ ._-]?e\d{1,3}|\d{1,2}x\d{2,3})(?=$|[^a-z0-9])/i;
+const TV_SEASON_PATTERN = /(^|[^a-z0-9])(season[ ._-]?\d{1,2}|s\d{2}|complete[ ._-]series)(?=$|[^a-z0-9])/i;
+const EPISODE_NUMBER_PATTERN = /(^|[^a-z0-9])(e|ep|episode)[ ._-]?\d{1,3}(?=$|[^a-z0-9])/i;
+
 export function getFileExtension(filename: string): string {
   const parts = filename.toLowerCase().split('.');
   return parts.length > 1 ? parts[parts.length - 1] : '';
 }
 
+// Only audio the built-in rules call music can change category once its duration is known.
+export function isDurationProbeCandidate(item: LibraryItem, config: ClassificationConfig): boolean {
+  return config.audiobookMinDurationMinutes > 0 && item.isComplete && item.category === 'music' && DURATION_PROBE_EXTENSIONS.includes(item.extension);
+}
+
+// Accepts current category names and renamed ones from older stored data.
+export function toMediaCategory(value: unknown): MediaCategory | null {
+  if (typeof value !== 'string') return null;
+  if (ALL_CATEGORIES.includes(value as MediaCategory)) return value as MediaCategory;
+  return LEGACY_CATEGORY_ALIASES[value] ?? null;
+}
+
+export function normalizeExtension(raw: string): string {
+  return raw.trim().toLowerCase().replace(/^\.+/, '');
+}
+
+export function validateNameRulePattern(pattern: string): string | null {
+  if (!pattern.trim()) return 'Pattern is required.';
+  try {
+    parseRegexValue(pattern);
+    return null;
+  } catch (err) {
+    return `Invalid regex ${pattern}: ${err instanceof Error ? err.message : 'could not be parsed'}`;
+  }
+}
+
+// Stored configs may predate newer fields or hold hand-edited values, so anything unusable falls back to the defaults.
+export function sanitizeClassificationConfig(raw: unknown): ClassificationConfig {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof ClassificationConfig, unknown>>;
+  const number = (input: unknown, fallback: number) => typeof input === 'number' && Number.isFinite(input) && input >= 0 ? input : fallback;
+  const list = (input: unknown): Record<string, unknown>[] => Array.isArray(input) ? input.filter(entry => entry && typeof entry === 'object') : [];
+  return {
+    audiobookMinFileSizeMB: number(value.audiobookMinFileSizeMB, DEFAULT_CLASSIFICATION_CONFIG.audiobookMinFileSizeMB),
+    audiobookMinDurationMinutes: number(value.audiobookMinDurationMinutes, DEFAULT_CLASSIFICATION_CONFIG.audiobookMinDurationMinutes),
+    audiobookMultiTrackMinSizeMB: number(value.audiobookMultiTrackMinSizeMB, DEFAULT_CLASSIFICATION_CONFIG.audiobookMultiTrackMinSizeMB),
+    audiobookKeywords: Array.isArray(value.audiobookKeywords)
+      ? value.audiobookKeywords.filter((keyword): keyword is string => typeof keyword === 'string').map(keyword => keyword.trim().toLowerCase()).filter(Boolean)
+      : DEFAULT_CLASSIFICATION_CONFIG.audiobookKeywords,
+    extensionRules: list(value.extensionRules)
+      .filter(rule => typeof rule.extension === 'string' && normalizeExtension(rule.extension) && toMediaCategory(rule.category))
+      .map(rule => ({ extension: normalizeExtension(rule.extension as string), category: toMediaCategory(rule.category)! })),
+    nameRules: list(value.nameRules)
+      .filter(rule => typeof rule.pattern === 'string' && !validateNameRulePattern(rule.pattern) && toMediaCategory(rule.category))
+      .map(rule => ({ pattern: (rule.pattern as string).trim(), category: toMediaCategory(rule.category)! })),
+  };
+}
+
+// Name rules are regexes tested against the parent name and the file path. `/Comics/` is the regex literal
+// `Comics` and matches the word anywhere; folder rules spell out the slashes (`/\/Comics\//`), which the
+// leading slash on the path lets match a top-level folder too.
+function classifyByCustomRules(file: TorBoxFile, config: ClassificationConfig, parentName?: string): MediaCategory | null {
+  const path = `/${file.name}`;
+  for (const rule of config.nameRules) {
+    const regex = getCachedRegex(rule.pattern);
+    if (regex && (regex.test(path) || (!!parentName && regex.test(parentName)))) {
+      console.log('[Classification] Custom name rule:', file.name, 'pattern:', rule.pattern, '->', rule.category);
+      return rule.category;
+    }
+  }
+  const ext = getFileExtension(file.name);
+  const extensionRule = config.extensionRules.find(rule => rule.extension === ext);
+  return extensionRule ? extensionRule.category : null;
+}
+
 export function classifyFile(
   file: TorBoxFile,
   siblingFiles?: TorBoxFile[],
   config: ClassificationConfig = DEFAULT_CLASSIFICATION_CONFIG,
-  parentName?: string
+  parentName?: string,
+  durationSeconds?: number
 ): MediaCategory {
+  const custom = classifyByCustomRules(file, config, parentName);
+  if (custom) {
+    return custom;
+  }
+
   const ext = getFileExtension(file.name);
 
   if (ALWAYS_AUDIOBOOK_EXTENSIONS.includes(ext)) {
@@ -28,17 +110,25 @@ export function classifyFile(
   }
 
   if (VIDEO_EXTENSIONS.includes(ext)) {
-    return 'video';
+    return classifyVideoFile(file, siblingFiles, parentName);
   }
 
   if (AUDIO_EXTENSIONS.includes(ext)) {
-    return classifyAudioFile(file, siblingFiles, config, parentName);
+    return classifyAudioFile(file, siblingFiles, config, parentName, durationSeconds);
   }
 
   if (EBOOK_EXTENSIONS.includes(ext)) {
     return 'ebook';
   }
 
+  if (COMICS_EXTENSIONS.includes(ext)) {
+    return 'comics';
+  }
+
+  if (SOFTWARE_EXTENSIONS.includes(ext)) {
+    return 'software';
+  }
+
   if (ext === 'pdf') {
     return classifyPdf(file);
   }
@@ -67,17 +157,30 @@ function classifyAudioFile(
   file: TorBoxFile,
   siblingFiles?: TorBoxFile[],
   config: ClassificationConfig = DEFAULT_CLASSIFICATION_CONFIG,
-  parentName?: string
+  parentName?: string,
+  durationSeconds?: number
 ): MediaCategory {
+  const lowerName = (file.name + ' ' + (file.short_name || '')).toLowerCase();
+  const lowerParent = (parentName || '').toLowerCase();
+  const combinedText = lowerName + ' ' + lowerParent;
+
+  for (const keyword of PODCAST_KEYWORDS) {
+    if (combinedText.includes(keyword)) {
+      console.log('[Classification] Podcast by keyword:', file.name, 'keyword:', keyword);
+      return 'podcast';
+    }
+  }
+
   const fileSizeMB = file.size / (1024 * 1024);
   if (fileSizeMB >= config.audiobookMinFileSizeMB) {
     console.log('[Classification] Audiobook by file size:', file.name, fileSizeMB, 'MB');
     return 'audiobook';
   }
 
-  const lowerName = (file.name + ' ' + (file.short_name || '')).toLowerCase();
-  const lowerParent = (parentName || '').toLowerCase();
-  const combinedText = lowerName + ' ' + lowerParent;
+  if (durationSeconds !== undefined && config.audiobookMinDurationMinutes > 0 && durationSeconds >= config.audiobookMinDurationMinutes * 60) {
+    console.log('[Classification] Audiobook by duration:', file.name, Math.round(durationSeconds / 60), 'min');
+    return 'audiobook';
+  }
 
   for (const keyword of config.audiobookKeywords) {
     if (combinedText.includes(keyword)) {
@@ -136,6 +239,28 @@ function classifyAudioFile(
   return 'music';
 }
 
+// Episodes are named like S01E02 or 1x02; otherwise several videos in a season folder, or numbered episodes, make a series.
+function classifyVideoFile(file: TorBoxFile, siblingFiles?: TorBoxFile[], parentName?: string): MediaCategory {
+  if (TV_EPISODE_PATTERN.test(file.name)) {
+    return 'tv';
+  }
+
+  const videoSiblings = (siblingFiles ?? []).filter(f => VIDEO_EXTENSIONS.includes(getFileExtension(f.name)));
+  if (videoSiblings.length > 1) {
+    if (TV_SEASON_PATTERN.test(file.name) || TV_SEASON_PATTERN.test(parentName || '')) {
+      console.log('[Classification] TV by season folder:', file.name);
+      return 'tv';
+    }
+    const numberedEpisodes = videoSiblings.filter(f => EPISODE_NUMBER_PATTERN.test(f.short_name || f.name)).length;
+    if (numberedEpisodes > 1 && EPISODE_NUMBER_PATTERN.test(file.short_name || file.name)) {
+      console.log('[Classification] TV by numbered episodes:', file.name, numberedEpisodes, 'episodes');
+      return 'tv';
+    }
+  }
+
+  return 'movie';
+}
+
 function classifyPdf(file: TorBoxFile): MediaCategory {
   const lowerName = file.name.toLowerCase();
   const ebookKeywords = ['book', 'novel', 'edition', 'author', 'isbn', 'epub', 'ebook'];
@@ -0,0 +1,203 @@
+import { Platform } from 'react-native';
+import { ContentUploadFile } from '@/types/torbox';
+
+export const MAX_UPLOAD_FILE_BYTES = 10 * 1024 * 1024;
+
+type BencodeValue = number | Uint8Array | BencodeValue[] | { [key: string]: BencodeValue };
+
+interface TorrentFileSummary {
+  name: string;
+  fileCount: number;
+  totalSize: number;
+}
+
+interface NzbFileSummary {
+  fileCount: number;
+  segmentCount: number;
+  totalSize: number;
+}
+
+const CHAR_D = 0x64;
+const CHAR_E = 0x65;
+const CHAR_I = 0x69;
+const CHAR_L = 0x6c;
+const CHAR_COLON = 0x3a;
+const CHAR_MINUS = 0x2d;
+
+function bytesToAscii(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]);
+  return out;
+}
+
+function bytesToUtf8(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8').decode(bytes);
+  } catch {
+    return bytesToAscii(bytes);
+  }
+}
+
+function decodeBencode(bytes: Uint8Array): BencodeValue {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Malformed .torrent file: ${reason} (byte ${pos}).`);
+  };
+
+  const readDigits = (terminator: number): number => {
+    const start = pos;
+    if (bytes[pos] === CHAR_MINUS) pos++;
+    while (pos < bytes.length && bytes[pos] >= 0x30 && bytes[pos] <= 0x39) pos++;
+    if (pos === start || bytes[pos] !== terminator) fail('invalid number');
+    const value = Number(bytesToAscii(bytes.subarray(start, pos)));
+    if (!Number.isFinite(value)) fail('invalid number');
+    pos++;
+    return value;
+  };
+
+  const readValue = (depth: number): BencodeValue => {
+    if (depth > 64) fail('nesting too deep');
+    if (pos >= bytes.length) fail('unexpected end of data');
+    const token = bytes[pos];
+
+    if (token === CHAR_I) {
+      pos++;
+      return readDigits(CHAR_E);
+    }
+
+    if (token === CHAR_L) {
+      pos++;
+      const list: BencodeValue[] = [];
+      while (bytes[pos] !== CHAR_E) {
+        if (pos >= bytes.length) fail('unterminated list');
+        list.push(readValue(depth + 1));
+      }
+      pos++;
+      return list;
+    }
+
+    if (token === CHAR_D) {
+      pos++;
+      const dict: { [key: string]: BencodeValue } = {};
+      while (bytes[pos] !== CHAR_E) {
+        if (pos >= bytes.length) fail('unterminated dictionary');
+        const key = readValue(depth + 1);
+        if (!(key instanceof Uint8Array)) fail('dictionary key is not a string');
+        dict[bytesToUtf8(key as Uint8Array)] = readValue(depth + 1);
+      }
+      pos++;
+      return dict;
+    }
+
+    if (token >= 0x30 && token <= 0x39) {
+      const length = readDigits(CHAR_COLON);
+      if (length < 0 || pos + length > bytes.length) fail('string length exceeds file size');
+      const value = bytes.subarray(pos, pos + length);
+      pos += length;
+      return value;
+    }
+
+    return fail(`unexpected token "${String.fromCharCode(token)}"`);
+  };
+
+  const root = readValue(0);
+  if (pos !== bytes.length) fail('trailing data after root value');
+  return root;
+}
+
+function isDict(value: BencodeValue | undefined): value is { [key: string]: BencodeValue } {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+// BitTorrent v2 "file tree": nested directories keyed by path segment, each file a { '': { length } } entry.
+function summarizeFileTree(tree: { [key: string]: BencodeValue }): { fileCount: number; totalSize: number } {
+  let fileCount = 0;
+  let totalSize = 0;
+  for (const [key, child] of Object.entries(tree)) {
+    if (!isDict(child)) continue;
+    if (key === '') {
+      fileCount++;
+      totalSize += typeof child.length === 'number' ? child.length : 0;
+      continue;
+    }
+    const nested = summarizeFileTree(child);
+    fileCount += nested.fileCount;
+    totalSize += nested.totalSize;
+  }
+  return { fileCount, totalSize };
+}
+
+export function validateTorrentFile(bytes: Uint8Array): TorrentFileSummary {
+  if (bytes.length === 0) throw new Error('The selected .torrent file is empty.');
+  if (bytes[0] !== CHAR_D) throw new Error('This does not look like a .torrent file (expected a bencoded dictionary).');
+
+  const root = decodeBencode(bytes);
+  if (!isDict(root)) throw new Error('Malformed .torrent file: root is not a dictionary.');
+
+  const info = root.info;
+  if (!isDict(info)) throw new Error('Malformed .torrent file: missing "info" dictionary.');
+  if (!(info.name instanceof Uint8Array)) throw new Error('Malformed .torrent file: missing torrent name.');
+  if (typeof info['piece length'] !== 'number') throw new Error('Malformed .torrent file: missing piece length.');
+  // v2-only torrents hash pieces per file (in "piece layers") and have no "pieces"; hybrid ones carry both.
+  const fileTree = info['meta version'] === 2 && isDict(info['file tree']) ? info['file tree'] : null;
+  if ((!fileTree || info.pieces !== undefined) && (!(info.pieces instanceof Uint8Array) || info.pieces.length % 20 !== 0)) {
+    throw new Error('Malformed .torrent file: piece hashes are missing or truncated.');
+  }
+
+  let fileCount = 1;
+  let totalSize = typeof info.length === 'number' ? info.length : 0;
+  if (Array.isArray(info.files)) {
+    fileCount = info.files.length;
+    totalSize = info.files.reduce<number>((sum, f) => sum + (isDict(f) && typeof f.length === 'number' ? f.length : 0), 0);
+  } else if (typeof info.length !== 'number') {
+    const tree = fileTree ? summarizeFileTree(fileTree) : null;
+    if (!tree?.fileCount) throw new Error('Malformed .torrent file: no file length or file list.');
+    ({ fileCount, totalSize } = tree);
+  }
+
+  return { name: bytesToUtf8(info.name), fileCount, totalSize };
+}
+
+export function validateNzbFile(text: string): NzbFileSummary {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('The selected .nzb file is empty.');
+  if (!/<nzb[\s>]/i.test(trimmed) || !/<\/nzb>\s*$/i.test(trimmed)) {
+    throw new Error('This does not look like an NZB file (missing <nzb> root element).');
+  }
+
+  const fileCount = (trimmed.match(/<file[\s>]/gi) ?? []).length;
+  if (fileCount === 0) throw new Error('Malformed NZB: no <file> entries found.');
+  if ((trimmed.match(/<\/file>/gi) ?? []).length !== fileCount) {
+    throw new Error('Malformed NZB: unbalanced <file> elements.');
+  }
+
+  const segments = trimmed.match(/<segment\b[^>]*>/gi) ?? [];
+  if (segments.length === 0) throw new Error('Malformed NZB: no <segment> entries found.');
+
+  let totalSize = 0;
+  for (const segment of segments) {
+    const bytesMatch = segment.match(/bytes="(\d+)"/i);
+    if (bytesMatch) totalSize += Number(bytesMatch[1]);
+  }
+
+  return { fileCount, segmentCount: segments.length, totalSize };
+}
+
+export async function readUploadFileBytes(file: ContentUploadFile): Promise<Uint8Array> {
+  if (file.size !== null && file.size > MAX_UPLOAD_FILE_BYTES) {
+    throw new Error('The selected file is too large to upload (10 MB max).');
+  }
+  const buffer = Platform.OS === 'web' && file.webFile
+    ? await file.webFile.arrayBuffer()
+    : await (await fetch(file.uri)).arrayBuffer();
+  // Pickers do not always report a size, so the check is repeated on what was actually read.
+  if (buffer.byteLength > MAX_UPLOAD_FILE_BYTES) {
+    throw new Error('The selected file is too large to upload (10 MB max).');
+  }
+  return new Uint8Array(buffer);
+}
+
+export function decodeUploadText(bytes: Uint8Array): string {
+  return bytesToUtf8(bytes);
+}
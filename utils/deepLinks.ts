@@ -0,0 +1,108 @@
+import { Platform } from 'react-native';
+import { AddContentType } from '@/types/torbox';
+import { detectBatchLineType } from '@/utils/batchAdd';
+
+export interface IncomingContentLink {
+  type: Extract<AddContentType, 'magnet' | 'hash' | 'web' | 'nzb'>;
+  value: string;
+}
+
+const APP_SCHEME = 'tordeck';
+const WEB_MAGNET_HANDLER_PATH = '/add-content?link=%s';
+
+const ADD_PARAM_TYPES: { param: string; type: IncomingContentLink['type'] }[] = [
+  { param: 'magnet', type: 'magnet' },
+  { param: 'hash', type: 'hash' },
+  { param: 'url', type: 'web' },
+  { param: 'nzb', type: 'nzb' },
+];
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseQuery(query: string): Map<string, string> {
+  const params = new Map<string, string>();
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const [rawKey, ...rest] = pair.split('=');
+    params.set(safeDecode(rawKey).toLowerCase(), safeDecode(rest.join('=').replace(/\+/g, ' ')));
+  }
+  return params;
+}
+
+// The value decides the type; a hint only settles what detection cannot tell apart, namely an NZB link
+// whose URL doesn't end in .nzb. Values that are no recognizable content are dropped.
+function fromValue(value: string, hint?: string): IncomingContentLink | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const detected = detectBatchLineType(trimmed);
+  if (!detected) return null;
+  if (hint === 'nzb' && detected === 'web') return { type: 'nzb', value: trimmed };
+  return { type: detected, value: trimmed };
+}
+
+/**
+ * Accepts a raw magnet link, a `tordeck://add?...` URL, or an in-app `/add-content?...`
+ * path and returns the content it should prefill, if any.
+ */
+export function parseIncomingContentLink(rawUrl: string): IncomingContentLink | null {
+  const url = rawUrl.trim();
+  if (!url) return null;
+
+  if (/^magnet:\?/i.test(url)) {
+    return { type: 'magnet', value: url };
+  }
+
+  const schemeMatch = url.match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+  let rest = url;
+  if (schemeMatch) {
+    if (schemeMatch[1].toLowerCase() !== APP_SCHEME) return null;
+    rest = schemeMatch[2];
+  }
+
+  const [rawPath, ...queryParts] = rest.replace(/^\/+/, '').split('?');
+  const path = rawPath.replace(/\/+$/, '').toLowerCase();
+  if (path !== 'add' && path !== 'add-content') return null;
+
+  const params = parseQuery(queryParts.join('?'));
+
+  const link = params.get('link');
+  if (link) return fromValue(link);
+
+  for (const { param, type } of ADD_PARAM_TYPES) {
+    const value = params.get(param);
+    if (value) return fromValue(value, type);
+  }
+
+  const value = params.get('value');
+  return value ? fromValue(value, params.get('type')) : null;
+}
+
+export function buildAddContentHref(link: IncomingContentLink): string {
+  return `/add-content?type=${link.type}&value=${encodeURIComponent(link.value)}`;
+}
+
+export function canRegisterWebMagnetHandler(): boolean {
+  return Platform.OS === 'web'
+    && typeof navigator !== 'undefined'
+    && typeof navigator.registerProtocolHandler === 'function'
+    && typeof window !== 'undefined'
+    && window.isSecureContext;
+}
+
+export function registerWebMagnetHandler(): boolean {
+  if (!canRegisterWebMagnetHandler()) return false;
+  try {
+    navigator.registerProtocolHandler('magnet', `${window.location.origin}${WEB_MAGNET_HANDLER_PATH}`);
+    console.log('[DeepLinks] Registered web magnet handler');
+    return true;
+  } catch (err) {
+    console.warn('[DeepLinks] Failed to register magnet handler:', err);
+    return false;
+  }
+}
@@ -0,0 +1,191 @@
+import { classifyFile, getFileExtension } from '@/utils/classification';
+import { TorBoxItem, TorBoxUsenetItem, TorBoxWebItem, LibraryItem, ActiveDownload, ClassificationConfig } from '@/types/torbox';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '@/constants/categories';
+import { parseLibraryRelease } from '@/utils/releaseName';
+
+export function buildLibraryItems(
+  torrents: TorBoxItem[],
+  usenet: TorBoxUsenetItem[],
+  webDl: TorBoxWebItem[],
+  config: ClassificationConfig = DEFAULT_CLASSIFICATION_CONFIG,
+  durations: Record<string, number | null> = {}
+): LibraryItem[] {
+  const items: LibraryItem[] = [];
+
+  const getFileId = (file: { id?: number; file_id?: number }): number | null => {
+    const candidate = file.id ?? file.file_id;
+    return Number.isFinite(candidate) ? Number(candidate) : null;
+  };
+
+  const getWebDownloadId = (item: TorBoxWebItem): number => {
+    return item.webdownload_id ?? item.web_id ?? item.id;
+  };
+
+  for (const t of torrents) {
+    if (!t.files) continue;
+    for (const f of t.files) {
+      const fileId = getFileId(f);
+      if (fileId === null) continue;
+
+      const id = `torrent-${t.id}-${fileId}`;
+      const fileName = f.short_name || f.name;
+      const category = classifyFile(f, t.files, config, t.name, durations[id] ?? undefined);
+      items.push({
+        id,
+        sourceId: t.id,
+        fileId,
+        source: 'torrent',
+        parentName: t.name,
+        fileName,
+        fileSize: f.size,
+        category,
+        extension: getFileExtension(f.name),
+        mimetype: f.mimetype,
+        md5: f.md5,
+        s3Path: f.s3_path,
+        createdAt: t.created_at,
+        isComplete: t.download_finished,
+        release: parseLibraryRelease(fileName, t.name, category),
+      });
+    }
+  }
+
+  for (const u of usenet) {
+    if (!u.files) continue;
+    for (const f of u.files) {
+      const fileId = getFileId(f);
+      if (fileId === null) continue;
+
+      const id = `usenet-${u.id}-${fileId}`;
+      const fileName = f.short_name || f.name;
+      const category = classifyFile(f, u.files, config, u.name, durations[id] ?? undefined);
+      items.push({
+        id,
+        sourceId: u.id,
+        fileId,
+        source: 'usenet',
+        parentName: u.name,
+        fileName,
+        fileSize: f.size,
+        category,
+        extension: getFileExtension(f.name),
+        mimetype: f.mimetype,
+        md5: f.md5,
+        s3Path: f.s3_path,
+        createdAt: u.created_at,
+        isComplete: u.download_finished,
+        release: parseLibraryRelease(fileName, u.name, category),
+      });
+    }
+  }
+
+  for (const w of webDl) {
+    const webId = getWebDownloadId(w);
+    if (!w.files) continue;
+    for (const f of w.files) {
+      const fileId = getFileId(f);
+      if (fileId === null) continue;
+
+      const id = `web-${webId}-${fileId}`;
+      const fileName = f.short_name || f.name;
+      const category = classifyFile(f, w.files, config, w.name, durations[id] ?? undefined);
+      items.push({
+        id,
+        sourceId: webId,
+        fileId,
+        source: 'web',
+        parentName: w.name,
+        fileName,
+        fileSize: f.size,
+        category,
+        extension: getFileExtension(f.name),
+        mimetype: f.mimetype,
+        md5: f.md5,
+        s3Path: f.s3_path,
+        createdAt: w.created_at,
+        isComplete: w.download_finished,
+        release: parseLibraryRelease(fileName, w.name, category),
+      });
+    }
+  }
+
+  return items;
+}
+
+function shouldShowInDownloads(downloadState: string, downloadFinished: boolean): boolean {
+  const state = downloadState.toLowerCase();
+  if (!downloadFinished) return true;
+  if (state === 'error' || state === 'failed' || state === 'stalled') return true;
+  return false;
+}
+
+export function buildActiveDownloads(
+  torrents: TorBoxItem[],
+  usenet: TorBoxUsenetItem[],
+  webDl: TorBoxWebItem[]
+): ActiveDownload[] {
+  const items: ActiveDownload[] = [];
+
+  for (const t of torrents) {
+    if (shouldShowInDownloads(t.download_state, t.download_finished)) {
+      items.push({
+        id: t.id,
+        name: t.name,
+        size: t.size,
+        progress: t.progress,
+        downloadSpeed: t.download_speed,
+        uploadSpeed: t.upload_speed,
+        eta: t.eta,
+        downloadFinished: t.download_finished,
+        downloadState: t.download_state,
+        createdAt: t.created_at,
+        source: 'torrent',
+        filesCount: t.files?.length ?? 0,
+        seeds: t.seeds,
+        peers: t.peers,
+      });
+    }
+  }
+
+  for (const u of usenet) {
+    if (shouldShowInDownloads(u.download_state, u.download_finished)) {
+      items.push({
+        id: u.id,
+        name: u.name,
+        size: u.size,
+        progress: u.progress,
+        downloadSpeed: u.download_speed,
+        uploadSpeed: 0,
+        eta: u.eta,
+        downloadFinished: u.download_finished,
+        downloadState: u.download_state,
+        createdAt: u.created_at,
+        source: 'usenet',
+        filesCount: u.files?.length ?? 0,
+      });
+    }
+  }
+
+  for (const w of webDl) {
+    const webId = w.webdownload_id ?? w.web_id ?? w.id;
+    if (shouldShowInDownloads(w.download_state, w.download_finished)) {
+      items.push({
+        id: webId,
+        name: w.name,
+        size: w.size,
+        progress: w.progress,
+        downloadSpeed: w.download_speed,
+        uploadSpeed: 0,
+        eta: w.eta,
+        downloadFinished: w.download_finished,
+        downloadState: w.download_state,
+        createdAt: w.created_at,
+        source: 'web',
+        filesCount: w.files?.length ?? 0,
+      });
+    }
+  }
+
+  items.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  return items;
+}
@@ -0,0 +1,225 @@
+export const PROBE_WINDOW_BYTES = 4096;
+const MAX_MP4_BOXES = 32;
+
+export interface RangeResponse {
+  status: number;
+  contentType: string;
+  acceptRanges: string;
+  contentRange: string;
+  contentLength: string;
+  finalUrl: string;
+  bytes: Uint8Array;
+  totalContentLength: number;
+}
+
+// Reads the body only when the server honoured the range (or the whole body fits the window), so a
+// server that ignores Range never makes us buffer an entire file.
+export async function fetchRange(url: string, start: number, end: number): Promise<RangeResponse> {
+  const res = await fetch(url, {
+    method: 'GET',
+    headers: { Range: `bytes=${start}-${end}` },
+  });
+
+  const status = res.status;
+  const contentType = res.headers.get('content-type') || '';
+  const acceptRanges = res.headers.get('accept-ranges') || '';
+  const contentRange = res.headers.get('content-range') || '';
+  const contentLength = res.headers.get('content-length') || '';
+  const finalUrl = (res as unknown as { url?: string }).url || url;
+
+  let totalContentLength = 0;
+  const rangeMatch = contentRange.match(/bytes \d+-\d+\/(\d+)/);
+  if (rangeMatch) {
+    totalContentLength = parseInt(rangeMatch[1], 10);
+  } else if (status === 200 && contentLength) {
+    totalContentLength = parseInt(contentLength, 10) || 0;
+  }
+
+  let bytes = new Uint8Array(0);
+  const fitsWindow = !!contentLength && parseInt(contentLength, 10) <= end - start + 1;
+  if (status === 206 || fitsWindow) {
+    try {
+      bytes = new Uint8Array(await res.arrayBuffer()).slice(0, end - start + 1);
+    } catch {}
+  }
+
+  return { status, contentType, acceptRanges, contentRange, contentLength, finalUrl, bytes, totalContentLength };
+}
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  offset + length > bytes.length ? '' : String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+// Size of a leading ID3v2 tag, including its header and optional footer; 0 when there is none.
+export function getId3v2Size(bytes: Uint8Array): number {
+  if (bytes.length < 10 || readAscii(bytes, 0, 3) !== 'ID3') return 0;
+  const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+const MP3_BITRATES: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+interface Mp3FrameHeader {
+  bitrate: number;
+  sampleRate: number;
+  samplesPerFrame: number;
+  frameLength: number;
+  sideInfoLength: number;
+}
+
+function parseMp3FrameHeader(bytes: Uint8Array, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isV1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const bitrate = MP3_BITRATES[`${isV1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const isMono = bytes[offset + 3] >> 6 === 3;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isV1 ? 576 : 1152;
+  const frameLength = layer === 1
+    ? Math.floor((12 * bitrate) / sampleRate + padding) * 4
+    : Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+  const sideInfoLength = isV1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+  return { bitrate, sampleRate, samplesPerFrame, frameLength, sideInfoLength };
+}
+
+// `bytes` starts where the audio starts (after any ID3 tag). Uses the Xing/Info or VBRI frame count when
+// present and otherwise assumes a constant bitrate over the rest of the file.
+export function parseMp3Duration(bytes: Uint8Array, audioStart: number, totalSize: number): number | null {
+  for (let offset = 0; offset + 4 <= bytes.length; offset++) {
+    const header = parseMp3FrameHeader(bytes, offset);
+    if (!header) continue;
+    // A second frame where the first says it ends rules out stray sync bytes.
+    const next = offset + header.frameLength;
+    if (next + 4 <= bytes.length && !parseMp3FrameHeader(bytes, next)) continue;
+
+    const xingOffset = offset + 4 + header.sideInfoLength;
+    const xingTag = readAscii(bytes, xingOffset, 4);
+    if ((xingTag === 'Xing' || xingTag === 'Info') && xingOffset + 12 <= bytes.length && (readUint32(bytes, xingOffset + 4) & 0x01)) {
+      return (readUint32(bytes, xingOffset + 8) * header.samplesPerFrame) / header.sampleRate;
+    }
+    if (readAscii(bytes, offset + 36, 4) === 'VBRI' && offset + 54 <= bytes.length) {
+      return (readUint32(bytes, offset + 50) * header.samplesPerFrame) / header.sampleRate;
+    }
+    if (!totalSize) return null;
+    return ((totalSize - audioStart - offset) * 8) / header.bitrate;
+  }
+  return null;
+}
+
+// `bytes` starts at the `fLaC` marker; the STREAMINFO block is always first.
+export function parseFlacDuration(bytes: Uint8Array): number | null {
+  if (readAscii(bytes, 0, 4) !== 'fLaC' || bytes.length < 26 || (bytes[4] & 0x7f) !== 0) return null;
+  const info = 8;
+  const sampleRate = (bytes[info + 10] << 12) | (bytes[info + 11] << 4) | (bytes[info + 12] >> 4);
+  const totalSamples = (bytes[info + 13] & 0x0f) * 2 ** 32 + readUint32(bytes, info + 14);
+  return sampleRate > 0 && totalSamples > 0 ? totalSamples / sampleRate : null;
+}
+
+interface Mp4BoxHeader {
+  type: string;
+  size: number;
+  headerSize: number;
+}
+
+function readMp4BoxHeader(bytes: Uint8Array, offset: number, remaining: number): Mp4BoxHeader | null {
+  if (offset + 8 > bytes.length) return null;
+  const size32 = readUint32(bytes, offset);
+  const type = readAscii(bytes, offset + 4, 4);
+  if (size32 === 1) {
+    if (offset + 16 > bytes.length) return null;
+    return { type, size: readUint32(bytes, offset + 8) * 2 ** 32 + readUint32(bytes, offset + 12), headerSize: 16 };
+  }
+  return { type, size: size32 === 0 ? remaining : size32, headerSize: 8 };
+}
+
+// `bytes` holds the start of a moov box's payload.
+export function parseMoovDuration(bytes: Uint8Array): number | null {
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    const box = readMp4BoxHeader(bytes, offset, bytes.length - offset);
+    if (!box || box.size < box.headerSize) return null;
+    if (box.type === 'mvhd') {
+      const body = offset + box.headerSize;
+      const version = bytes[body];
+      const timescale = readUint32(bytes, body + (version === 1 ? 20 : 12));
+      const duration = version === 1
+        ? readUint32(bytes, body + 24) * 2 ** 32 + readUint32(bytes, body + 28)
+        : readUint32(bytes, body + 16);
+      return timescale > 0 ? duration / timescale : null;
+    }
+    offset += box.size;
+  }
+  return null;
+}
+
+// Walks top-level boxes until moov, which sits at either end of the file depending on how it was muxed.
+async function probeMp4Duration(url: string, first: RangeResponse): Promise<number | null> {
+  let offset = 0;
+  let chunk = first.bytes;
+  let chunkStart = 0;
+  const total = first.totalContentLength;
+  for (let i = 0; i < MAX_MP4_BOXES; i++) {
+    if (total && offset >= total) return null;
+    if (offset + 16 > chunkStart + chunk.length) {
+      chunk = (await fetchRange(url, offset, offset + 15)).bytes;
+      chunkStart = offset;
+    }
+    const box = readMp4BoxHeader(chunk, offset - chunkStart, total ? total - offset : Infinity);
+    if (!box || box.size < box.headerSize || !Number.isFinite(box.size)) return null;
+    if (box.type === 'moov') {
+      const payloadStart = offset + box.headerSize;
+      const payloadEnd = Math.min(offset + box.size, payloadStart + PROBE_WINDOW_BYTES) - 1;
+      const payload = payloadEnd < chunkStart + chunk.length
+        ? chunk.subarray(payloadStart - chunkStart, payloadEnd - chunkStart + 1)
+        : (await fetchRange(url, payloadStart, payloadEnd)).bytes;
+      return parseMoovDuration(payload);
+    }
+    offset += box.size;
+  }
+  return null;
+}
+
+// Duration in seconds of an MP3, MP4/M4A/M4B or FLAC file, read from its headers with ranged requests.
+export async function probeMediaDuration(url: string): Promise<number | null> {
+  try {
+    const first = await fetchRange(url, 0, PROBE_WINDOW_BYTES - 1);
+    if (first.status >= 400 || first.bytes.length === 0) {
+      console.log('[MediaProbe] Unreadable response:', first.status, first.contentType);
+      return null;
+    }
+    if (readAscii(first.bytes, 4, 4) === 'ftyp') return await probeMp4Duration(url, first);
+
+    const audioStart = getId3v2Size(first.bytes);
+    const audio = audioStart + 64 <= first.bytes.length
+      ? first.bytes.subarray(audioStart)
+      : (await fetchRange(url, audioStart, audioStart + PROBE_WINDOW_BYTES - 1)).bytes;
+    if (readAscii(audio, 0, 4) === 'fLaC') return parseFlacDuration(audio);
+    return parseMp3Duration(audio, audioStart, first.totalContentLength);
+  } catch (err) {
+    console.warn('[MediaProbe] Failed:', err);
+    return null;
+  }
+}
@@ -0,0 +1,20 @@
+// Accepts `/pattern/flags` or a bare pattern, which is matched case-insensitively.
+export const parseRegexValue = (raw: string): RegExp => {
+  const trimmed = raw.trim();
+  const literal = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  // Stateful flags would make repeated .test() calls alternate results, so they are dropped.
+  return literal ? new RegExp(literal[1], literal[2].replace(/[gy]/g, '')) : new RegExp(trimmed, 'i');
+};
+
+// Invalid patterns are cached as null so they are only parsed once.
+const regexCache = new Map<string, RegExp | null>();
+export const getCachedRegex = (raw: string): RegExp | null => {
+  if (!regexCache.has(raw)) {
+    try {
+      regexCache.set(raw, parseRegexValue(raw));
+    } catch {
+      regexCache.set(raw, null);
+    }
+  }
+  return regexCache.get(raw) ?? null;
+};
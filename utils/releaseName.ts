@@ -0,0 +1,266 @@
+import { MediaCategory, ReleaseCodec, ReleaseInfo, ReleaseResolution } from '@/types/torbox';
+import {
+  AUDIO_EXTENSIONS,
+  VIDEO_EXTENSIONS,
+  EBOOK_EXTENSIONS,
+  COMICS_EXTENSIONS,
+  SOFTWARE_EXTENSIONS,
+  DOCUMENT_EXTENSIONS,
+  ARCHIVE_EXTENSIONS,
+} from '@/constants/categories';
+
+export const RELEASE_RESOLUTIONS: ReleaseResolution[] = ['2160p', '1080p', '720p', '576p', '480p'];
+export const RELEASE_CODECS: ReleaseCodec[] = ['HEVC', 'AVC', 'AV1', 'VP9', 'XviD'];
+
+const KNOWN_EXTENSIONS = new Set([
+  ...AUDIO_EXTENSIONS, ...VIDEO_EXTENSIONS, ...EBOOK_EXTENSIONS, ...COMICS_EXTENSIONS,
+  ...SOFTWARE_EXTENSIONS, ...DOCUMENT_EXTENSIONS, ...ARCHIVE_EXTENSIONS, 'nfo', 'srt', 'sub', 'idx', 'ass', 'txt', 'jpg', 'png',
+]);
+
+// Each pattern only matches a whole token: separators are anything that is not a letter or digit.
+const token = (source: string) => new RegExp(`(^|[^a-z0-9])(${source})(?=$|[^a-z0-9])`, 'i');
+
+const EPISODE_PATTERNS = [
+  token('s(\\d{1,2})[ ._-]?e(\\d{1,3})(?:[-e]{1,2}\\d{1,3})*'),
+  token('(\\d{1,2})x(\\d{2,3})'),
+];
+const SEASON_PATTERN = token('s(\\d{1,2})|season[ ._-]?(\\d{1,2})');
+// Fansub naming: `[Group] Show - 05 (1080p)`.
+const ABSOLUTE_EPISODE_PATTERN = / - (\d{1,4})(?:v\d)?(?= |$)/;
+const YEAR_PATTERN = token('(?:19|20)\\d{2}');
+const RESOLUTION_PATTERN = token('(2160|1080|720|576|480)[pi]|4k|uhd');
+// Words that only ever follow the title, so they end it even when no other tag does.
+const MARKER_PATTERN = token('proper|repack|internal|extended|unrated|remastered|uncut|hdr10?|10bit|directors[ ._-]cut');
+
+const SOURCE_PATTERNS: [RegExp, string][] = [
+  [token('remux|bdremux'), 'Remux'],
+  [token('blu-?ray|bdrip|brrip|bd25|bd50'), 'BluRay'],
+  [token('web-?dl'), 'WEB-DL'],
+  [token('web-?rip'), 'WEBRip'],
+  [token('web'), 'WEB'],
+  [token('hdtv|pdtv'), 'HDTV'],
+  [token('dvd-?rip'), 'DVDRip'],
+  [token('dvd(?:5|9|r)?'), 'DVD'],
+  [token('hdrip'), 'HDRip'],
+  [token('hdcam|cam|telesync|hdts'), 'CAM'],
+];
+
+const CODEC_PATTERNS: [RegExp, ReleaseCodec][] = [
+  [token('x265|h[ .]?265|hevc'), 'HEVC'],
+  [token('x264|h[ .]?264|avc'), 'AVC'],
+  [token('av1'), 'AV1'],
+  [token('vp9'), 'VP9'],
+  [token('xvid|divx'), 'XviD'],
+];
+
+const CHANNELS = '(?:[ .]?([1-7][ .]?[01]))?';
+const AUDIO_PATTERNS: [RegExp, string][] = [
+  [token(`truehd${CHANNELS}`), 'TrueHD'],
+  [token(`dts-?hd(?:[ .-]?ma)?${CHANNELS}`), 'DTS-HD MA'],
+  [token(`dts-?x${CHANNELS}`), 'DTS:X'],
+  [token(`dts${CHANNELS}`), 'DTS'],
+  [token(`(?:ddp|dd\\+|e-?ac-?3)${CHANNELS}`), 'DD+'],
+  [token(`(?:dd|ac-?3)${CHANNELS}`), 'DD'],
+  [token(`aac${CHANNELS}`), 'AAC'],
+  [token('flac'), 'FLAC'],
+  [token('opus'), 'Opus'],
+  [token('mp3'), 'MP3'],
+];
+
+const LANGUAGE_PATTERNS: [RegExp, string][] = [
+  [token('multi(?:subs?)?'), 'Multi'],
+  [token('dual(?:[ ._-]?audio)?'), 'Dual Audio'],
+  [token('(?:true)?french|vff|vostfr'), 'French'],
+  [token('german|ger'), 'German'],
+  [token('ita(?:lian)?'), 'Italian'],
+  [token('spanish|castellano|latino'), 'Spanish'],
+  [token('japanese|jpn'), 'Japanese'],
+  [token('korean|kor'), 'Korean'],
+  [token('russian|rus'), 'Russian'],
+  [token('hindi'), 'Hindi'],
+];
+
+// Second halves of hyphenated tags, which are not release groups even at the end of a name.
+const TAG_SUFFIXES = /^(?:dl|rip|hd|ma|x|\d{3,4}p)$/i;
+
+interface TokenMatch {
+  index: number;
+  match: RegExpMatchArray;
+}
+
+function findToken(text: string, pattern: RegExp, from = 0): TokenMatch | null {
+  const match = text.slice(from).match(pattern);
+  if (!match || match.index === undefined) return null;
+  return { index: from + match.index + match[1].length, match };
+}
+
+function findLabel<T>(text: string, patterns: [RegExp, T][], from: number): { label: T; index: number; channels?: string } | null {
+  for (const [pattern, label] of patterns) {
+    const found = findToken(text, pattern, from);
+    if (found) return { label, index: found.index, channels: found.match[3] };
+  }
+  return null;
+}
+
+function isTagBlock(text: string): boolean {
+  return RESOLUTION_PATTERN.test(text) || SOURCE_PATTERNS.some(([pattern]) => pattern.test(text)) || CODEC_PATTERNS.some(([pattern]) => pattern.test(text));
+}
+
+function stripExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 && KNOWN_EXTENSIONS.has(name.slice(dot + 1).toLowerCase()) ? name.slice(0, dot) : name;
+}
+
+function cleanTitle(raw: string): string {
+  // Dots and underscores only stand in for spaces when the name has none of its own.
+  const spaced = /\s/.test(raw) ? raw : raw.replace(/[._]+/g, ' ');
+  return spaced.replace(/\s+/g, ' ').replace(/^[\s\-–[({]+|[\s\-–[({]+$/g, '').trim();
+}
+
+function parse(name: string): ReleaseInfo {
+  let text = stripExtension(name.trim());
+  let group: string | undefined;
+
+  const leadingTag = text.match(/^\[([^\]]+)\]\s*/);
+  if (leadingTag) {
+    group = leadingTag[1].trim();
+    text = text.slice(leadingTag[0].length);
+  }
+  // Trailing site tags and CRC hashes such as `[rarbg]` or `[A1B2C3D4]`; bracketed release tags stay.
+  let trailingTag: RegExpMatchArray | null;
+  while ((trailingTag = text.match(/\s*\[([^\]]*)\]$/)) && !isTagBlock(trailingTag[1])) {
+    text = text.slice(0, trailingTag.index);
+  }
+
+  const anchors: number[] = [];
+  let season: number | undefined;
+  let episode: number | undefined;
+  for (const pattern of EPISODE_PATTERNS) {
+    const found = findToken(text, pattern);
+    if (!found) continue;
+    season = Number(found.match[3]);
+    episode = Number(found.match[4]);
+    anchors.push(found.index);
+    break;
+  }
+  if (season === undefined) {
+    const found = findToken(text, SEASON_PATTERN);
+    if (found && found.index > 0) {
+      season = Number(found.match[3] ?? found.match[4]);
+      anchors.push(found.index);
+    }
+  }
+  if (season === undefined && leadingTag) {
+    const found = text.match(ABSOLUTE_EPISODE_PATTERN);
+    if (found && found.index !== undefined) {
+      episode = Number(found[1]);
+      anchors.push(found.index);
+    }
+  }
+
+  const resolutionMatch = findToken(text, RESOLUTION_PATTERN);
+  let resolution: ReleaseResolution | undefined;
+  if (resolutionMatch) {
+    const digits = resolutionMatch.match[3];
+    resolution = digits ? `${digits}p` as ReleaseResolution : '2160p';
+    anchors.push(resolutionMatch.index);
+  }
+
+  const sourceMatch = findLabel(text, SOURCE_PATTERNS, 0);
+  const codecMatch = findLabel(text, CODEC_PATTERNS, 0);
+  const markerMatch = findToken(text, MARKER_PATTERN);
+  for (const found of [sourceMatch, codecMatch, markerMatch]) {
+    if (found && found.index > 0) anchors.push(found.index);
+  }
+
+  // The year is the last one before the other tags, so titles that start with or contain a year keep it.
+  const tagsStart = anchors.length > 0 ? Math.min(...anchors) : text.length;
+  let year: number | undefined;
+  let yearIndex = -1;
+  for (let from = 0; ; ) {
+    const found = findToken(text, YEAR_PATTERN, from);
+    if (!found || found.index > tagsStart) break;
+    if (found.index > 0) {
+      year = Number(found.match[2]);
+      yearIndex = found.index;
+    }
+    from = found.index + 4;
+  }
+  const titleEnd = yearIndex >= 0 ? Math.min(yearIndex, tagsStart) : tagsStart;
+
+  // Audio and language words also occur in titles, so they only count after it.
+  const audioMatch = findLabel(text, AUDIO_PATTERNS, titleEnd);
+  const languageMatch = findLabel(text, LANGUAGE_PATTERNS, titleEnd);
+
+  if (titleEnd < text.length) {
+    const trailingGroup = text.match(/-([a-z0-9]+)$/i);
+    if (trailingGroup && trailingGroup.index !== undefined && trailingGroup.index > titleEnd && !TAG_SUFFIXES.test(trailingGroup[1])) {
+      group = group ?? trailingGroup[1];
+    }
+  }
+
+  const title = cleanTitle(text.slice(0, titleEnd)) || cleanTitle(text) || name;
+  const info: ReleaseInfo = { title };
+  if (year !== undefined) info.year = year;
+  if (season !== undefined) info.season = season;
+  if (episode !== undefined) info.episode = episode;
+  if (resolution) info.resolution = resolution;
+  if (sourceMatch) info.source = sourceMatch.label;
+  if (codecMatch) info.codec = codecMatch.label;
+  if (audioMatch) info.audio = audioMatch.channels ? `${audioMatch.label} ${audioMatch.channels.replace(' ', '.')}` : audioMatch.label;
+  if (group) info.group = group;
+  if (languageMatch) info.language = languageMatch.label;
+  return info;
+}
+
+// Library rebuilds parse the same names on every refetch, so results are kept per name.
+const releaseCache = new Map<string, ReleaseInfo>();
+const MAX_CACHED_RELEASES = 5000;
+
+export function parseReleaseName(name: string): ReleaseInfo {
+  const cached = releaseCache.get(name);
+  if (cached) return cached;
+  if (releaseCache.size >= MAX_CACHED_RELEASES) releaseCache.clear();
+  const info = parse(name);
+  releaseCache.set(name, info);
+  return info;
+}
+
+// Video files are often named `movie.mkv` or `01.mkv` inside a fully tagged folder, so the download name fills the gaps.
+export function parseLibraryRelease(fileName: string, parentName: string, category: MediaCategory): ReleaseInfo {
+  const file = parseReleaseName(fileName);
+  if (category !== 'movie' && category !== 'tv') return file;
+  const parent = parseReleaseName(parentName);
+  const fileHasTitle = file.year !== undefined || file.season !== undefined || hasReleaseTags(file);
+  return {
+    ...parent,
+    ...file,
+    title: fileHasTitle || !hasReleaseTags(parent) ? file.title : parent.title,
+  };
+}
+
+// Lowercased title with punctuation collapsed, for matching the same title across differently named releases.
+export function normalizeReleaseTitle(title: string): string {
+  return title.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// True when the name carried scene tags, i.e. the parsed title is worth showing instead of the raw name.
+export function hasReleaseTags(info: ReleaseInfo): boolean {
+  return !!(info.resolution || info.source || info.codec || info.season !== undefined || info.episode !== undefined);
+}
+
+export function formatEpisodeCode(season?: number, episode?: number): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  if (season !== undefined && episode !== undefined) return `S${pad(season)}E${pad(episode)}`;
+  if (season !== undefined) return `S${pad(season)}`;
+  if (episode !== undefined) return `E${pad(episode)}`;
+  return '';
+}
+
+export function formatReleaseTitle(info: ReleaseInfo): string {
+  return [info.title, info.year !== undefined ? `(${info.year})` : '', formatEpisodeCode(info.season, info.episode)].filter(Boolean).join(' ');
+}
+
+export function formatReleaseTags(info: ReleaseInfo): string {
+  return [info.resolution, info.source, info.codec, info.audio, info.language].filter(Boolean).join(' · ');
+}
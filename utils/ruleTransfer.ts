@@ -0,0 +1,24 @@
+import { Platform, Share } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+
+export async function saveRulesExportFile(json: string): Promise<string> {
+  const fileName = `tordeck-rules-${new Date().toISOString().slice(0, 10)}.json`;
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;
+    anchor.click();
+    URL.revokeObjectURL(url);
+    return fileName;
+  }
+
+  const file = new File(Paths.document, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(json);
+  console.log('[RuleTransfer] Saved export to', file.uri);
+  // iOS can share the file itself; Android's share sheet only takes text.
+  await Share.share(Platform.OS === 'ios' ? { url: file.uri, title: fileName } : { message: json, title: fileName });
+  return file.uri;
+}
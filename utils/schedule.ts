@@ -0,0 +1,209 @@
+import type { TorBoxRuleSchedule } from '../types/torbox';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_NAMES: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+const MONTH_NAMES: Record<string, number> = { jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12 };
+const TIME_REGEX = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+// Long enough to find yearly expressions such as "0 0 29 2 *" in a leap year.
+const MAX_SEARCH_DAYS = 366 * 4 + 1;
+
+interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+function parseCronValue(raw: string, names: Record<string, number> | null, min: number, max: number): number {
+  // Number('') is 0, which would quietly turn "1-" into a valid range.
+  if (!raw) throw new Error('Missing value in a range');
+  const value = names?.[raw.toLowerCase()] ?? Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) throw new Error(`"${raw}" is outside ${min}-${max}`);
+  return value;
+}
+
+function parseCronField(field: string, min: number, max: number, names: Record<string, number> | null = null): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    if (!part) throw new Error(`Empty list entry in "${field}"`);
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in "${part}"`);
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseCronValue(from, names, min, max);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseCronValue(to, names, min, max);
+      if (end < start) throw new Error(`Range "${range}" runs backwards`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+const cronCache = new Map<string, CronSpec>();
+
+/** Standard 5-field cron: minute hour day-of-month month day-of-week (0 or 7 = Sunday, names allowed). */
+export function parseCronExpression(expression: string): CronSpec {
+  const normalized = expression.trim().replace(/\s+/g, ' ');
+  const cached = cronCache.get(normalized);
+  if (cached) return cached;
+  const fields = normalized.split(' ');
+  if (fields.length !== 5) throw new Error('Cron expressions need 5 fields: minute hour day month weekday.');
+  const [minute, hour, dom, month, dow] = fields;
+  const daysOfWeek = parseCronField(dow, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  const spec: CronSpec = {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dom, 1, 31),
+    months: parseCronField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    domRestricted: dom !== '*',
+    dowRestricted: dow !== '*',
+  };
+  cronCache.set(normalized, spec);
+  return spec;
+}
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock parts in the schedule's timezone, so "03:00" means 03:00 there regardless of the device zone.
+function getZonedParts(date: Date, timeZone: string | undefined): ZonedParts {
+  const zone = timeZone || getDeviceTimeZone();
+  let formatter = formatterCache.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone: zone, hourCycle: 'h23', weekday: 'short', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric' });
+    formatterCache.set(zone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value;
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour) % 24,
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES[parts.weekday.toLowerCase()] ?? 0,
+  };
+}
+
+const toMinutes = (time: string) => {
+  const match = time.match(TIME_REGEX);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+};
+
+function isDayAllowed(schedule: TorBoxRuleSchedule, weekday: number) {
+  return !schedule.days?.length || schedule.days.includes(weekday);
+}
+
+function matchesCronDay(spec: CronSpec, parts: ZonedParts): boolean {
+  if (!spec.months.has(parts.month)) return false;
+  const domMatch = spec.daysOfMonth.has(parts.day);
+  const dowMatch = spec.daysOfWeek.has(parts.weekday);
+  // Classic cron: when both day fields are restricted, either one matching is enough.
+  if (spec.domRestricted && spec.dowRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+function matchesParts(schedule: TorBoxRuleSchedule, parts: ZonedParts): boolean {
+  if (schedule.kind === 'cron') {
+    const spec = parseCronExpression(schedule.cron ?? '');
+    return spec.minutes.has(parts.minute) && spec.hours.has(parts.hour) && matchesCronDay(spec, parts);
+  }
+
+  const start = toMinutes(schedule.start ?? '00:00');
+  const end = toMinutes(schedule.end ?? '00:00');
+  const now = parts.hour * 60 + parts.minute;
+  if (start === end) return isDayAllowed(schedule, parts.weekday);
+  if (start < end) return now >= start && now < end && isDayAllowed(schedule, parts.weekday);
+  // Overnight windows (22:00-02:00) belong to the day they start on.
+  if (now >= start) return isDayAllowed(schedule, parts.weekday);
+  return now < end && isDayAllowed(schedule, (parts.weekday + 6) % 7);
+}
+
+export function isWithinSchedule(schedule: TorBoxRuleSchedule, date: Date): boolean {
+  return matchesParts(schedule, getZonedParts(date, schedule.timezone));
+}
+
+export function startOfMinute(time: number): number {
+  return Math.floor(time / 60_000) * 60_000;
+}
+
+/** First minute at or after `from` that the schedule matches, or null when none is found within four years. */
+export function getNextScheduleMatch(schedule: TorBoxRuleSchedule, from: number): number | null {
+  let cursor = startOfMinute(from);
+  const limit = cursor + MAX_SEARCH_DAYS * 86_400_000;
+  while (cursor <= limit) {
+    const parts = getZonedParts(new Date(cursor), schedule.timezone);
+    if (matchesParts(schedule, parts)) return cursor;
+    if (schedule.kind === 'cron') {
+      const spec = parseCronExpression(schedule.cron ?? '');
+      // Skip whole hours or days that cannot match instead of testing each minute.
+      if (!matchesCronDay(spec, parts)) {
+        cursor += ((23 - parts.hour) * 60 + (60 - parts.minute)) * 60_000;
+        continue;
+      }
+      if (!spec.hours.has(parts.hour)) {
+        cursor += (60 - parts.minute) * 60_000;
+        continue;
+      }
+    }
+    cursor += 60_000;
+  }
+  return null;
+}
+
+export function validateSchedule(schedule: TorBoxRuleSchedule): string | null {
+  if (schedule.timezone && !isValidTimeZone(schedule.timezone)) return `Unknown timezone "${schedule.timezone}".`;
+  if (schedule.kind === 'cron') {
+    try {
+      parseCronExpression(schedule.cron ?? '');
+    } catch (err) {
+      return err instanceof Error ? `Invalid cron expression: ${err.message}` : 'Invalid cron expression.';
+    }
+    return getNextScheduleMatch(schedule, Date.now()) === null ? 'This cron expression never runs.' : null;
+  }
+  if (!TIME_REGEX.test(schedule.start ?? '') || !TIME_REGEX.test(schedule.end ?? '')) return 'Window times must look like 18:00.';
+  if (schedule.days && schedule.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) return 'Window days must be 0 (Sunday) to 6 (Saturday).';
+  if (schedule.days && schedule.days.length === 0) return 'Pick at least one day for the window.';
+  return null;
+}
+
+export function describeSchedule(schedule: TorBoxRuleSchedule): string {
+  const zone = schedule.timezone ? ` (${schedule.timezone})` : '';
+  if (schedule.kind === 'cron') return `Cron "${schedule.cron}"${zone}`;
+  const days = !schedule.days?.length || schedule.days.length === 7
+    ? 'every day'
+    : [...schedule.days].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ');
+  return `${schedule.start}–${schedule.end}, ${days}${zone}`;
+}
@@ -0,0 +1,106 @@
+import { LibraryItem, ShowEpisode, ShowGroup, ShowSeason } from '@/types/torbox';
+import { normalizeReleaseTitle, RELEASE_RESOLUTIONS } from '@/utils/releaseName';
+
+// Files in a season folder are often just numbered: `01 - Pilot.mkv`, `E02.mkv`.
+const LEADING_EPISODE_PATTERN = /^(?:e|ep|episode)?[ ._-]*(\d{1,3})(?![\dpx])/i;
+
+export function getShowId(title: string): string {
+  return `show:${normalizeReleaseTitle(title)}`;
+}
+
+// Watched state is keyed by show and episode number, so it survives re-downloading an episode from another source.
+export function getEpisodeKey(showId: string, season: number, episode: number): string {
+  return `${showId}:${season}:${episode}`;
+}
+
+function getEpisodeNumber(item: LibraryItem): number | undefined {
+  if (item.release.episode !== undefined) return item.release.episode;
+  if (item.release.season === undefined) return undefined;
+  const match = item.fileName.match(LEADING_EPISODE_PATTERN);
+  return match ? Number(match[1]) : undefined;
+}
+
+const resolutionRank = (item: LibraryItem): number => {
+  const index = item.release.resolution ? RELEASE_RESOLUTIONS.indexOf(item.release.resolution) : -1;
+  return index === -1 ? RELEASE_RESOLUTIONS.length : index;
+};
+
+// Finished copies first, then the highest resolution, then the largest file.
+function compareCopies(a: LibraryItem, b: LibraryItem): number {
+  if (a.isComplete !== b.isComplete) return a.isComplete ? -1 : 1;
+  return resolutionRank(a) - resolutionRank(b) || b.fileSize - a.fileSize;
+}
+
+export function buildShowGroups(items: LibraryItem[]): ShowGroup[] {
+  const shows = new Map<string, { group: ShowGroup; episodes: Map<string, ShowEpisode>; downloads: Set<string> }>();
+
+  for (const item of items) {
+    if (item.category !== 'tv') continue;
+    const id = getShowId(item.release.title);
+    let entry = shows.get(id);
+    if (!entry) {
+      entry = {
+        group: { id, title: item.release.title, seasons: [], extras: [], episodeCount: 0, totalSize: 0, downloadCount: 0, createdAt: item.createdAt },
+        episodes: new Map(),
+        downloads: new Set(),
+      };
+      shows.set(id, entry);
+    }
+    const { group, episodes, downloads } = entry;
+    group.totalSize += item.fileSize;
+    downloads.add(`${item.source}-${item.sourceId}`);
+    if (group.year === undefined && item.release.year !== undefined) group.year = item.release.year;
+    if (new Date(item.createdAt).getTime() > new Date(group.createdAt).getTime()) group.createdAt = item.createdAt;
+
+    const episodeNumber = getEpisodeNumber(item);
+    if (episodeNumber === undefined) {
+      group.extras.push(item);
+      continue;
+    }
+    // Absolute-numbered episodes carry no season and are listed as season 1.
+    const season = item.release.season ?? 1;
+    const key = getEpisodeKey(id, season, episodeNumber);
+    const episode = episodes.get(key);
+    if (episode) {
+      episode.files.push(item);
+    } else {
+      episodes.set(key, { key, season, episode: episodeNumber, files: [item] });
+    }
+  }
+
+  const groups: ShowGroup[] = [];
+  for (const { group, episodes, downloads } of shows.values()) {
+    const seasons = new Map<number, ShowSeason>();
+    for (const episode of episodes.values()) {
+      episode.files.sort(compareCopies);
+      const season = seasons.get(episode.season) ?? { season: episode.season, episodes: [], totalSize: 0 };
+      season.episodes.push(episode);
+      season.totalSize += episode.files.reduce((sum, file) => sum + file.fileSize, 0);
+      seasons.set(episode.season, season);
+    }
+    for (const season of seasons.values()) season.episodes.sort((a, b) => a.episode - b.episode);
+    // Specials (season 0) are listed after the regular seasons.
+    group.seasons = [...seasons.values()].sort((a, b) => (a.season || Infinity) - (b.season || Infinity));
+    group.episodeCount = episodes.size;
+    group.downloadCount = downloads.size;
+    group.extras.sort((a, b) => a.fileName.localeCompare(b.fileName));
+    groups.push(group);
+  }
+
+  groups.sort((a, b) => a.title.localeCompare(b.title));
+  return groups;
+}
+
+// The first episode after the furthest one watched, in whichever download or source it lives; specials are skipped.
+export function getNextEpisode(show: ShowGroup, watched: Record<string, string>): ShowEpisode | null {
+  const episodes = show.seasons.filter(season => season.season > 0).flatMap(season => season.episodes);
+  let lastWatched = -1;
+  episodes.forEach((episode, index) => {
+    if (watched[episode.key]) lastWatched = index;
+  });
+  return episodes[lastWatched + 1] ?? null;
+}
+
+export function countWatchedEpisodes(show: ShowGroup, watched: Record<string, string>): number {
+  return show.seasons.reduce((sum, season) => sum + season.episodes.filter(episode => watched[episode.key]).length, 0);
+}